@@ -3,6 +3,7 @@ namespace LocalbirdCapture.Models;
 public record CapturedFrame
 {
     public required Guid Id { get; init; }
+    public long Sequence { get; init; }
     public required DateTime Timestamp { get; init; }
     public required byte[] ImageData { get; init; }
     public AccessibilitySnapshot? AccessibilityData { get; init; }
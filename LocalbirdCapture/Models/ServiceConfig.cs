@@ -5,6 +5,17 @@ public record ServiceConfig
     public double CaptureInterval { get; init; } = 5.0;
     public bool EnableFullScreenCaptures { get; init; } = true;
     public double FullScreenCaptureInterval { get; init; } = 1.0;
+    public List<ExclusionRule> ExclusionRules { get; init; } = new();
+}
+
+// Privacy rule from the Electron app. Only "drop" rules are applied here (the
+// window is never captured); other actions are handled after capture.
+public record ExclusionRule
+{
+    // "appBundleId", "appName", "windowTitle" or "url"
+    public string Field { get; init; } = "";
+    public string Pattern { get; init; } = "";
+    public string Action { get; init; } = "";
 }
 
 public record ServiceStatus
@@ -75,34 +75,112 @@ app.MapGet("/frame/latest", () =>
         return Results.NotFound(new { error = "No frames captured" });
     }
 
-    return Results.Ok(new
+    return Results.Ok(SerializeFrame(frame));
+});
+
+// Stream every captured frame as Server-Sent Events. Event ids are
+// "<instance>:<sequence>"; clients reconnecting with Last-Event-ID receive any
+// buffered frames they missed, all of them if the service restarted since.
+app.MapGet("/frame/stream", async (HttpContext context) =>
+{
+    context.Response.Headers.ContentType = "text/event-stream";
+    context.Response.Headers.CacheControl = "no-cache";
+    context.Response.Headers.Connection = "keep-alive";
+
+    var channel = System.Threading.Channels.Channel.CreateBounded<CapturedFrame>(
+        new System.Threading.Channels.BoundedChannelOptions(50)
+        {
+            FullMode = System.Threading.Channels.BoundedChannelFullMode.DropOldest
+        });
+    void OnFrame(CapturedFrame frame) => channel.Writer.TryWrite(frame);
+    coordinator.OnFrameCaptured += OnFrame;
+
+    try
     {
-        id = frame.Id.ToString(),
-        timestamp = new DateTimeOffset(frame.Timestamp).ToUnixTimeMilliseconds() / 1000.0,
-        imageBase64 = Convert.ToBase64String(frame.ImageData),
-        windowTitle = frame.Metadata?.WindowTitle,
-        appName = frame.Metadata?.AppName,
-        appBundleId = frame.Metadata?.AppBundleId,
-        trigger = frame.Metadata?.Trigger.ToString().ToLowerInvariant(),
-        windowBounds = frame.Metadata?.WindowBounds != null ? new
+        var lastSequence = 0L;
+        var lastEventId = context.Request.Headers["Last-Event-ID"].ToString();
+        var separator = lastEventId.LastIndexOf(':');
+        if (long.TryParse(lastEventId[(separator + 1)..], out var lastSeen))
         {
-            x = frame.Metadata.WindowBounds.X,
-            y = frame.Metadata.WindowBounds.Y,
-            width = frame.Metadata.WindowBounds.Width,
-            height = frame.Metadata.WindowBounds.Height
-        } : null,
-        accessibilityData = frame.AccessibilityData != null ? new
+            // Sequences from an earlier run of the service don't apply to this one
+            var sameInstance = separator < 0 || lastEventId[..separator] == ServiceInstance.Id;
+            foreach (var missed in coordinator.GetFramesSince(sameInstance ? lastSeen : 0))
+            {
+                await WriteFrameEvent(context.Response, missed);
+                lastSequence = missed.Sequence;
+            }
+        }
+
+        await context.Response.WriteAsync(": connected\n\n");
+        await context.Response.Body.FlushAsync();
+
+        var token = context.RequestAborted;
+        while (!token.IsCancellationRequested)
         {
-            focusedApp = frame.AccessibilityData.FocusedApp,
-            focusedWindow = frame.AccessibilityData.FocusedWindow,
-            elements = frame.AccessibilityData.Elements.Select(SerializeElement).ToList()
-        } : null
-    });
+            using var heartbeat = CancellationTokenSource.CreateLinkedTokenSource(token);
+            heartbeat.CancelAfter(TimeSpan.FromSeconds(15));
+            try
+            {
+                var frame = await channel.Reader.ReadAsync(heartbeat.Token);
+                if (frame.Sequence <= lastSequence) continue;
+                await WriteFrameEvent(context.Response, frame);
+                lastSequence = frame.Sequence;
+            }
+            catch (OperationCanceledException) when (!token.IsCancellationRequested)
+            {
+                await context.Response.WriteAsync(": heartbeat\n\n");
+                await context.Response.Body.FlushAsync();
+            }
+        }
+    }
+    catch (OperationCanceledException)
+    {
+        // Client disconnected
+    }
+    finally
+    {
+        coordinator.OnFrameCaptured -= OnFrame;
+    }
 });
 
 Console.WriteLine($"Localbird Capture Service starting on port {port}...");
 app.Run();
 
+// Helper to serialize a frame in the shape Electron expects
+static object SerializeFrame(CapturedFrame frame) => new
+{
+    id = frame.Id.ToString(),
+    instance = ServiceInstance.Id,
+    sequence = frame.Sequence,
+    timestamp = new DateTimeOffset(frame.Timestamp).ToUnixTimeMilliseconds() / 1000.0,
+    imageBase64 = Convert.ToBase64String(frame.ImageData),
+    windowTitle = frame.Metadata?.WindowTitle,
+    appName = frame.Metadata?.AppName,
+    appBundleId = frame.Metadata?.AppBundleId,
+    trigger = frame.Metadata?.Trigger.ToString().ToLowerInvariant(),
+    windowBounds = frame.Metadata?.WindowBounds != null ? new
+    {
+        x = frame.Metadata.WindowBounds.X,
+        y = frame.Metadata.WindowBounds.Y,
+        width = frame.Metadata.WindowBounds.Width,
+        height = frame.Metadata.WindowBounds.Height
+    } : null,
+    accessibilityData = frame.AccessibilityData != null ? new
+    {
+        focusedApp = frame.AccessibilityData.FocusedApp,
+        focusedWindow = frame.AccessibilityData.FocusedWindow,
+        elements = frame.AccessibilityData.Elements.Select(SerializeElement).ToList()
+    } : null
+};
+
+// Helper to write a single frame as an SSE event
+static async Task WriteFrameEvent(HttpResponse response, CapturedFrame frame)
+{
+    var json = System.Text.Json.JsonSerializer.Serialize(SerializeFrame(frame));
+    await response.WriteAsync($"id: {ServiceInstance.Id}:{frame.Sequence}\nevent: frame\ndata: {json}\n\n");
+    await response.Body.FlushAsync();
+}
+
 // Helper to serialize accessibility elements
 static object SerializeElement(AccessibilityElement e) => new
 {
@@ -112,3 +190,9 @@ static object SerializeElement(AccessibilityElement e) => new
     frame = e.Frame != null ? new { x = e.Frame.X, y = e.Frame.Y, width = e.Frame.Width, height = e.Frame.Height } : null,
     children = e.Children?.Select(SerializeElement).ToList()
 };
+
+// Identifies this run of the service; frame sequences restart with every run
+static class ServiceInstance
+{
+    public static readonly string Id = Guid.NewGuid().ToString("N");
+}
@@ -1,3 +1,4 @@
+using System.Text.RegularExpressions;
 using LocalbirdCapture.Models;
 using LocalbirdCapture.Utilities;
 
@@ -13,14 +14,22 @@ public class CaptureCoordinator : IDisposable
     private System.Threading.Timer? _captureTimer;
     private System.Threading.Timer? _fullScreenTimer;
     private ServiceConfig _config = new();
+    private List<Func<string?, string?, string?, bool>> _dropRules = new();
     private readonly object _frameLock = new();
 
+    // Recent frames kept so stream subscribers can catch up after a reconnect
+    private const int RecentFrameCapacity = 20;
+    private readonly LinkedList<CapturedFrame> _recentFrames = new();
+
     private CapturedFrame? _latestFrame;
+    private long _sequence;
     private int _frameCount;
     private DateTime? _lastCaptureTime;
     private string? _lastError;
     private bool _isRunning;
 
+    public event Action<CapturedFrame>? OnFrameCaptured;
+
     public CaptureCoordinator(
         ILogger<CaptureCoordinator> logger,
         ScreenCaptureService captureService,
@@ -38,8 +47,9 @@ public class CaptureCoordinator : IDisposable
     public void Configure(ServiceConfig config)
     {
         _config = config;
-        _logger.LogInformation("Configured with interval={Interval}s, fullScreen={FullScreen}, fullScreenInterval={FSInterval}s",
-            config.CaptureInterval, config.EnableFullScreenCaptures, config.FullScreenCaptureInterval);
+        _dropRules = CompileDropRules(config.ExclusionRules);
+        _logger.LogInformation("Configured with interval={Interval}s, fullScreen={FullScreen}, fullScreenInterval={FSInterval}s, dropRules={DropRules}",
+            config.CaptureInterval, config.EnableFullScreenCaptures, config.FullScreenCaptureInterval, _dropRules.Count);
 
         if (_isRunning)
         {
@@ -103,6 +113,29 @@ public class CaptureCoordinator : IDisposable
         }
     }
 
+    public List<CapturedFrame> GetFramesSince(long sequence)
+    {
+        lock (_frameLock)
+        {
+            return _recentFrames.Where(f => f.Sequence > sequence).ToList();
+        }
+    }
+
+    private void PublishFrame(CapturedFrame frame)
+    {
+        lock (_frameLock)
+        {
+            _latestFrame = frame;
+            _recentFrames.AddLast(frame);
+            while (_recentFrames.Count > RecentFrameCapacity)
+            {
+                _recentFrames.RemoveFirst();
+            }
+        }
+
+        OnFrameCaptured?.Invoke(frame);
+    }
+
     private void StartTimers()
     {
         _captureTimer?.Dispose();
@@ -123,6 +156,54 @@ public class CaptureCoordinator : IDisposable
         }
     }
 
+    // Matchers over (app id, app name, window title) for the rules we can apply
+    // before capturing. URLs aren't known here, so URL rules are left to Electron.
+    private List<Func<string?, string?, string?, bool>> CompileDropRules(List<ExclusionRule> rules)
+    {
+        var matchers = new List<Func<string?, string?, string?, bool>>();
+        foreach (var rule in rules.Where(r => r.Action == "drop" && !string.IsNullOrWhiteSpace(r.Pattern)))
+        {
+            var pattern = rule.Pattern.Trim();
+            switch (rule.Field)
+            {
+                case "appBundleId":
+                    matchers.Add((appId, _, _) => string.Equals(appId, pattern, StringComparison.OrdinalIgnoreCase));
+                    break;
+                case "appName":
+                    matchers.Add((_, appName, _) => string.Equals(appName, pattern, StringComparison.OrdinalIgnoreCase));
+                    break;
+                case "windowTitle":
+                    try
+                    {
+                        var regex = new Regex(pattern, RegexOptions.IgnoreCase, TimeSpan.FromMilliseconds(100));
+                        matchers.Add((_, _, title) => title != null && regex.IsMatch(title));
+                    }
+                    catch (ArgumentException ex)
+                    {
+                        _logger.LogWarning("Ignoring invalid window title pattern '{Pattern}': {Error}", pattern, ex.Message);
+                    }
+                    break;
+            }
+        }
+        return matchers;
+    }
+
+    private bool IsExcluded()
+    {
+        var appId = _windowMonitor.CurrentProcessPath;
+        var appName = _windowMonitor.CurrentAppName;
+        var title = _windowMonitor.CurrentWindowTitle;
+        try
+        {
+            return _dropRules.Any(matches => matches(appId, appName, title));
+        }
+        catch (RegexMatchTimeoutException)
+        {
+            // Err on the side of not capturing
+            return true;
+        }
+    }
+
     private async void HandleWindowChanged(IntPtr newHwnd, IntPtr oldHwnd)
     {
         if (_isRunning)
@@ -142,6 +223,12 @@ public class CaptureCoordinator : IDisposable
                 return;
             }
 
+            if (IsExcluded())
+            {
+                _logger.LogDebug("Skipping capture of excluded window");
+                return;
+            }
+
             // Capture screenshot
             var imageData = await _captureService.CaptureWindowAsync(hwnd);
             if (imageData == null)
@@ -157,6 +244,7 @@ public class CaptureCoordinator : IDisposable
             var frame = new CapturedFrame
             {
                 Id = Guid.NewGuid(),
+                Sequence = Interlocked.Increment(ref _sequence),
                 Timestamp = DateTime.UtcNow,
                 ImageData = imageData,
                 AccessibilityData = accessibilityData,
@@ -170,13 +258,10 @@ public class CaptureCoordinator : IDisposable
                 }
             };
 
-            lock (_frameLock)
-            {
-                _latestFrame = frame;
-            }
             _frameCount++;
             _lastCaptureTime = frame.Timestamp;
             _lastError = null;
+            PublishFrame(frame);
 
             _logger.LogInformation("[{Trigger}] Frame {Count}: {App} - {Title} ({Size} bytes)",
                 trigger, _frameCount, frame.Metadata.AppName, frame.Metadata.WindowTitle, imageData.Length);
@@ -193,6 +278,14 @@ public class CaptureCoordinator : IDisposable
         try
         {
             var hwnd = _windowMonitor.CurrentWindow;
+
+            // The excluded window would be visible in the full screen capture too
+            if (IsExcluded())
+            {
+                _logger.LogDebug("Skipping full screen capture while an excluded window is focused");
+                return;
+            }
+
             var hMonitor = WindowHelper.MonitorFromWindow(hwnd, WindowHelper.MONITOR_DEFAULTTONEAREST);
 
             var imageData = await _captureService.CaptureMonitorAsync(hMonitor);
@@ -207,6 +300,7 @@ public class CaptureCoordinator : IDisposable
             var frame = new CapturedFrame
             {
                 Id = Guid.NewGuid(),
+                Sequence = Interlocked.Increment(ref _sequence),
                 Timestamp = DateTime.UtcNow,
                 ImageData = imageData,
                 AccessibilityData = accessibilityData,
@@ -219,12 +313,9 @@ public class CaptureCoordinator : IDisposable
                 }
             };
 
-            lock (_frameLock)
-            {
-                _latestFrame = frame;
-            }
             _frameCount++;
             _lastCaptureTime = frame.Timestamp;
+            PublishFrame(frame);
         }
         catch (Exception ex)
         {
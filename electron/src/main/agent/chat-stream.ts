@@ -0,0 +1,134 @@
+import type { UIMessage, UIMessageStreamWriter } from 'ai'
+import { randomUUID } from 'crypto'
+import { estimateCost, TokenUsage } from '../usage'
+import type { AgentToolCall } from './types'
+
+export interface ChatUsage {
+  inputTokens: number
+  outputTokens: number
+  // Estimated USD; null when a model's price is unknown
+  cost: number | null
+}
+
+// Data parts sent with an assistant reply, alongside its text
+export type ChatDataTypes = {
+  citation: { frameId: string }
+  usage: ChatUsage
+}
+
+export type ChatUIMessage = UIMessage<never, ChatDataTypes>
+
+// Inline capture citations in the answer text, e.g. [frame:3f2a...]
+const CITATION_PATTERN = /\[frame:([\w-]+)\]/g
+
+// Tool results are JSON; anything else is passed on as text
+function parseToolOutput(content: string): unknown {
+  try {
+    return JSON.parse(content)
+  } catch {
+    return content
+  }
+}
+
+/**
+ * Writes one assistant reply as AI SDK UI message stream chunks: reasoning and
+ * text parts, tool calls with their input and results, the frames cited in
+ * the text, and the tokens used.
+ */
+export class ChatStreamWriter {
+  private openPart: { type: 'text' | 'reasoning'; id: string } | null = null
+  private partText = ''
+  private citedFrameIds = new Set<string>()
+  private usage: ChatUsage = { inputTokens: 0, outputTokens: 0, cost: 0 }
+
+  constructor(private writer: UIMessageStreamWriter<ChatUIMessage>) {}
+
+  start(): void {
+    this.writer.write({ type: 'start' })
+  }
+
+  // One model turn; the client groups its parts
+  startStep(): void {
+    this.writer.write({ type: 'start-step' })
+  }
+
+  finishStep(): void {
+    this.endPart()
+    this.writer.write({ type: 'finish-step' })
+  }
+
+  thinking(delta: string): void {
+    this.writeDelta('reasoning', delta)
+  }
+
+  text(delta: string): void {
+    this.writeDelta('text', delta)
+  }
+
+  toolCallStart(id: string, name: string): void {
+    this.endPart()
+    this.writer.write({ type: 'tool-input-start', toolCallId: id, toolName: name, dynamic: true })
+  }
+
+  toolCallInput(id: string, json: string): void {
+    this.writer.write({ type: 'tool-input-delta', toolCallId: id, inputTextDelta: json })
+  }
+
+  // The complete call, once the model has finished its turn
+  toolCall(call: AgentToolCall): void {
+    this.writer.write({
+      type: 'tool-input-available',
+      toolCallId: call.id,
+      toolName: call.name,
+      input: call.input,
+      dynamic: true
+    })
+  }
+
+  // Images in the result are for the model only and aren't sent to the client
+  toolResult(id: string, content: string): void {
+    this.writer.write({ type: 'tool-output-available', toolCallId: id, output: parseToolOutput(content), dynamic: true })
+  }
+
+  addUsage(usage: TokenUsage): void {
+    this.usage.inputTokens += usage.inputTokens
+    this.usage.outputTokens += usage.outputTokens
+    const cost = estimateCost(usage.provider, usage.model, usage.inputTokens, usage.outputTokens)
+    this.usage.cost = cost === null || this.usage.cost === null ? null : this.usage.cost + cost
+  }
+
+  finish(): void {
+    this.endPart()
+    this.writer.write({ type: 'data-usage', data: { ...this.usage } })
+    this.writer.write({ type: 'finish' })
+  }
+
+  private writeDelta(type: 'text' | 'reasoning', delta: string): void {
+    if (this.openPart?.type !== type) {
+      this.endPart()
+      this.openPart = { type, id: randomUUID() }
+      this.writer.write({ type: `${type}-start`, id: this.openPart.id })
+    }
+    if (type === 'text') this.partText += delta
+    this.writer.write({ type: `${type}-delta`, id: this.openPart.id, delta })
+  }
+
+  private endPart(): void {
+    if (!this.openPart) return
+    this.writer.write({ type: `${this.openPart.type}-end`, id: this.openPart.id })
+    if (this.openPart.type === 'text') {
+      this.writeCitations(this.partText)
+      this.partText = ''
+    }
+    this.openPart = null
+  }
+
+  // Markers can be split across deltas, so text parts are scanned once complete
+  private writeCitations(text: string): void {
+    for (const [, frameId] of text.matchAll(CITATION_PATTERN)) {
+      if (this.citedFrameIds.has(frameId)) continue
+      this.citedFrameIds.add(frameId)
+      this.writer.write({ type: 'data-citation', id: `citation-${frameId}`, data: { frameId } })
+    }
+  }
+}
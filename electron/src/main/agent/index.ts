@@ -0,0 +1,39 @@
+import { AgentProvider, AgentProviderType } from './types'
+import { AnthropicAgentProvider } from './providers/anthropic'
+import { OpenAIAgentProvider } from './providers/openai'
+import { GeminiAgentProvider } from './providers/gemini'
+import type { LocalLLMSettings } from '../llm/types'
+
+export * from './types'
+export * from './chat-stream'
+
+export type CloudAgentProviderType = Exclude<AgentProviderType, 'local'>
+
+// Where each cloud chat provider's API key is configured
+export const AGENT_API_KEY_SETTINGS: Record<CloudAgentProviderType, { label: string; setting: string; envVar: string }> = {
+  anthropic: { label: 'Claude', setting: 'claudeAPIKey', envVar: 'ANTHROPIC_API_KEY' },
+  openai: { label: 'OpenAI', setting: 'openaiAPIKey', envVar: 'OPENAI_API_KEY' },
+  gemini: { label: 'Gemini', setting: 'geminiAPIKey', envVar: 'GEMINI_API_KEY' }
+}
+
+export function isAgentProviderType(value: unknown): value is AgentProviderType {
+  return value === 'local' || (typeof value === 'string' && value in AGENT_API_KEY_SETTINGS)
+}
+
+export function createAgentProvider(type: CloudAgentProviderType, apiKey: string): AgentProvider {
+  switch (type) {
+    case 'anthropic':
+      return new AnthropicAgentProvider(apiKey)
+    case 'openai':
+      return new OpenAIAgentProvider(apiKey)
+    case 'gemini':
+      return new GeminiAgentProvider(apiKey)
+  }
+}
+
+// Chat on a local OpenAI-compatible server, using its chat model (or the vision model).
+// Only the vision model is known to accept images.
+export function createLocalAgentProvider(settings: LocalLLMSettings, apiKey: string): AgentProvider {
+  const model = settings.chatModel || settings.visionModel
+  return new OpenAIAgentProvider(apiKey, model, settings.baseURL, 'local', model === settings.visionModel)
+}
@@ -0,0 +1,112 @@
+import Anthropic from '@anthropic-ai/sdk'
+import { AgentProvider, AgentMessage, AgentTurnRequest, AgentStreamHandlers, AgentTurn, countImages } from '../types'
+import { usageLedger, TokenUsage } from '../../usage'
+
+// Assistant turns from a saved chat have no raw response, so the blocks are rebuilt
+function toAnthropicContent(message: Extract<AgentMessage, { role: 'assistant' }>): Anthropic.MessageParam['content'] {
+  if (!message.toolCalls?.length) return message.content
+  return [
+    ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+    ...message.toolCalls.map((call) => ({ type: 'tool_use' as const, id: call.id, name: call.name, input: call.input }))
+  ]
+}
+
+function toAnthropicMessages(messages: AgentMessage[]): Anthropic.MessageParam[] {
+  return messages.map((message): Anthropic.MessageParam => {
+    switch (message.role) {
+      case 'user':
+        return { role: 'user', content: message.content }
+      case 'assistant':
+        return { role: 'assistant', content: (message.raw as Anthropic.ContentBlock[] | undefined) ?? toAnthropicContent(message) }
+      case 'tool':
+        return {
+          role: 'user',
+          content: message.results.map((result) => ({
+            type: 'tool_result',
+            tool_use_id: result.toolCallId,
+            content: result.images?.length
+              ? [
+                  { type: 'text', text: result.content },
+                  ...result.images.map((image) => ({
+                    type: 'image' as const,
+                    source: { type: 'base64' as const, media_type: image.mediaType, data: image.data }
+                  }))
+                ]
+              : result.content
+          }))
+        }
+    }
+  })
+}
+
+export class AnthropicAgentProvider implements AgentProvider {
+  name = 'Anthropic'
+  readonly model: string
+  readonly supportsImages = true
+  readonly runsLocally = false
+
+  private client: Anthropic
+
+  constructor(apiKey: string, model: string = 'claude-opus-4-5') {
+    this.client = new Anthropic({ apiKey })
+    this.model = model
+  }
+
+  async streamTurn(request: AgentTurnRequest, handlers: AgentStreamHandlers): Promise<AgentTurn> {
+    // Extended thinking is streamed to the client alongside the answer
+    const stream = this.client.messages.stream(
+      {
+        model: this.model,
+        max_tokens: 16000,
+        thinking: {
+          type: 'enabled',
+          budget_tokens: 10000
+        },
+        system: request.system,
+        messages: toAnthropicMessages(request.messages),
+        tools: request.tools
+      },
+      { signal: request.signal }
+    )
+    // Tool use blocks by content index, for matching their input deltas
+    const toolCallIds = new Map<number, string>()
+
+    stream.on('thinking', (thinking) => handlers.onThinking(thinking))
+    stream.on('text', (text) => handlers.onText(text))
+    stream.on('streamEvent', (event) => {
+      if (event.type === 'content_block_start' && event.content_block.type === 'tool_use') {
+        toolCallIds.set(event.index, event.content_block.id)
+        handlers.onToolCallStart(event.content_block.id, event.content_block.name)
+      } else if (event.type === 'content_block_delta' && event.delta.type === 'input_json_delta') {
+        const id = toolCallIds.get(event.index)
+        if (id) handlers.onToolCallInput(id, event.delta.partial_json)
+      }
+    })
+
+    const response = await stream.finalMessage()
+    const usage: TokenUsage = {
+      provider: 'claude',
+      model: this.model,
+      purpose: 'agent',
+      inputTokens:
+        response.usage.input_tokens +
+        (response.usage.cache_creation_input_tokens ?? 0) +
+        (response.usage.cache_read_input_tokens ?? 0),
+      outputTokens: response.usage.output_tokens,
+      images: countImages(request.messages)
+    }
+    usageLedger.record(usage)
+
+    let text = ''
+    const toolCalls: AgentTurn['toolCalls'] = []
+    for (const block of response.content) {
+      if (block.type === 'text') {
+        text += block.text
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({ id: block.id, name: block.name, input: block.input as Record<string, unknown> })
+      }
+    }
+
+    return { text, toolCalls, usage, raw: response.content }
+  }
+}
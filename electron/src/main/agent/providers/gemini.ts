@@ -0,0 +1,139 @@
+import { AgentProvider, AgentMessage, AgentTurnRequest, AgentStreamHandlers, AgentTurn, AgentToolCall, countImages } from '../types'
+import { LLMError } from '../../llm/types'
+import { toGeminiTools } from '../../tools/definitions'
+import { readServerSentEvents } from '../sse'
+import { llmRequests } from '../../llm/request'
+import { usageLedger, TokenUsage } from '../../usage'
+import { randomUUID } from 'crypto'
+
+interface GeminiPart {
+  text?: string
+  thought?: boolean
+  functionCall?: { name: string; args?: Record<string, unknown> }
+  functionResponse?: { name: string; response: Record<string, unknown> }
+  inlineData?: { mimeType: string; data: string }
+  thoughtSignature?: string
+}
+
+interface GeminiContent {
+  role: 'user' | 'model'
+  parts: GeminiPart[]
+}
+
+function toGeminiContents(messages: AgentMessage[]): GeminiContent[] {
+  const contents: GeminiContent[] = []
+  for (const message of messages) {
+    switch (message.role) {
+      case 'user':
+        if (message.content) contents.push({ role: 'user', parts: [{ text: message.content }] })
+        break
+      case 'assistant': {
+        // Assistant turns from a saved chat have no raw response, so the parts are rebuilt
+        const parts = (message.raw as GeminiPart[] | undefined) ?? [
+          ...(message.content ? [{ text: message.content }] : []),
+          ...(message.toolCalls ?? []).map((call) => ({ functionCall: { name: call.name, args: call.input } }))
+        ]
+        if (parts.length > 0) contents.push({ role: 'model', parts })
+        break
+      }
+      case 'tool':
+        contents.push({
+          role: 'user',
+          parts: [
+            ...message.results.map((result) => ({
+              functionResponse: { name: result.name, response: { content: result.content } }
+            })),
+            // Images follow the function responses in the same turn
+            ...message.results.flatMap((result) =>
+              (result.images ?? []).map((image) => ({ inlineData: { mimeType: image.mediaType, data: image.data } }))
+            )
+          ]
+        })
+        break
+    }
+  }
+  return contents
+}
+
+export class GeminiAgentProvider implements AgentProvider {
+  name = 'Gemini'
+  readonly model: string
+  readonly supportsImages = true
+  readonly runsLocally = false
+
+  private apiKey: string
+  private baseURL = 'https://generativelanguage.googleapis.com/v1beta'
+
+  constructor(apiKey: string, model: string = 'gemini-2.5-flash') {
+    this.apiKey = apiKey
+    this.model = model
+  }
+
+  async streamTurn(request: AgentTurnRequest, handlers: AgentStreamHandlers): Promise<AgentTurn> {
+    const requestBody = {
+      systemInstruction: { parts: [{ text: request.system }] },
+      contents: toGeminiContents(request.messages),
+      tools: [{ functionDeclarations: toGeminiTools(request.tools) }],
+      generationConfig: {
+        thinkingConfig: { includeThoughts: true }
+      }
+    }
+
+    const url = `${this.baseURL}/models/${this.model}:streamGenerateContent?alt=sse&key=${this.apiKey}`
+
+    const response = await llmRequests.fetch('gemini', url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(requestBody),
+      signal: request.signal
+    })
+
+    if (!response.ok) {
+      const errorBody = await response.text()
+      throw new LLMError(`Gemini chat error: ${errorBody}`, 'API_ERROR', response.status)
+    }
+
+    let text = ''
+    const parts: GeminiPart[] = []
+    const toolCalls: AgentToolCall[] = []
+    // Each chunk carries the running totals; the last one counts
+    let reported: { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number } | undefined
+
+    for await (const data of readServerSentEvents(response)) {
+      const chunk = JSON.parse(data)
+      if (chunk?.usageMetadata) reported = chunk.usageMetadata
+      for (const part of (chunk?.candidates?.[0]?.content?.parts ?? []) as GeminiPart[]) {
+        parts.push(part)
+        if (part.functionCall) {
+          // Gemini function calls have no id; results are matched by name and order.
+          // Calls arrive whole, so the input is reported in one piece.
+          const toolCall: AgentToolCall = {
+            id: `${part.functionCall.name}-${randomUUID()}`,
+            name: part.functionCall.name,
+            input: part.functionCall.args ?? {}
+          }
+          toolCalls.push(toolCall)
+          handlers.onToolCallStart(toolCall.id, toolCall.name)
+          handlers.onToolCallInput(toolCall.id, JSON.stringify(toolCall.input))
+        } else if (part.text && part.thought) {
+          handlers.onThinking(part.text)
+        } else if (part.text) {
+          text += part.text
+          handlers.onText(part.text)
+        }
+      }
+    }
+
+    const usage: TokenUsage = {
+      provider: 'gemini',
+      model: this.model,
+      purpose: 'agent',
+      inputTokens: reported?.promptTokenCount ?? 0,
+      outputTokens: (reported?.candidatesTokenCount ?? 0) + (reported?.thoughtsTokenCount ?? 0),
+      images: countImages(request.messages)
+    }
+    usageLedger.record(usage)
+
+    return { text, toolCalls, usage, raw: parts }
+  }
+}
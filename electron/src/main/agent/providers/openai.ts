@@ -0,0 +1,173 @@
+import { AgentProvider, AgentMessage, AgentTurnRequest, AgentStreamHandlers, AgentTurn, AgentToolCall, countImages } from '../types'
+import { LLMError } from '../../llm/types'
+import { toOpenAITools } from '../../tools/definitions'
+import { readServerSentEvents } from '../sse'
+import { llmRequests } from '../../llm/request'
+import { usageLedger, TokenUsage } from '../../usage'
+import { randomUUID } from 'crypto'
+
+interface OpenAIToolCallDelta {
+  index: number
+  id?: string
+  function?: { name?: string; arguments?: string }
+}
+
+function toOpenAIMessages(system: string, messages: AgentMessage[]): Record<string, unknown>[] {
+  const result: Record<string, unknown>[] = [{ role: 'system', content: system }]
+  for (const message of messages) {
+    switch (message.role) {
+      case 'user':
+        result.push({ role: 'user', content: message.content })
+        break
+      case 'assistant':
+        result.push({
+          role: 'assistant',
+          content: message.content || null,
+          ...(message.toolCalls?.length
+            ? {
+                tool_calls: message.toolCalls.map((call) => ({
+                  id: call.id,
+                  type: 'function',
+                  function: { name: call.name, arguments: JSON.stringify(call.input) }
+                }))
+              }
+            : {})
+        })
+        break
+      case 'tool': {
+        for (const toolResult of message.results) {
+          result.push({ role: 'tool', tool_call_id: toolResult.toolCallId, content: toolResult.content })
+        }
+        // Tool messages can only hold text, so images follow in a user message
+        const withImages = message.results.filter((toolResult) => toolResult.images?.length)
+        if (withImages.length > 0) {
+          result.push({
+            role: 'user',
+            content: withImages.flatMap((toolResult) => [
+              { type: 'text', text: `Image from ${toolResult.name} (${toolResult.toolCallId}):` },
+              ...toolResult.images!.map((image) => ({
+                type: 'image_url',
+                image_url: { url: `data:${image.mediaType};base64,${image.data}` }
+              }))
+            ])
+          })
+        }
+        break
+      }
+    }
+  }
+  return result
+}
+
+function parseArguments(value: string): Record<string, unknown> {
+  if (!value) return {}
+  try {
+    const parsed = JSON.parse(value)
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+// Also used for local OpenAI-compatible servers, which may not need an API key
+export class OpenAIAgentProvider implements AgentProvider {
+  readonly name: string
+  readonly model: string
+  readonly supportsImages: boolean
+  readonly runsLocally: boolean
+
+  private apiKey: string
+  private baseURL: string
+
+  private provider: 'openai' | 'local'
+
+  constructor(
+    apiKey: string,
+    model: string = 'gpt-4o',
+    baseURL: string = 'https://api.openai.com/v1',
+    provider: 'openai' | 'local' = 'openai',
+    supportsImages: boolean = true
+  ) {
+    this.apiKey = apiKey
+    this.model = model
+    this.baseURL = baseURL.replace(/\/+$/, '')
+    this.provider = provider
+    this.name = provider === 'local' ? 'Local' : 'OpenAI'
+    this.supportsImages = supportsImages
+    this.runsLocally = provider === 'local'
+  }
+
+  async streamTurn(request: AgentTurnRequest, handlers: AgentStreamHandlers): Promise<AgentTurn> {
+    const requestBody = {
+      model: this.model,
+      messages: toOpenAIMessages(request.system, request.messages),
+      tools: toOpenAITools(request.tools),
+      stream: true,
+      // Token counts arrive in a final chunk without choices
+      stream_options: { include_usage: true }
+    }
+
+    const response = await llmRequests.fetch(this.provider, `${this.baseURL}/chat/completions`, {
+      method: 'POST',
+      headers: this.apiKey
+        ? { 'Content-Type': 'application/json', Authorization: `Bearer ${this.apiKey}` }
+        : { 'Content-Type': 'application/json' },
+      body: JSON.stringify(requestBody),
+      signal: request.signal
+    })
+
+    if (!response.ok) {
+      const errorBody = await response.text()
+      throw new LLMError(`${this.name} chat error: ${errorBody}`, 'API_ERROR', response.status)
+    }
+
+    let text = ''
+    // Tool call ids, names and JSON arguments arrive in fragments, keyed by index
+    const calls = new Map<number, { id: string; name: string; arguments: string }>()
+    let reported: { prompt_tokens?: number; completion_tokens?: number } | undefined
+
+    for await (const data of readServerSentEvents(response)) {
+      if (data === '[DONE]') break
+      const chunk = JSON.parse(data)
+      if (chunk?.usage) reported = chunk.usage
+      const delta = chunk?.choices?.[0]?.delta
+      if (!delta) continue
+
+      if (typeof delta.content === 'string' && delta.content) {
+        text += delta.content
+        handlers.onText(delta.content)
+      }
+      for (const fragment of (delta.tool_calls ?? []) as OpenAIToolCallDelta[]) {
+        let call = calls.get(fragment.index)
+        if (!call) {
+          // The first fragment carries the id and name. Some local servers omit the id.
+          call = { id: fragment.id || `call-${randomUUID()}`, name: fragment.function?.name ?? '', arguments: '' }
+          calls.set(fragment.index, call)
+          handlers.onToolCallStart(call.id, call.name)
+        } else if (fragment.function?.name) {
+          call.name += fragment.function.name
+        }
+        if (fragment.function?.arguments) {
+          call.arguments += fragment.function.arguments
+          handlers.onToolCallInput(call.id, fragment.function.arguments)
+        }
+      }
+    }
+
+    const toolCalls: AgentToolCall[] = [...calls.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, call]) => ({ id: call.id, name: call.name, input: parseArguments(call.arguments) }))
+
+    const usage: TokenUsage = {
+      provider: this.provider,
+      model: this.model,
+      purpose: 'agent',
+      inputTokens: reported?.prompt_tokens ?? 0,
+      outputTokens: reported?.completion_tokens ?? 0,
+      images: countImages(request.messages)
+    }
+    usageLedger.record(usage)
+
+    return { text, toolCalls, usage }
+  }
+}
@@ -0,0 +1,73 @@
+import type Anthropic from '@anthropic-ai/sdk'
+import type { ToolImage } from '../tools/executor'
+import type { TokenUsage } from '../usage'
+
+export type AgentProviderType = 'anthropic' | 'openai' | 'gemini' | 'local'
+
+export interface AgentToolCall {
+  id: string
+  name: string
+  input: Record<string, unknown>
+}
+
+export interface AgentToolResult {
+  toolCallId: string
+  name: string
+  content: string
+  // Screenshots for the model to look at, sent alongside the text
+  images?: ToolImage[]
+}
+
+// Provider-neutral conversation. Assistant turns keep the provider's raw
+// response so it can be replayed exactly (Anthropic thinking blocks and
+// Gemini thought signatures must be sent back unchanged during tool use).
+export type AgentMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: AgentToolCall[]; raw?: unknown }
+  | { role: 'tool'; results: AgentToolResult[] }
+
+export interface AgentTurnRequest {
+  system: string
+  messages: AgentMessage[]
+  // Tool definitions in Anthropic format; providers translate them
+  tools: Anthropic.Tool[]
+  signal?: AbortSignal
+}
+
+export interface AgentStreamHandlers {
+  onThinking(text: string): void
+  onText(text: string): void
+  // A tool call has begun; its input follows as JSON fragments
+  onToolCallStart(id: string, name: string): void
+  onToolCallInput(id: string, json: string): void
+}
+
+// One model response: its text, any tools it wants called and the tokens it used
+export interface AgentTurn {
+  text: string
+  toolCalls: AgentToolCall[]
+  usage: TokenUsage
+  raw?: unknown
+}
+
+// A chat model with tool calling and streaming, driven by the agent loop
+export interface AgentProvider {
+  name: string
+  model: string
+  // Whether tool results may include images
+  supportsImages: boolean
+  // Whether the model runs on the user's machine or network
+  runsLocally: boolean
+
+  // Stream one turn, resolving once the model has finished responding
+  streamTurn(request: AgentTurnRequest, handlers: AgentStreamHandlers): Promise<AgentTurn>
+}
+
+// Images in the tool results of a conversation, all of which are sent with each turn
+export function countImages(messages: AgentMessage[]): number {
+  return messages.reduce(
+    (count, message) =>
+      count + (message.role === 'tool' ? message.results.reduce((n, result) => n + (result.images?.length ?? 0), 0) : 0),
+    0
+  )
+}
@@ -0,0 +1,332 @@
+import { app } from 'electron'
+import path from 'path'
+import Database from 'better-sqlite3'
+import Store from 'electron-store'
+import { encryption } from './encryption'
+
+// Chat storage types. A message is a list of parts so reopened chats keep the
+// assistant's thinking, tool calls and results, and cited frames.
+export type ChatMessagePart =
+  | { type: 'text'; text: string }
+  | { type: 'thinking'; text: string }
+  | { type: 'tool_call'; toolCallId: string; toolName: string; input: unknown }
+  | { type: 'tool_result'; toolCallId: string; output: unknown; isError?: boolean }
+  | { type: 'citation'; frameId: string }
+  | { type: 'image'; url: string; mediaType: string }
+  // Start of a model turn within a reply
+  | { type: 'step' }
+
+export interface ChatMessage {
+  id: string
+  role: 'user' | 'assistant'
+  parts: ChatMessagePart[]
+  createdAt: number
+}
+
+export interface Chat {
+  id: string
+  title: string
+  createdAt: number
+  updatedAt: number
+  messages: ChatMessage[]
+}
+
+export interface ChatMetadata {
+  id: string
+  title: string
+  createdAt: number
+  updatedAt: number
+}
+
+export interface ChatSearchResult extends ChatMetadata {
+  // Text around the first match in the best matching message
+  snippet: string
+}
+
+// Messages saved before parts, with the whole reply as text
+interface LegacyChatMessage {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  createdAt: number
+}
+
+const LEGACY_THINKING_PATTERN = /<thinking>([\s\S]*?)(?:<\/thinking>|$)/g
+const LEGACY_TOOL_PATTERN = /\[Using (\w+)\.{3}\]/g
+
+const settings = new Store()
+
+// Legacy replies had thinking in <thinking> tags and tool use as [Using tool...]
+// notes. Tool inputs and results weren't saved, so those calls are marked as such.
+function parseLegacyContent(message: LegacyChatMessage): ChatMessagePart[] {
+  if (message.role === 'user') return [{ type: 'text', text: message.content }]
+
+  const parts: ChatMessagePart[] = []
+  let lastIndex = 0
+  for (const match of message.content.matchAll(LEGACY_THINKING_PATTERN)) {
+    parts.push(...parseLegacyText(message.content.slice(lastIndex, match.index), message.id, parts.length))
+    parts.push({ type: 'thinking', text: match[1] })
+    lastIndex = (match.index ?? 0) + match[0].length
+  }
+  parts.push(...parseLegacyText(message.content.slice(lastIndex), message.id, parts.length))
+  return parts
+}
+
+function parseLegacyText(text: string, messageId: string, offset: number): ChatMessagePart[] {
+  const parts: ChatMessagePart[] = []
+  let lastIndex = 0
+  for (const match of text.matchAll(LEGACY_TOOL_PATTERN)) {
+    const before = text.slice(lastIndex, match.index)
+    if (before.trim()) parts.push({ type: 'text', text: before.trim() })
+    const toolCallId = `legacy-${messageId}-${offset + parts.length}`
+    parts.push({ type: 'tool_call', toolCallId, toolName: match[1], input: {} })
+    parts.push({ type: 'tool_result', toolCallId, output: 'Not saved with this chat', isError: true })
+    lastIndex = (match.index ?? 0) + match[0].length
+  }
+  const after = text.slice(lastIndex)
+  if (after.trim()) parts.push({ type: 'text', text: after.trim() })
+  return parts
+}
+
+function migrateChat(chat: Chat): void {
+  chat.messages = chat.messages.map((message) => {
+    if (Array.isArray(message.parts)) return message
+    const legacy = message as unknown as LegacyChatMessage
+    return { id: legacy.id, role: legacy.role, parts: parseLegacyContent(legacy), createdAt: legacy.createdAt }
+  })
+}
+
+// Search terms: whole words, plus prefixes so partly typed words match
+const MIN_PREFIX_LENGTH = 3
+const MAX_TERM_LENGTH = 24
+const SNIPPET_RADIUS = 60
+const MAX_SEARCH_MATCHES = 200
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS chats (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS chats_updated_at ON chats (updated_at);
+
+  CREATE TABLE IF NOT EXISTS messages (
+    key INTEGER PRIMARY KEY,
+    chat_id TEXT NOT NULL REFERENCES chats (id) ON DELETE CASCADE,
+    id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    role TEXT NOT NULL,
+    parts TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    UNIQUE (chat_id, position)
+  );
+
+  CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5 (terms, content = '', contentless_delete = 1);
+`
+
+interface ChatRow {
+  id: string
+  title: string
+  created_at: number
+  updated_at: number
+}
+
+interface MessageRow {
+  key: number
+  id: string
+  role: ChatMessage['role']
+  parts: string
+  created_at: number
+}
+
+function tokenize(text: string): string[] {
+  const words = text.toLowerCase().normalize('NFKD').replace(/\p{M}/gu, '').match(/[\p{L}\p{N}]+/gu) ?? []
+  return words.map((word) => word.slice(0, MAX_TERM_LENGTH))
+}
+
+function indexTerms(text: string): string[] {
+  const terms = new Set<string>()
+  for (const word of tokenize(text)) {
+    terms.add(word)
+    for (let length = MIN_PREFIX_LENGTH; length < word.length; length++) {
+      terms.add(word.slice(0, length))
+    }
+  }
+  return [...terms].map((term) => encryption.hashTerm(term))
+}
+
+function messageText(parts: ChatMessagePart[]): string {
+  return parts
+    .filter((part): part is Extract<ChatMessagePart, { type: 'text' }> => part.type === 'text')
+    .map((part) => part.text)
+    .join('\n')
+}
+
+function snippet(text: string, words: string[]): string {
+  const lower = text.toLowerCase()
+  const found = words.map((word) => lower.indexOf(word)).filter((i) => i >= 0)
+  const index = found.length > 0 ? Math.min(...found) : 0
+  const start = Math.max(0, index - SNIPPET_RADIUS)
+  const end = Math.min(text.length, index + SNIPPET_RADIUS)
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`
+}
+
+function toMetadata(row: ChatRow): ChatMetadata {
+  return {
+    id: row.id,
+    title: encryption.decryptString(row.title),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+/**
+ * Saved chats in a SQLite database in userData. Titles and messages are
+ * encrypted; the full-text index holds keyed hashes of their words (see
+ * Encryption.hashTerm) rather than the words themselves.
+ */
+export class ChatStore {
+  private db: Database.Database | null = null
+
+  list(): ChatMetadata[] {
+    const rows = this.open().prepare('SELECT * FROM chats ORDER BY updated_at DESC').all() as ChatRow[]
+    return rows.map(toMetadata)
+  }
+
+  get(id: string): Chat | null {
+    const db = this.open()
+    const row = db.prepare('SELECT * FROM chats WHERE id = ?').get(id) as ChatRow | undefined
+    if (!row) return null
+
+    const messages = db.prepare('SELECT * FROM messages WHERE chat_id = ? ORDER BY position').all(id) as MessageRow[]
+    return {
+      ...toMetadata(row),
+      messages: messages.map((message) => ({
+        id: message.id,
+        role: message.role,
+        parts: JSON.parse(encryption.decryptString(message.parts)),
+        createdAt: message.created_at
+      }))
+    }
+  }
+
+  save(chat: Chat): void {
+    const db = this.open()
+    db.transaction(() => this.writeChat(db, chat))()
+  }
+
+  delete(id: string): void {
+    const db = this.open()
+    db.transaction(() => {
+      db.prepare('DELETE FROM messages_fts WHERE rowid IN (SELECT key FROM messages WHERE chat_id = ?)').run(id)
+      db.prepare('DELETE FROM chats WHERE id = ?').run(id)
+    })()
+  }
+
+  // Chats with a message containing every word of the query, best match first
+  search(query: string, limit: number = 20): ChatSearchResult[] {
+    const words = [...new Set(tokenize(query))]
+    if (words.length === 0) return []
+
+    const match = words.map((word) => `"${encryption.hashTerm(word)}"`).join(' AND ')
+    const rows = this.open()
+      .prepare(
+        `SELECT chats.*, messages.parts AS message_parts
+         FROM messages_fts
+         JOIN messages ON messages.key = messages_fts.rowid
+         JOIN chats ON chats.id = messages.chat_id
+         WHERE messages_fts MATCH ?
+         ORDER BY bm25(messages_fts)
+         LIMIT ?`
+      )
+      .all(match, MAX_SEARCH_MATCHES) as Array<ChatRow & { message_parts: string }>
+
+    const results = new Map<string, ChatSearchResult>()
+    for (const row of rows) {
+      if (results.has(row.id)) continue
+      const parts: ChatMessagePart[] = JSON.parse(encryption.decryptString(row.message_parts))
+      results.set(row.id, { ...toMetadata(row), snippet: snippet(messageText(parts), words) })
+      if (results.size >= limit) break
+    }
+    return [...results.values()]
+  }
+
+  close(): void {
+    this.db?.close()
+    this.db = null
+  }
+
+  private open(): Database.Database {
+    if (this.db) return this.db
+
+    const db = new Database(path.join(app.getPath('userData'), 'chats.db'))
+    try {
+      db.pragma('journal_mode = WAL')
+      db.pragma('foreign_keys = ON')
+      db.exec(SCHEMA)
+      this.migrateFromSettings(db)
+    } catch (error) {
+      // Migration needs the encryption key; it's retried on the next call
+      db.close()
+      throw error
+    }
+    this.db = db
+    return db
+  }
+
+  // Messages are only appended in the usual case, so the rows are rewritten
+  // from the first message that changed. The last message is always rewritten.
+  private writeChat(db: Database.Database, chat: Chat): void {
+    db.prepare(
+      `INSERT INTO chats (id, title, created_at, updated_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET title = excluded.title, updated_at = excluded.updated_at`
+    ).run(chat.id, encryption.encryptString(chat.title), chat.createdAt, chat.updatedAt)
+
+    const stored = db.prepare('SELECT id FROM messages WHERE chat_id = ? ORDER BY position').pluck().all(chat.id) as string[]
+    let from = 0
+    while (from < stored.length && from < chat.messages.length - 1 && stored[from] === chat.messages[from].id) {
+      from++
+    }
+
+    db.prepare('DELETE FROM messages_fts WHERE rowid IN (SELECT key FROM messages WHERE chat_id = ? AND position >= ?)').run(chat.id, from)
+    db.prepare('DELETE FROM messages WHERE chat_id = ? AND position >= ?').run(chat.id, from)
+
+    const insertMessage = db.prepare(
+      'INSERT INTO messages (chat_id, id, position, role, parts, created_at) VALUES (?, ?, ?, ?, ?, ?)'
+    )
+    const insertTerms = db.prepare('INSERT INTO messages_fts (rowid, terms) VALUES (?, ?)')
+    chat.messages.slice(from).forEach((message, i) => {
+      const { lastInsertRowid } = insertMessage.run(
+        chat.id,
+        message.id,
+        from + i,
+        message.role,
+        encryption.encryptString(JSON.stringify(message.parts)),
+        message.createdAt
+      )
+      const terms = indexTerms(messageText(message.parts))
+      if (terms.length > 0) insertTerms.run(lastInsertRowid, terms.join(' '))
+    })
+  }
+
+  // One-time move of chats saved in the `chats` settings key (an encrypted
+  // JSON string, or a plain object from before encryption at rest)
+  private migrateFromSettings(db: Database.Database): void {
+    const stored = settings.get('chats') as Record<string, Chat> | string | undefined
+    if (!stored) return
+
+    const chats: Chat[] = Object.values(typeof stored === 'string' ? JSON.parse(encryption.decryptString(stored)) : stored)
+    db.transaction(() => {
+      for (const chat of chats) {
+        migrateChat(chat)
+        this.writeChat(db, chat)
+      }
+    })()
+    settings.delete('chats')
+    console.log(`[Chats] Moved ${chats.length} chats into the chat database`)
+  }
+}
+
+// Singleton instance
+export const chatStore = new ChatStore()
@@ -0,0 +1,232 @@
+import { llmService, LLMError } from './llm'
+import { vectorStore, isCompatible, LEGACY_EMBEDDING_MODEL, EmbeddingSpace, VectorStoreMigration } from './vector-store'
+import { buildSearchableText } from './frame-processor'
+
+// Attempts per frame before the migration gives up and retries on the next check
+const MAX_FRAME_ATTEMPTS = 3
+
+// Delay before checking again after a failed check or migration, doubling up to the maximum
+const RETRY_BASE_DELAY_MS = 15 * 1000
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000
+
+// While paused for the budget or a provider outage, how often to check whether
+// the embedding model changed meanwhile
+const PAUSE_CHECK_INTERVAL_MS = 60 * 1000
+
+export type MigrationState = 'idle' | 'running' | 'completed' | 'failed'
+
+export interface MigrationProgress {
+  state: MigrationState
+  fromModel: string | null
+  toModel: string | null
+  processed: number
+  total: number
+  error: string | null
+  // Waiting for the daily budget or the embedding provider until this time
+  pausedUntil: number | null
+}
+
+export type MigrationProgressListener = (progress: MigrationProgress) => void
+
+/**
+ * Keeps the frames collection in the embedding space of the configured
+ * embedding model. When the model or its dimension changes, stored frames are
+ * re-embedded from their payload into a new collection in the background;
+ * new frames go straight to the new collection while searches keep reading
+ * the old one until the migration completes (keyword-only when the model
+ * changed).
+ */
+export class EmbeddingMigration {
+  private progress: MigrationProgress = {
+    state: 'idle',
+    fromModel: null,
+    toModel: null,
+    processed: 0,
+    total: 0,
+    error: null,
+    pausedUntil: null
+  }
+  private running: Promise<void> | null = null
+  private listener: MigrationProgressListener | null = null
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
+  private retryDelayMs = RETRY_BASE_DELAY_MS
+
+  setProgressListener(listener: MigrationProgressListener | null): void {
+    this.listener = listener
+  }
+
+  getProgress(): MigrationProgress {
+    return { ...this.progress }
+  }
+
+  // Compare the collection with the current embedding model, creating the
+  // collection or starting (or resuming) a migration as needed. Run on startup
+  // and whenever settings are saved, and retried with backoff until it succeeds
+  // (offline at launch, Qdrant still starting).
+  async reconcile(): Promise<void> {
+    if (this.running) return
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = null
+    }
+
+    let desired: EmbeddingSpace | null
+    try {
+      desired = await llmService.detectEmbeddingModel()
+    } catch (error) {
+      console.error('[EmbeddingMigration] Failed to detect embedding dimension:', error)
+      this.scheduleRetry()
+      return
+    }
+    if (!desired) return
+
+    try {
+      const stored = await vectorStore.getEmbeddingSpace()
+      if (!stored) {
+        await vectorStore.ensureCollection(desired)
+        this.retryDelayMs = RETRY_BASE_DELAY_MS
+        if (!vectorStore.isMigrating()) return
+      } else if (!vectorStore.isMigrating()) {
+        const info = await vectorStore.getCollectionInfo()
+        const isEmpty = (info?.pointsCount ?? 0) === 0
+        if (isCompatible(stored, desired, isEmpty)) {
+          await vectorStore.ensureCollection(desired)
+          this.retryDelayMs = RETRY_BASE_DELAY_MS
+          if (vectorStore.supportsKeywordSearch()) return
+          // Collections from before keyword search, or whose keyword index
+          // isn't keyed, can't gain a new sparse vector, so their frames are
+          // copied into a new collection that has one (and encrypted payloads)
+          console.log('[EmbeddingMigration] Collection has no keyword index; reindexing')
+        } else {
+          console.log(
+            `[EmbeddingMigration] Collection holds ${stored.model ?? 'untagged'} (${stored.dimension}), ` +
+              `embedding model is ${desired.model} (${desired.dimension}); migrating`
+          )
+        }
+      }
+
+      const migration = await vectorStore.beginMigration(desired)
+      this.running = this.run(migration, desired).then((outcome) => {
+        this.running = null
+        // The embedding model may have changed while we were migrating
+        if (outcome !== 'failed') return this.reconcile()
+        this.scheduleRetry()
+      })
+    } catch (error) {
+      console.error('[EmbeddingMigration] Failed to check collection:', error)
+      this.scheduleRetry()
+    }
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) return
+    console.log(`[EmbeddingMigration] Checking again in ${Math.round(this.retryDelayMs / 1000)}s`)
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null
+      this.reconcile()
+    }, this.retryDelayMs)
+    this.retryDelayMs = Math.min(this.retryDelayMs * 2, RETRY_MAX_DELAY_MS)
+  }
+
+  private async run(
+    migration: VectorStoreMigration,
+    desired: EmbeddingSpace
+  ): Promise<'completed' | 'superseded' | 'failed'> {
+    const { target, sources } = migration
+    this.update({ state: 'running', fromModel: null, toModel: desired.model, processed: 0, total: 0, error: null, pausedUntil: null })
+
+    try {
+      let fromModel: string | null = null
+      let total = 0
+      for (const source of sources) {
+        const space = await source.getEmbeddingSpace()
+        fromModel = fromModel ?? space?.model ?? null
+        total += (await source.getCollectionInfo())?.pointsCount ?? 0
+      }
+      this.update({ fromModel: fromModel ?? LEGACY_EMBEDDING_MODEL, total })
+
+      for (const source of sources) {
+        // Vectors already in the desired space are copied rather than re-embedded
+        const space = await source.getEmbeddingSpace()
+        const withEmbeddings = space !== null && isCompatible(space, desired, false)
+        for await (const frame of source.iterateStoredFrames({ withEmbeddings })) {
+          if (llmService.getEmbeddingModel() !== desired.model) {
+            this.update({ state: 'idle' })
+            return 'superseded'
+          }
+          // Already copied by an earlier, interrupted run
+          if (!(await target.hasFrame(frame.id))) {
+            const embedding = frame.embedding ?? (await this.embedWithRetry(buildSearchableText(frame), desired))
+            if (!embedding) {
+              this.update({ state: 'idle', pausedUntil: null })
+              return 'superseded'
+            }
+            await target.upsertFrame({ ...frame, embedding, embeddingModel: desired.model! })
+          }
+          this.update({ processed: this.progress.processed + 1 })
+        }
+      }
+
+      await vectorStore.completeMigration()
+      this.update({ state: 'completed' })
+      console.log(`[EmbeddingMigration] Re-embedded ${this.progress.processed} frame(s) with ${desired.model}`)
+      return 'completed'
+    } catch (error) {
+      // Keep the partial target; the next reconcile resumes where this stopped
+      this.update({ state: 'failed', pausedUntil: null, error: error instanceof Error ? error.message : 'Unknown error' })
+      console.error('[EmbeddingMigration] Migration failed:', error)
+      return 'failed'
+    }
+  }
+
+  // Null when the embedding model changed while waiting out a pause
+  private async embedWithRetry(text: string, desired: EmbeddingSpace): Promise<number[] | null> {
+    for (let attempt = 1; ; ) {
+      if (!(await this.waitWhilePaused(desired))) return null
+      try {
+        return await llmService.generateEmbedding(text)
+      } catch (error) {
+        // The circuit opened since we checked; wait for it rather than spend an attempt
+        if (
+          error instanceof LLMError &&
+          error.code === 'CIRCUIT_OPEN' &&
+          llmService.getAnalysisPausedUntil(['embedding']) !== null
+        ) {
+          continue
+        }
+        if (attempt >= MAX_FRAME_ATTEMPTS) throw error
+        await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** attempt))
+        attempt++
+      }
+    }
+  }
+
+  // Wait, as frame analysis does, while the daily budget is spent or the
+  // embedding provider is rate limiting us or down. False when the embedding
+  // model changed meanwhile.
+  private async waitWhilePaused(desired: EmbeddingSpace): Promise<boolean> {
+    for (
+      let pausedUntil = llmService.getAnalysisPausedUntil(['embedding']);
+      pausedUntil !== null;
+      pausedUntil = llmService.getAnalysisPausedUntil(['embedding'])
+    ) {
+      if (llmService.getEmbeddingModel() !== desired.model) return false
+      if (this.progress.pausedUntil === null) {
+        console.log(`[EmbeddingMigration] Paused until ${new Date(pausedUntil).toLocaleTimeString()}`)
+      }
+      this.update({ pausedUntil })
+      const delay = Math.min(Math.max(pausedUntil - Date.now(), 0), PAUSE_CHECK_INTERVAL_MS)
+      await new Promise((resolve) => setTimeout(resolve, delay))
+    }
+    if (this.progress.pausedUntil !== null) this.update({ pausedUntil: null })
+    return true
+  }
+
+  private update(changes: Partial<MigrationProgress>): void {
+    this.progress = { ...this.progress, ...changes }
+    this.listener?.(this.getProgress())
+  }
+}
+
+// Singleton instance
+export const embeddingMigration = new EmbeddingMigration()
@@ -0,0 +1,86 @@
+import type Store from 'electron-store'
+import path from 'path'
+import fs from 'fs/promises'
+import { encryption, isEncrypted, isEncryptedString, SECRET_SETTINGS } from './encryption'
+
+// Set once everything written before encryption at rest has been encrypted
+const MIGRATED_KEY = 'encryptionMigrated'
+
+// Encrypt API keys and chats stored in plaintext
+function encryptExistingSettings(store: Store): void {
+  for (const key of SECRET_SETTINGS) {
+    const value = store.get(key)
+    if (typeof value === 'string' && value && !isEncryptedString(value)) {
+      store.set(key, encryption.encryptString(value))
+    }
+  }
+
+  const chats = store.get('chats')
+  if (chats && typeof chats === 'object') {
+    store.set('chats', encryption.encryptString(JSON.stringify(chats)))
+    console.log('[EncryptionMigration] Encrypted saved chats')
+  }
+}
+
+// Encrypt unencrypted files with the given extension in place, via a temp
+// file and rename. Returns the number of files that could not be encrypted.
+async function encryptExistingFiles(dir: string, extension: string): Promise<number> {
+  let files: string[]
+  try {
+    files = await fs.readdir(dir)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0
+    throw error
+  }
+
+  let encrypted = 0
+  let failed = 0
+  for (const file of files) {
+    if (!file.endsWith(extension)) continue
+    const filePath = path.join(dir, file)
+    try {
+      const data = await fs.readFile(filePath)
+      if (isEncrypted(data)) continue
+
+      const tmpPath = `${filePath}.tmp`
+      await encryption.writeFile(tmpPath, data)
+      await fs.rename(tmpPath, filePath)
+      encrypted++
+    } catch (error) {
+      // Deleted by the retention janitor in the meantime, or unreadable
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue
+      console.warn(`[EncryptionMigration] Failed to encrypt ${filePath}:`, error)
+      failed++
+    }
+  }
+
+  if (encrypted > 0) {
+    console.log(`[EncryptionMigration] Encrypted ${encrypted} file(s) in ${dir}`)
+  }
+  return failed
+}
+
+// Encrypt data written before encryption at rest. The processing queue is
+// done before this resolves, so the frame processor never rewrites an entry
+// underneath it; frame images are encrypted in the background.
+export async function migrateToEncryption(store: Store, framesDir: string): Promise<void> {
+  if (store.get(MIGRATED_KEY)) return
+
+  encryptExistingSettings(store)
+
+  const queueDir = path.join(framesDir, 'queue')
+  let failed = await encryptExistingFiles(queueDir, '.json')
+  failed += await encryptExistingFiles(path.join(queueDir, 'dead-letter'), '.json')
+
+  encryptExistingFiles(framesDir, '.jpg')
+    .then((failedImages) => {
+      // Unencrypted files are still readable; retry the rest on next launch
+      if (failed + failedImages === 0) {
+        store.set(MIGRATED_KEY, true)
+        console.log('[EncryptionMigration] Existing data encrypted')
+      }
+    })
+    .catch((error) => {
+      console.error('[EncryptionMigration] Failed to encrypt frame images:', error)
+    })
+}
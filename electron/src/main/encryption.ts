@@ -0,0 +1,280 @@
+import { app, safeStorage } from 'electron'
+import crypto from 'crypto'
+import path from 'path'
+import fs from 'fs/promises'
+import { promisify } from 'util'
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>
+
+// Encrypted blobs: magic, IV, GCM auth tag, ciphertext
+const MAGIC = Buffer.from('LBE1')
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+const KEY_LENGTH = 32
+
+// Encrypted strings (electron-store values) carry this prefix before the base64 blob
+const STRING_PREFIX = 'enc:v1:'
+
+// scrypt cost for the passphrase fallback (~32 MB, well under a second)
+const SCRYPT_OPTIONS: crypto.ScryptOptions = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 }
+
+// The data key is stored wrapped: by the OS keychain via safeStorage, or by a
+// key derived from the user's passphrase where no keychain is available
+type KeyFile =
+  | { method: 'safeStorage'; wrappedKey: string }
+  | { method: 'passphrase'; salt: string; wrappedKey: string }
+
+export type EncryptionMethod = KeyFile['method']
+
+// Settings stored encrypted in electron-store
+export const SECRET_SETTINGS = ['geminiAPIKey', 'claudeAPIKey', 'openaiAPIKey', 'localAPIKey']
+
+// ready: data can be read and written
+// locked: a passphrase-protected key exists and must be unlocked
+// setup-required: no keychain is available and no passphrase has been set
+// unavailable: a data key exists but couldn't be loaded (keychain reset or
+//   unavailable, profile moved); it is never replaced, as that would make
+//   everything encrypted with it unreadable
+export type EncryptionState = 'ready' | 'locked' | 'setup-required' | 'unavailable'
+
+export interface EncryptionStatus {
+  state: EncryptionState
+  method: EncryptionMethod | null
+  // Why the key couldn't be loaded, when unavailable
+  error: string | null
+}
+
+function seal(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = crypto.randomBytes(IV_LENGTH)
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+  return Buffer.concat([MAGIC, iv, cipher.getAuthTag(), ciphertext])
+}
+
+function open(key: Buffer, blob: Buffer): Buffer {
+  const ivStart = MAGIC.length
+  const tagStart = ivStart + IV_LENGTH
+  const dataStart = tagStart + TAG_LENGTH
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, blob.subarray(ivStart, tagStart))
+  decipher.setAuthTag(blob.subarray(tagStart, dataStart))
+  return Buffer.concat([decipher.update(blob.subarray(dataStart)), decipher.final()])
+}
+
+// On Linux safeStorage may fall back to a hardcoded key, which protects nothing
+function isKeychainAvailable(): boolean {
+  if (!safeStorage.isEncryptionAvailable()) return false
+  return process.platform !== 'linux' || safeStorage.getSelectedStorageBackend() !== 'basic_text'
+}
+
+export function isEncrypted(data: Buffer): boolean {
+  return data.length >= MAGIC.length + IV_LENGTH + TAG_LENGTH && data.subarray(0, MAGIC.length).equals(MAGIC)
+}
+
+export function isEncryptedString(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(STRING_PREFIX)
+}
+
+/**
+ * AES-256-GCM encryption for data at rest (frame images and text, the
+ * processing queue, chats, meetings and API keys). Reads accept unencrypted data so files written
+ * before encryption keep working until they are migrated.
+ */
+export class Encryption {
+  private key: Buffer | null = null
+  // Derived from the data key, for hashing search terms
+  private termKey: Buffer | null = null
+  private method: EncryptionMethod | null = null
+  private loadError: string | null = null
+  private keyPath: string | null = null
+  private readyWaiters: Array<() => void> = []
+
+  // Load the data key, creating one on first run when a keychain is available.
+  // Can be called again to retry after the key was unavailable.
+  async initialize(): Promise<EncryptionStatus> {
+    if (this.key) return this.getStatus()
+
+    this.keyPath = path.join(app.getPath('userData'), 'encryption-key.json')
+    this.method = null
+    this.loadError = null
+
+    let keyFile: KeyFile | null = null
+    try {
+      keyFile = JSON.parse(await fs.readFile(this.keyPath, 'utf-8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        return this.fail(`Couldn't read the encryption key file: ${error instanceof Error ? error.message : error}`)
+      }
+    }
+
+    if (keyFile?.method === 'safeStorage') {
+      this.method = 'safeStorage'
+      try {
+        this.setKey(Buffer.from(safeStorage.decryptString(Buffer.from(keyFile.wrappedKey, 'base64')), 'base64'))
+      } catch (error) {
+        return this.fail(
+          `The system keychain couldn't decrypt the data key: ${error instanceof Error ? error.message : error}`
+        )
+      }
+    } else if (keyFile?.method === 'passphrase') {
+      this.method = 'passphrase'
+    } else if (keyFile) {
+      return this.fail('The encryption key file is not in a recognized format')
+    } else if (isKeychainAvailable()) {
+      const key = crypto.randomBytes(KEY_LENGTH)
+      await this.writeKeyFile({
+        method: 'safeStorage',
+        wrappedKey: safeStorage.encryptString(key.toString('base64')).toString('base64')
+      })
+      this.method = 'safeStorage'
+      this.setKey(key)
+      console.log('[Encryption] Created data key protected by the system keychain')
+    }
+
+    return this.getStatus()
+  }
+
+  getStatus(): EncryptionStatus {
+    if (this.key) return { state: 'ready', method: this.method, error: null }
+    if (this.loadError) return { state: 'unavailable', method: this.method, error: this.loadError }
+    return { state: this.method === 'passphrase' ? 'locked' : 'setup-required', method: this.method, error: null }
+  }
+
+  isReady(): boolean {
+    return this.key !== null
+  }
+
+  // Resolves once the key is available
+  whenReady(): Promise<void> {
+    if (this.key) return Promise.resolve()
+    return new Promise((resolve) => this.readyWaiters.push(resolve))
+  }
+
+  // Choose the passphrase protecting a new data key (no keychain available)
+  async setPassphrase(passphrase: string): Promise<void> {
+    if (this.getStatus().state !== 'setup-required') {
+      throw new Error('Encryption is already set up')
+    }
+    if (!passphrase) {
+      throw new Error('Passphrase is required')
+    }
+    if (!this.keyPath) {
+      throw new Error('Encryption not initialized')
+    }
+
+    const key = crypto.randomBytes(KEY_LENGTH)
+    const salt = crypto.randomBytes(16)
+    const wrappingKey = await scrypt(passphrase, salt, KEY_LENGTH, SCRYPT_OPTIONS)
+    await this.writeKeyFile({
+      method: 'passphrase',
+      salt: salt.toString('base64'),
+      wrappedKey: seal(wrappingKey, key).toString('base64')
+    })
+    this.method = 'passphrase'
+    this.setKey(key)
+    console.log('[Encryption] Created data key protected by passphrase')
+  }
+
+  // Unlock a passphrase-protected key. Returns false if the passphrase is wrong.
+  async unlock(passphrase: string): Promise<boolean> {
+    if (this.key) return true
+    if (!this.keyPath) {
+      throw new Error('Encryption not initialized')
+    }
+
+    const keyFile = JSON.parse(await fs.readFile(this.keyPath, 'utf-8')) as KeyFile
+    if (keyFile.method !== 'passphrase') {
+      throw new Error('Data key is not passphrase-protected')
+    }
+
+    const wrappingKey = await scrypt(passphrase, Buffer.from(keyFile.salt, 'base64'), KEY_LENGTH, SCRYPT_OPTIONS)
+    try {
+      this.setKey(open(wrappingKey, Buffer.from(keyFile.wrappedKey, 'base64')))
+    } catch {
+      // GCM authentication fails with the wrong wrapping key
+      return false
+    }
+    console.log('[Encryption] Unlocked')
+    return true
+  }
+
+  encrypt(data: Buffer): Buffer {
+    return seal(this.requireKey(), data)
+  }
+
+  // Decrypt an encrypted blob; unencrypted data is returned unchanged
+  decrypt(data: Buffer): Buffer {
+    if (!isEncrypted(data)) return data
+    return open(this.requireKey(), data)
+  }
+
+  encryptString(value: string): string {
+    return STRING_PREFIX + this.encrypt(Buffer.from(value, 'utf-8')).toString('base64')
+  }
+
+  decryptString(value: string): string {
+    if (!isEncryptedString(value)) return value
+    return this.decrypt(Buffer.from(value.slice(STRING_PREFIX.length), 'base64')).toString('utf-8')
+  }
+
+  // Keyed hash of a search term, so encrypted text can be indexed for search
+  // without storing its words
+  hashTerm(term: string): string {
+    if (!this.termKey) {
+      this.termKey = Buffer.from(crypto.hkdfSync('sha256', this.requireKey(), Buffer.alloc(0), 'search-terms', KEY_LENGTH))
+    }
+    return crypto.createHmac('sha256', this.termKey).update(term).digest('hex').slice(0, 32)
+  }
+
+  async writeFile(filePath: string, data: Buffer | string): Promise<void> {
+    await fs.writeFile(filePath, this.encrypt(typeof data === 'string' ? Buffer.from(data, 'utf-8') : data))
+  }
+
+  async readFile(filePath: string): Promise<Buffer> {
+    return this.decrypt(await fs.readFile(filePath))
+  }
+
+  private requireKey(): Buffer {
+    if (!this.key) {
+      throw new Error('Encrypted data is locked')
+    }
+    return this.key
+  }
+
+  private setKey(key: Buffer): void {
+    this.key = key
+    const waiters = this.readyWaiters
+    this.readyWaiters = []
+    waiters.forEach((resolve) => resolve())
+  }
+
+  private fail(error: string): EncryptionStatus {
+    this.loadError = error
+    console.error(`[Encryption] ${error}`)
+    return this.getStatus()
+  }
+
+  // Writes a new key file. Linking fails if one already exists, so an existing
+  // data key is never replaced.
+  private async writeKeyFile(keyFile: KeyFile): Promise<void> {
+    const tmpPath = `${this.keyPath}.tmp`
+    await fs.writeFile(tmpPath, JSON.stringify(keyFile), { mode: 0o600 })
+    try {
+      await fs.link(tmpPath, this.keyPath!)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        throw new Error('A data key already exists and will not be replaced')
+      }
+      throw error
+    } finally {
+      await fs.rm(tmpPath, { force: true })
+    }
+  }
+}
+
+// Singleton instance
+export const encryption = new Encryption()
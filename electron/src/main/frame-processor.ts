@@ -1,10 +1,47 @@
-import { app } from 'electron'
+import { app, nativeImage } from 'electron'
 import path from 'path'
 import fs from 'fs/promises'
 import os from 'os'
-import { llmService, FrameAnalysis } from './llm'
-import { qdrantClient, ProcessedFrame } from './qdrant'
+import { llmService, FrameAnalysis, LLMError } from './llm'
+import { vectorStore, ProcessedFrame } from './vector-store'
 import { CapturedFrameData, AccessibilityElement } from './native-bridge'
+import { FrameQueue, QueuedFrame, FrameQueueStats } from './frame-queue'
+import { computeDHash, hammingDistance } from './perceptual-hash'
+import { ocrService } from './ocr'
+import { privacyRules, PrivacyAction } from './privacy-rules'
+import { redactor, RedactionCounts } from './redaction'
+import { findSensitiveRegions, maskRegions } from './image-redaction'
+import { encryption } from './encryption'
+
+// Frames whose dHash differs by at most this many bits (of 64) are treated as the same screen
+const DUPLICATE_HASH_THRESHOLD = 5
+
+// Once OCR has read the text, the vision model only needs the layout, so
+// images sent to it are scaled down to this width
+const VISION_MAX_WIDTH_WITH_OCR = 1280
+
+// Cap on OCR text passed to the vision model as context
+const MAX_OCR_PROMPT_CHARS = 4000
+
+// Optional OCR ahead of vision analysis is skipped while more frames than this are queued
+const OCR_MAX_QUEUE_DEPTH = 5
+
+// Blurred images are scaled down by this factor before being scaled back up
+const BLUR_FACTOR = 24
+
+export interface FrameProcessorOptions {
+  // Run local OCR on frames that don't get vision analysis
+  localOcr: boolean
+  // Also run it before vision analysis, to mask sensitive text and send a smaller image
+  ocrBeforeVision: boolean
+}
+
+// Last stored frame for a given app/window, used to detect unchanged screens
+interface StoredScreen {
+  frameId: string
+  hash: string
+  duplicateCount: number
+}
 
 // Get the frames directory based on platform
 function getFramesDirectory(): string {
@@ -16,37 +53,69 @@ function getFramesDirectory(): string {
   }
 }
 
-// Build searchable text from analysis and accessibility data
-function buildSearchableText(
-  analysis: FrameAnalysis,
-  accessibilityData: CapturedFrameData['accessibilityData']
-): string {
+// Fields of a frame that make up the text we embed
+export interface SearchableFields {
+  summary: string
+  activeApplication: string | null
+  userActivity: string | null
+  visibleText: string[]
+  focusedApp: string | null
+  focusedWindow: string | null
+  privacyAction?: PrivacyAction | null
+}
+
+// Build searchable text from analysis and accessibility data. Also used to
+// re-embed stored frames, so it must only depend on fields kept in the payload.
+export function buildSearchableText(fields: SearchableFields): string {
   const parts: string[] = []
 
-  parts.push(analysis.summary)
+  parts.push(fields.summary)
 
-  if (analysis.activeApplication) {
-    parts.push(`Application: ${analysis.activeApplication}`)
+  if (fields.activeApplication) {
+    parts.push(`Application: ${fields.activeApplication}`)
   }
 
-  if (analysis.userActivity) {
-    parts.push(`Activity: ${analysis.userActivity}`)
+  if (fields.userActivity) {
+    parts.push(`Activity: ${fields.userActivity}`)
   }
 
-  parts.push(...analysis.visibleText)
+  parts.push(...fields.visibleText)
 
-  if (accessibilityData) {
-    if (accessibilityData.focusedApp) {
-      parts.push(`Focused app: ${accessibilityData.focusedApp}`)
-    }
-    if (accessibilityData.focusedWindow) {
-      parts.push(`Window: ${accessibilityData.focusedWindow}`)
-    }
+  if (fields.focusedApp) {
+    parts.push(`Focused app: ${fields.focusedApp}`)
+  }
+  // The window title of a local-only frame (the account or conversation open)
+  // is only embedded by a local model; a cloud embedder gets the app name
+  if (fields.focusedWindow && (fields.privacyAction !== 'local-only' || llmService.embedsLocally())) {
+    parts.push(`Window: ${fields.focusedWindow}`)
   }
 
   return parts.join(' | ')
 }
 
+// Identify the app/window a frame belongs to for duplicate detection
+function getScreenKey(frameData: CapturedFrameData): string {
+  return `${frameData.appBundleId || frameData.appName || 'unknown'}|${frameData.windowTitle || ''}`
+}
+
+// Re-encode an image at a smaller width, leaving smaller images untouched
+export function downscaleImage(imageBuffer: Buffer, maxWidth: number): Buffer {
+  const image = nativeImage.createFromBuffer(imageBuffer)
+  if (image.isEmpty() || image.getSize().width <= maxWidth) return imageBuffer
+  return image.resize({ width: maxWidth, quality: 'good' }).toJPEG(80)
+}
+
+// Pixelate an image beyond recognition by scaling it down and back up
+function blurImage(imageBuffer: Buffer): Buffer {
+  const image = nativeImage.createFromBuffer(imageBuffer)
+  if (image.isEmpty()) return imageBuffer
+  const { width, height } = image.getSize()
+  return image
+    .resize({ width: Math.max(1, Math.round(width / BLUR_FACTOR)), quality: 'good' })
+    .resize({ width, height, quality: 'good' })
+    .toJPEG(80)
+}
+
 // Extract text from accessibility elements recursively
 function extractAccessibilityText(elements: AccessibilityElement[]): string[] {
   const texts: string[] = []
@@ -63,69 +132,243 @@ function extractAccessibilityText(elements: AccessibilityElement[]): string[] {
   return texts.filter((t) => t.length > 0)
 }
 
+// Redact the text the native service captured (window titles and the accessibility tree)
+function redactCapturedText(frame: CapturedFrameData, counts: RedactionCounts): CapturedFrameData {
+  const redactElement = (el: AccessibilityElement): AccessibilityElement => ({
+    ...el,
+    title: redactor.redactOptional(el.title, counts),
+    value: redactor.redactOptional(el.value, counts),
+    children: el.children ? el.children.map(redactElement) : null
+  })
+
+  return {
+    ...frame,
+    windowTitle: redactor.redactOptional(frame.windowTitle, counts),
+    accessibilityData: frame.accessibilityData
+      ? {
+          ...frame.accessibilityData,
+          focusedWindow: redactor.redactOptional(frame.accessibilityData.focusedWindow, counts),
+          elements: frame.accessibilityData.elements.map(redactElement)
+        }
+      : null
+  }
+}
+
+// Redact the text fields of an analysis returned by the vision model
+function redactAnalysis(analysis: FrameAnalysis, counts: RedactionCounts): FrameAnalysis {
+  return {
+    ...analysis,
+    summary: redactor.redactOptional(analysis.summary, counts) ?? '',
+    userActivity: redactor.redactOptional(analysis.userActivity, counts),
+    visibleText: redactor.redactAll(analysis.visibleText, counts),
+    uiElements: redactor.redactAll(analysis.uiElements, counts),
+    metadata: Object.fromEntries(
+      Object.entries(analysis.metadata).map(([key, value]) => [
+        key,
+        typeof value === 'string' ? redactor.redactOptional(value, counts) ?? '' : value
+      ])
+    )
+  }
+}
+
 export class FrameProcessor {
   private framesDir: string
   private lastProcessedTimestamp = 0
-  private isProcessing = false
-  private processingQueue: CapturedFrameData[] = []
+  private lastEnqueuedTimestamp = 0
+  private queue: FrameQueue
+  private isDraining = false
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
+  private lastStoredScreens: Map<string, StoredScreen> = new Map()
+  private lastCapturedScreenKey: string | null = null
+  private options: FrameProcessorOptions = { localOcr: true, ocrBeforeVision: false }
+  private warnedLocked = false
 
   constructor() {
     this.framesDir = getFramesDirectory()
+    this.queue = new FrameQueue(this.framesDir)
   }
 
   async initialize(): Promise<void> {
     // Ensure frames directory exists
     await fs.mkdir(this.framesDir, { recursive: true })
 
-    // Ensure Qdrant collection exists
-    try {
-      await qdrantClient.ensureCollection(768)
-    } catch (error) {
-      console.error('[FrameProcessor] Failed to ensure collection:', error)
+    // The collection itself is created by the embedding migration check once
+    // the embedding provider (and so the vector dimension) is known; frames
+    // that can't be stored before then are retried by the queue
+
+    // Resume any frames left in the journal by a previous run
+    const resumed = await this.queue.load()
+    if (resumed > 0) {
+      console.log(`[FrameProcessor] Resuming ${resumed} queued frame(s)`)
     }
+    this.drainQueue()
 
     console.log(`[FrameProcessor] Initialized. Frames dir: ${this.framesDir}`)
   }
 
+  configure(options: Partial<FrameProcessorOptions>): void {
+    this.options = { ...this.options, ...options }
+    if (!this.options.localOcr) {
+      ocrService.terminate()
+    }
+  }
+
+  // Persist the frame to the processing queue; resolves once it is durable
   async processFrame(frameData: CapturedFrameData): Promise<void> {
-    // Skip if already processed
-    if (frameData.timestamp <= this.lastProcessedTimestamp) {
+    // Skip if already queued or processed
+    if (frameData.timestamp <= this.lastEnqueuedTimestamp || this.queue.has(frameData.id)) {
       return
     }
+    this.lastEnqueuedTimestamp = frameData.timestamp
+
+    // Any other frame in between, even a dropped one, ends an unchanged span
+    const screenKey = getScreenKey(frameData)
+    const followsSameScreen = this.lastCapturedScreenKey === screenKey
+    this.lastCapturedScreenKey = screenKey
+
+    // Frames can't be written until the encryption key is unlocked
+    if (!encryption.isReady()) {
+      if (!this.warnedLocked) {
+        console.warn('[FrameProcessor] Encryption is locked, discarding frames until it is unlocked')
+        this.warnedLocked = true
+      }
+      return
+    }
+    this.warnedLocked = false
 
-    // Add to queue if already processing
-    if (this.isProcessing) {
-      this.processingQueue.push(frameData)
+    // Privacy rules apply before the frame is written anywhere
+    const { action: privacyAction, blur } = privacyRules.evaluate(frameData)
+    if (privacyAction === 'drop') {
+      console.log(`[FrameProcessor] Frame ${frameData.id} from ${frameData.appName} dropped by privacy rule`)
       return
     }
+    if (blur) {
+      frameData = {
+        ...frameData,
+        imageBase64: blurImage(Buffer.from(frameData.imageBase64, 'base64')).toString('base64'),
+        accessibilityData: frameData.accessibilityData ? { ...frameData.accessibilityData, elements: [] } : null
+      }
+    }
+
+    // Sensitive text is redacted before the frame reaches the queue on disk
+    const redactions: RedactionCounts = {}
+    frameData = redactCapturedText(frameData, redactions)
+
+    await this.queue.enqueue(frameData, privacyAction, redactions, followsSameScreen)
+    this.drainQueue()
+  }
+
+  // Work through ready queue entries one at a time, then sleep until the next retry is due
+  private async drainQueue(): Promise<void> {
+    if (this.isDraining) return
+    this.isDraining = true
 
-    this.isProcessing = true
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = null
+    }
 
+    let pausedUntil: number | null = null
     try {
-      await this.doProcessFrame(frameData)
-      this.lastProcessedTimestamp = frameData.timestamp
-
-      // Process any queued frames
-      while (this.processingQueue.length > 0) {
-        const nextFrame = this.processingQueue.shift()!
-        if (nextFrame.timestamp > this.lastProcessedTimestamp) {
-          await this.doProcessFrame(nextFrame)
-          this.lastProcessedTimestamp = nextFrame.timestamp
+      let entry = await this.queue.next()
+      while (entry) {
+        // Wait out provider outages and rate limits without using up attempts
+        pausedUntil = llmService.getAnalysisPausedUntil()
+        if (pausedUntil !== null) {
+          console.log(`[FrameProcessor] Analysis paused until ${new Date(pausedUntil).toLocaleTimeString()}`)
+          break
         }
+
+        try {
+          await this.doProcessFrame(entry)
+          this.lastProcessedTimestamp = Math.max(this.lastProcessedTimestamp, entry.frame.timestamp)
+        } catch (error) {
+          if (error instanceof LLMError && error.code === 'CIRCUIT_OPEN') {
+            entry = await this.queue.next()
+            continue
+          }
+          const outcome = await this.queue.recordFailure(entry, error)
+          if (outcome === 'dead-letter') {
+            console.error(
+              `[FrameProcessor] Frame ${entry.id} failed after ${entry.attempts} attempts, moved to dead-letter list:`,
+              error
+            )
+          } else {
+            console.warn(
+              `[FrameProcessor] Frame ${entry.id} failed (attempt ${entry.attempts}), ` +
+                `retrying at ${new Date(entry.nextAttemptAt).toLocaleTimeString()}:`,
+              error
+            )
+          }
+        }
+        entry = await this.queue.next()
       }
+    } catch (error) {
+      console.error('[FrameProcessor] Processing queue error:', error)
     } finally {
-      this.isProcessing = false
+      this.isDraining = false
+    }
+
+    const queuedAttemptAt = this.queue.nextAttemptAt()
+    const nextAttemptAt =
+      queuedAttemptAt !== null && pausedUntil !== null ? Math.max(queuedAttemptAt, pausedUntil) : queuedAttemptAt
+    if (nextAttemptAt !== null && !this.retryTimer) {
+      this.retryTimer = setTimeout(() => {
+        this.retryTimer = null
+        this.drainQueue()
+      }, Math.max(nextAttemptAt - Date.now(), 0))
     }
   }
 
-  private async doProcessFrame(frameData: CapturedFrameData): Promise<void> {
-    console.log(`[FrameProcessor] Processing frame ${frameData.id} from ${frameData.appName}`)
+  // Run the remaining processing steps for a queued frame, checkpointing after
+  // each one. Throws on failure so the queue can schedule a retry.
+  private async doProcessFrame(entry: QueuedFrame): Promise<void> {
+    const frameData = entry.frame
+    console.log(`[FrameProcessor] Processing frame ${frameData.id} from ${frameData.appName} (${entry.state})`)
+
+    // 1. Decode base64 image
+    let imageBuffer: Buffer = Buffer.from(frameData.imageBase64, 'base64')
+
+    if (entry.state === 'pending') {
+      // Unchanged screen: extend the previous point rather than re-analyzing
+      entry.perceptualHash = entry.perceptualHash ?? computeDHash(imageBuffer)
+      if (await this.extendIfUnchanged(entry)) {
+        entry.state = 'stored'
+        await this.queue.checkpoint(entry)
+        return
+      }
 
-    try {
-      // 1. Decode base64 image
-      const imageBuffer = Buffer.from(frameData.imageBase64, 'base64')
+      // 2. Read on-screen text locally (nothing legible is left in a blurred frame)
+      if (this.shouldRunOcr(entry)) {
+        try {
+          const result = await ocrService.recognize(imageBuffer)
+          const redactions = entry.redactions ?? (entry.redactions = {})
+          entry.ocrLines = result.lines.map((line) => ({ ...line, text: redactor.redactOptional(line.text, redactions) }))
+          console.log(`[FrameProcessor] OCR found ${result.lines.length} line(s) in ${result.durationMs}ms`)
+        } catch (error) {
+          console.warn('[FrameProcessor] OCR failed:', error)
+          entry.ocrLines = null
+        }
+      }
+      const ocrTexts = (entry.ocrLines ?? []).map((line) => line.text)
+
+      // 3. Black out what the text redaction removed, before the image is sent or saved
+      if (!entry.imageRedacted) {
+        const image = nativeImage.createFromBuffer(imageBuffer)
+        const regions = image.isEmpty() ? [] : findSensitiveRegions(frameData, entry.ocrLines ?? [], image.getSize())
+        if (regions.length > 0) {
+          imageBuffer = maskRegions(imageBuffer, regions)
+          entry.frame = { ...frameData, imageBase64: imageBuffer.toString('base64') }
+          const redactions = entry.redactions ?? (entry.redactions = {})
+          redactions.image = (redactions.image || 0) + regions.length
+          console.log(`[FrameProcessor] Masked ${regions.length} sensitive region(s) in frame ${frameData.id}`)
+        }
+        // Checkpoint so the unmasked image doesn't stay in the journal
+        entry.imageRedacted = true
+        await this.queue.checkpoint(entry)
+      }
 
-      // 2. Build context prompt from accessibility data
+      // 4. Build context prompt from accessibility data and OCR text
       let contextPrompt = ''
       if (frameData.appName) {
         contextPrompt += `The active application is ${frameData.appName}.`
@@ -133,13 +376,31 @@ export class FrameProcessor {
       if (frameData.windowTitle) {
         contextPrompt += ` The window title is '${frameData.windowTitle}'.`
       }
+      if (ocrTexts.length > 0) {
+        contextPrompt +=
+          `\n\nText recognized on screen by OCR (may contain recognition errors):\n` +
+          ocrTexts.join('\n').slice(0, MAX_OCR_PROMPT_CHARS)
+      }
 
-      // 3. Analyze image with LLM
+      // 5. Analyze image with LLM
       let analysis: FrameAnalysis
-      if (llmService.hasVisionProvider()) {
-        analysis = await llmService.analyzeImage(imageBuffer, contextPrompt)
+      if (entry.privacyAction === 'local-only') {
+        // Nothing from the screen leaves the machine. OCR text stays in
+        // ocrLines (searchable locally) rather than visibleText, which is embedded.
+        analysis = {
+          summary: `Screen capture from ${frameData.appName || 'unknown app'}`,
+          activeApplication: frameData.appName,
+          userActivity: null,
+          visibleText: [],
+          uiElements: [],
+          metadata: {}
+        }
+      } else if (llmService.hasVisionProvider()) {
+        // The OCR text carries the fine print, so a smaller image is enough
+        const visionImage = ocrTexts.length > 0 ? downscaleImage(imageBuffer, VISION_MAX_WIDTH_WITH_OCR) : imageBuffer
+        analysis = await llmService.analyzeImage(visionImage, contextPrompt)
       } else {
-        // Fallback: use accessibility data only
+        // Fallback: use accessibility data and OCR text
         const accessibilityTexts = frameData.accessibilityData
           ? extractAccessibilityText(frameData.accessibilityData.elements)
           : []
@@ -148,34 +409,64 @@ export class FrameProcessor {
           summary: `Screen capture from ${frameData.appName || 'unknown app'}`,
           activeApplication: frameData.appName,
           userActivity: null,
-          visibleText: accessibilityTexts.slice(0, 50),
+          visibleText: [...new Set([...accessibilityTexts.slice(0, 50), ...ocrTexts])],
           uiElements: [],
           metadata: {}
         }
       }
 
-      // 4. Build searchable text
-      const searchableText = buildSearchableText(analysis, frameData.accessibilityData)
+      // 6. Redact what the model read off the screen, then build searchable text
+      analysis = redactAnalysis(analysis, entry.redactions ?? (entry.redactions = {}))
+      const redactionCount = Object.values(entry.redactions).reduce((sum, n) => sum + n, 0)
+      if (redactionCount > 0) {
+        console.log(`[FrameProcessor] Redacted ${redactionCount} item(s) in frame ${frameData.id}`)
+      }
+      entry.analysis = analysis
+      entry.searchableText = buildSearchableText({
+        ...analysis,
+        focusedApp: frameData.accessibilityData?.focusedApp ?? null,
+        focusedWindow: frameData.accessibilityData?.focusedWindow ?? null,
+        privacyAction: entry.privacyAction ?? null
+      })
+      entry.state = 'analyzed'
+      await this.queue.checkpoint(entry)
+    }
 
-      // 5. Generate embedding
-      let embedding: number[]
-      if (llmService.hasEmbeddingProvider()) {
-        embedding = await llmService.generateEmbedding(searchableText)
-      } else {
-        console.warn('[FrameProcessor] No embedding provider, skipping Qdrant storage')
+    const analysis = entry.analysis!
+
+    // Embedded with a model the collection no longer uses: embed again
+    if (entry.state === 'embedded' && entry.embeddingModel !== llmService.getEmbeddingModel()) {
+      entry.state = 'analyzed'
+    }
+
+    if (entry.state === 'analyzed') {
+      // 7. Generate embedding
+      if (!llmService.hasEmbeddingProvider()) {
+        console.warn('[FrameProcessor] No embedding provider, skipping vector storage')
         // Save image only
         await this.saveImage(frameData.id, imageBuffer)
+        entry.state = 'stored'
+        await this.queue.checkpoint(entry)
         return
       }
 
-      // 6. Save image to disk
+      // Throws with the reason if the selected provider can't embed
+      const embeddingModel = llmService.getEmbeddingModel()
+      entry.embedding = await llmService.generateEmbedding(entry.searchableText!)
+      entry.embeddingModel = embeddingModel!
+      entry.state = 'embedded'
+      await this.queue.checkpoint(entry)
+    }
+
+    if (entry.state === 'embedded') {
+      // 8. Save image to disk
       await this.saveImage(frameData.id, imageBuffer)
 
-      // 7. Store in Qdrant
+      // 9. Store in the vector store
       const processedFrame: ProcessedFrame = {
         id: frameData.id,
         timestamp: frameData.timestamp,
-        embedding,
+        embedding: entry.embedding!,
         summary: analysis.summary,
         activeApplication: analysis.activeApplication,
         userActivity: analysis.userActivity,
@@ -186,26 +477,81 @@ export class FrameProcessor {
         appBundleId: frameData.appBundleId,
         appName: frameData.appName,
         windowTitle: frameData.windowTitle,
-        windowBounds: frameData.windowBounds
+        windowBounds: frameData.windowBounds,
+        perceptualHash: entry.perceptualHash ?? null,
+        ocrLines: entry.ocrLines ?? [],
+        redactions: entry.redactions ?? {},
+        privacyAction: entry.privacyAction ?? null,
+        embeddingModel: entry.embeddingModel!
       }
 
-      await qdrantClient.upsertFrame(processedFrame)
+      await vectorStore.upsertFrame(processedFrame)
+      if (entry.perceptualHash) {
+        this.lastStoredScreens.set(getScreenKey(frameData), {
+          frameId: frameData.id,
+          hash: entry.perceptualHash,
+          duplicateCount: 0
+        })
+      }
+      entry.state = 'stored'
+      await this.queue.checkpoint(entry)
 
       console.log(
         `[FrameProcessor] Frame ${frameData.id} processed and stored. ` +
           `Summary: ${analysis.summary.substring(0, 50)}...`
       )
-    } catch (error) {
-      console.error(`[FrameProcessor] Failed to process frame ${frameData.id}:`, error)
     }
   }
 
+  private shouldRunOcr(entry: QueuedFrame): boolean {
+    if (!this.options.localOcr || entry.privacyAction === 'blur' || entry.ocrLines !== undefined) return false
+    // OCR stands in for vision analysis on frames that don't get it
+    if (entry.privacyAction === 'local-only' || !llmService.hasVisionProvider()) return true
+    // Ahead of vision analysis it's optional, and skipped while frames back up behind it
+    return this.options.ocrBeforeVision && this.queue.getStats().pending <= OCR_MAX_QUEUE_DEPTH
+  }
+
+  // If the frame looks the same as the last stored frame for its app/window,
+  // and nothing else was captured in between, record it as a continuation of
+  // that frame. Returns true if handled.
+  private async extendIfUnchanged(entry: QueuedFrame): Promise<boolean> {
+    if (!entry.perceptualHash || !entry.followsSameScreen) return false
+
+    const key = getScreenKey(entry.frame)
+    const previous = this.lastStoredScreens.get(key)
+    if (!previous || hammingDistance(previous.hash, entry.perceptualHash) > DUPLICATE_HASH_THRESHOLD) {
+      return false
+    }
+
+    const duplicateCount = previous.duplicateCount + 1
+    await vectorStore.extendFrame(previous.frameId, entry.frame.timestamp, duplicateCount)
+    previous.duplicateCount = duplicateCount
+
+    console.log(
+      `[FrameProcessor] Frame ${entry.id} unchanged, extended ${previous.frameId} (x${duplicateCount + 1})`
+    )
+    return true
+  }
+
   private async saveImage(frameId: string, imageBuffer: Buffer): Promise<string> {
     const imagePath = path.join(this.framesDir, `${frameId}.jpg`)
-    await fs.writeFile(imagePath, imageBuffer)
+    await encryption.writeFile(imagePath, imageBuffer)
     return imagePath
   }
 
+  // Stop extending frames that have been deleted
+  forgetFrames(frameIds: Set<string>): void {
+    for (const [key, screen] of this.lastStoredScreens) {
+      if (frameIds.has(screen.frameId)) {
+        this.lastStoredScreens.delete(key)
+      }
+    }
+  }
+
+  getFramesDirectory(): string {
+    return this.framesDir
+  }
+
   getImagePath(frameId: string): string {
     return path.join(this.framesDir, `${frameId}.jpg`)
   }
@@ -213,6 +559,21 @@ export class FrameProcessor {
   getLastProcessedTimestamp(): number {
     return this.lastProcessedTimestamp
   }
+
+  getQueueStats(): FrameQueueStats {
+    return this.queue.getStats()
+  }
+
+  getDeadLetters(): Promise<QueuedFrame[]> {
+    return this.queue.listDeadLetters()
+  }
+
+  // Give dead-lettered frames another full set of attempts
+  async retryDeadLetters(): Promise<number> {
+    const count = await this.queue.requeueDeadLetters()
+    this.drainQueue()
+    return count
+  }
 }
 
 // Singleton instance
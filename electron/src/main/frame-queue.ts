@@ -0,0 +1,259 @@
+import path from 'path'
+import fs from 'fs/promises'
+import type { FrameAnalysis } from './llm'
+import type { CapturedFrameData } from './native-bridge'
+import type { OcrLine } from './ocr'
+import type { PrivacyAction } from './privacy-rules'
+import type { RedactionCounts } from './redaction'
+import { encryption } from './encryption'
+
+// Lifecycle of a frame in the processing queue. Each state is checkpointed to
+// disk so a restart resumes from the last completed step instead of redoing
+// (and re-paying for) vision and embedding calls.
+export type QueuedFrameState = 'pending' | 'analyzed' | 'embedded' | 'stored' | 'failed'
+
+export interface QueuedFrame {
+  id: string
+  state: QueuedFrameState
+  attempts: number
+  enqueuedAt: number
+  nextAttemptAt: number
+  lastError: string | null
+  frame: CapturedFrameData
+  // Privacy rule action decided when the frame was captured
+  privacyAction?: PrivacyAction | null
+  // Whether the frame captured just before this one was of the same app/window
+  followsSameScreen?: boolean
+  // Redactions made so far in the frame's text, by detector
+  redactions?: RedactionCounts
+  perceptualHash?: string | null
+  // null when OCR was attempted and failed
+  ocrLines?: OcrLine[] | null
+  // Set once sensitive regions have been blacked out of frame.imageBase64
+  imageRedacted?: boolean
+  analysis?: FrameAnalysis
+  searchableText?: string
+  embedding?: number[]
+  embeddingModel?: string
+}
+
+// Lightweight in-memory view of a journal entry (the frame itself stays on disk)
+interface QueueIndexEntry {
+  id: string
+  timestamp: number
+  state: QueuedFrameState
+  attempts: number
+  nextAttemptAt: number
+}
+
+export interface FrameQueueStats {
+  pending: number
+  retrying: number
+  deadLettered: number
+}
+
+export interface FrameQueueOptions {
+  maxAttempts?: number
+  baseRetryDelayMs?: number
+  maxRetryDelayMs?: number
+}
+
+/**
+ * Durable FIFO of frames awaiting processing. Every entry is a JSON file in
+ * `<framesDir>/queue`, written atomically on each state change. Entries that
+ * exhaust their attempts are moved to `<framesDir>/queue/dead-letter`.
+ */
+export class FrameQueue {
+  private queueDir: string
+  private deadLetterDir: string
+  private index: Map<string, QueueIndexEntry> = new Map()
+  private deadLetterCount = 0
+  private maxAttempts: number
+  private baseRetryDelayMs: number
+  private maxRetryDelayMs: number
+
+  constructor(framesDir: string, options: FrameQueueOptions = {}) {
+    this.queueDir = path.join(framesDir, 'queue')
+    this.deadLetterDir = path.join(this.queueDir, 'dead-letter')
+    this.maxAttempts = options.maxAttempts ?? 5
+    this.baseRetryDelayMs = options.baseRetryDelayMs ?? 5000
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 10 * 60 * 1000
+  }
+
+  // Load the journal from disk, returning how many frames are awaiting processing
+  async load(): Promise<number> {
+    await fs.mkdir(this.deadLetterDir, { recursive: true })
+    this.index.clear()
+
+    for (const file of await fs.readdir(this.queueDir)) {
+      if (!file.endsWith('.json')) continue
+      try {
+        const entry = await this.readFile(path.join(this.queueDir, file))
+        if (entry.state === 'stored') {
+          await this.remove(entry.id)
+          continue
+        }
+        this.index.set(entry.id, this.toIndexEntry(entry))
+      } catch (error) {
+        console.error(`[FrameQueue] Skipping unreadable journal entry ${file}:`, error)
+      }
+    }
+
+    this.deadLetterCount = (await fs.readdir(this.deadLetterDir)).filter((f) => f.endsWith('.json')).length
+    return this.index.size
+  }
+
+  has(id: string): boolean {
+    return this.index.has(id)
+  }
+
+  async enqueue(
+    frame: CapturedFrameData,
+    privacyAction: PrivacyAction | null = null,
+    redactions: RedactionCounts = {},
+    followsSameScreen = false
+  ): Promise<void> {
+    const entry: QueuedFrame = {
+      id: frame.id,
+      state: 'pending',
+      attempts: 0,
+      enqueuedAt: Date.now(),
+      nextAttemptAt: 0,
+      lastError: null,
+      frame,
+      privacyAction,
+      followsSameScreen,
+      redactions
+    }
+    await this.write(entry)
+  }
+
+  // Oldest frame whose retry delay has elapsed, or null if none are ready
+  async next(now = Date.now()): Promise<QueuedFrame | null> {
+    let candidate: QueueIndexEntry | null = null
+    for (const entry of this.index.values()) {
+      if (entry.nextAttemptAt > now) continue
+      if (!candidate || entry.timestamp < candidate.timestamp) {
+        candidate = entry
+      }
+    }
+    if (!candidate) return null
+    return this.readFile(this.entryPath(candidate.id))
+  }
+
+  // Earliest time at which a waiting entry becomes ready, or null if the queue is empty
+  nextAttemptAt(): number | null {
+    let earliest: number | null = null
+    for (const entry of this.index.values()) {
+      if (earliest === null || entry.nextAttemptAt < earliest) {
+        earliest = entry.nextAttemptAt
+      }
+    }
+    return earliest
+  }
+
+  // Persist a checkpoint after a processing step succeeds
+  async checkpoint(entry: QueuedFrame): Promise<void> {
+    if (entry.state === 'stored') {
+      await this.remove(entry.id)
+      return
+    }
+    await this.write(entry)
+  }
+
+  // Record a failed attempt, scheduling a retry with exponential backoff or
+  // moving the entry to the dead-letter list once attempts are exhausted.
+  async recordFailure(entry: QueuedFrame, error: unknown): Promise<'retry' | 'dead-letter'> {
+    entry.attempts++
+    entry.lastError = error instanceof Error ? error.message : String(error)
+
+    if (entry.attempts >= this.maxAttempts) {
+      entry.state = 'failed'
+      await this.writeFile(path.join(this.deadLetterDir, `${entry.id}.json`), entry)
+      await this.remove(entry.id)
+      this.deadLetterCount++
+      return 'dead-letter'
+    }
+
+    const delay = Math.min(this.baseRetryDelayMs * 2 ** (entry.attempts - 1), this.maxRetryDelayMs)
+    entry.nextAttemptAt = Date.now() + delay
+    await this.write(entry)
+    return 'retry'
+  }
+
+  async listDeadLetters(): Promise<QueuedFrame[]> {
+    const entries: QueuedFrame[] = []
+    for (const file of await fs.readdir(this.deadLetterDir)) {
+      if (!file.endsWith('.json')) continue
+      try {
+        entries.push(await this.readFile(path.join(this.deadLetterDir, file)))
+      } catch {
+        // Ignore unreadable dead letters
+      }
+    }
+    return entries.sort((a, b) => a.frame.timestamp - b.frame.timestamp)
+  }
+
+  // Move dead-lettered frames back into the queue with a fresh attempt budget
+  async requeueDeadLetters(): Promise<number> {
+    const deadLetters = await this.listDeadLetters()
+    for (const entry of deadLetters) {
+      entry.state = entry.analysis ? (entry.embedding ? 'embedded' : 'analyzed') : 'pending'
+      entry.attempts = 0
+      entry.nextAttemptAt = 0
+      entry.lastError = null
+      await this.write(entry)
+      await fs.rm(path.join(this.deadLetterDir, `${entry.id}.json`), { force: true })
+    }
+    this.deadLetterCount = 0
+    return deadLetters.length
+  }
+
+  getStats(): FrameQueueStats {
+    let retrying = 0
+    for (const entry of this.index.values()) {
+      if (entry.attempts > 0) retrying++
+    }
+    return {
+      pending: this.index.size,
+      retrying,
+      deadLettered: this.deadLetterCount
+    }
+  }
+
+  private async write(entry: QueuedFrame): Promise<void> {
+    await this.writeFile(this.entryPath(entry.id), entry)
+    this.index.set(entry.id, this.toIndexEntry(entry))
+  }
+
+  private async remove(id: string): Promise<void> {
+    await fs.rm(this.entryPath(id), { force: true })
+    this.index.delete(id)
+  }
+
+  // Write via a temp file and rename so a crash never leaves a torn entry.
+  // Entries hold the screenshot, so they are encrypted like stored images.
+  private async writeFile(filePath: string, entry: QueuedFrame): Promise<void> {
+    const tmpPath = `${filePath}.tmp`
+    await encryption.writeFile(tmpPath, JSON.stringify(entry))
+    await fs.rename(tmpPath, filePath)
+  }
+
+  private async readFile(filePath: string): Promise<QueuedFrame> {
+    return JSON.parse((await encryption.readFile(filePath)).toString('utf-8'))
+  }
+
+  private entryPath(id: string): string {
+    return path.join(this.queueDir, `${id}.json`)
+  }
+
+  private toIndexEntry(entry: QueuedFrame): QueueIndexEntry {
+    return {
+      id: entry.id,
+      timestamp: entry.frame.timestamp,
+      state: entry.state,
+      attempts: entry.attempts,
+      nextAttemptAt: entry.nextAttemptAt
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { nativeImage, screen } from 'electron'
+import type { AccessibilityElement, CapturedFrameData } from './native-bridge'
+import type { OcrLine } from './ocr'
+import { containsRedaction } from './redaction'
+
+// A rectangle in image pixels
+export interface ImageRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Extra pixels blacked out around each region, for antialiasing and loose boxes
+const REGION_PADDING = 4
+
+// Password fields (AXSecureTextField on macOS)
+const SECURE_ROLE_PATTERN = /secure|password/i
+
+// Regions of the image showing something the text redaction removed: OCR
+// lines it redacted, and accessibility elements that are password fields or
+// whose text it redacted
+export function findSensitiveRegions(
+  frame: CapturedFrameData,
+  ocrLines: OcrLine[],
+  imageSize: { width: number; height: number }
+): ImageRegion[] {
+  const regions: ImageRegion[] = ocrLines.filter((line) => containsRedaction(line.text)).map((line) => line.bbox)
+
+  const elements = frame.accessibilityData?.elements ?? []
+  if (elements.length === 0) return regions
+
+  // Element frames are in screen coordinates; the image covers the window, or
+  // the primary display for full screen captures
+  const bounds = frame.windowBounds ?? screen.getPrimaryDisplay().bounds
+  if (bounds.width <= 0 || bounds.height <= 0) return regions
+  const scaleX = imageSize.width / bounds.width
+  const scaleY = imageSize.height / bounds.height
+
+  const visit = (el: AccessibilityElement) => {
+    const sensitive = SECURE_ROLE_PATTERN.test(el.role) || containsRedaction(el.title) || containsRedaction(el.value)
+    if (sensitive && el.frame) {
+      regions.push({
+        x: (el.frame.x - bounds.x) * scaleX,
+        y: (el.frame.y - bounds.y) * scaleY,
+        width: el.frame.width * scaleX,
+        height: el.frame.height * scaleY
+      })
+    }
+    el.children?.forEach(visit)
+  }
+  elements.forEach(visit)
+
+  return regions
+}
+
+// Black out regions of a JPEG/PNG, returning a JPEG
+export function maskRegions(imageBuffer: Buffer, regions: ImageRegion[]): Buffer {
+  const image = nativeImage.createFromBuffer(imageBuffer)
+  if (image.isEmpty() || regions.length === 0) return imageBuffer
+
+  const { width, height } = image.getSize()
+  // 4 bytes per pixel (BGRA); black with full alpha is 0, 0, 0, 255
+  const bitmap = image.toBitmap()
+
+  for (const region of regions) {
+    const left = Math.max(0, Math.floor(region.x - REGION_PADDING))
+    const top = Math.max(0, Math.floor(region.y - REGION_PADDING))
+    const right = Math.min(width, Math.ceil(region.x + region.width + REGION_PADDING))
+    const bottom = Math.min(height, Math.ceil(region.y + region.height + REGION_PADDING))
+
+    for (let y = top; y < bottom; y++) {
+      const row = y * width * 4
+      for (let x = left; x < right; x++) {
+        const offset = row + x * 4
+        bitmap[offset] = 0
+        bitmap[offset + 1] = 0
+        bitmap[offset + 2] = 0
+        bitmap[offset + 3] = 255
+      }
+    }
+  }
+
+  return nativeImage.createFromBitmap(bitmap, { width, height }).toJPEG(85)
+}
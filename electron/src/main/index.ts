@@ -1,5 +1,6 @@
 import { app, BrowserWindow, Tray, Menu, nativeImage, ipcMain } from 'electron'
 import { join } from 'path'
+import { randomBytes } from 'crypto'
 import { spawn, ChildProcess } from 'child_process'
 import { existsSync, mkdirSync, writeFileSync } from 'fs'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
@@ -9,8 +10,19 @@ import { nativeBridge } from './native-bridge'
 import type { ServiceStatus } from './native-bridge'
 import { createServer } from './server'
 import { qdrantClient } from './qdrant'
-import { llmService } from './llm'
+import { ocrService } from './ocr'
+import { privacyRules, PrivacyRule } from './privacy-rules'
+import { redactor, DEFAULT_REDACTION_SETTINGS, RedactionSettings } from './redaction'
+import { retentionJanitor, DEFAULT_RETENTION_POLICY, RetentionPolicy } from './retention'
+import { vectorStore, VectorStorePreference } from './vector-store'
+import { llmService, llmRequests, listLocalModels, DEFAULT_LOCAL_LLM_SETTINGS, LocalLLMSettings, LLMProviderType } from './llm'
 import { frameProcessor } from './frame-processor'
+import { embeddingMigration } from './embedding-migration'
+import { encryption, SECRET_SETTINGS } from './encryption'
+import { migrateToEncryption } from './encryption-migration'
+import { usageLedger } from './usage'
+import { chatStore, Chat } from './chats'
+import { meetingStore } from './meetings'
 import { setupAutoUpdater, checkForUpdates } from './updater'
 
 // Load .env file for local development
@@ -20,24 +32,19 @@ let qdrantProcess: ChildProcess | null = null
 
 const store = new Store()
 
-// Chat storage types
-interface ChatMessage {
-  id: string
-  role: 'user' | 'assistant'
-  content: string
-  createdAt: number
-}
-
-interface Chat {
-  id: string
-  title: string
-  createdAt: number
-  updatedAt: number
-  messages: ChatMessage[]
+// Provider rate limit and outage state and the daily budget, and whether
+// frame analysis is paused by them
+function getLLMStatus() {
+  return {
+    analysisPausedUntil: llmService.getAnalysisPausedUntil(),
+    providers: llmRequests.getStatus(),
+    budget: usageLedger.getBudgetStatus()
+  }
 }
 
-interface ChatsStore {
-  [id: string]: Chat
+// API keys are stored encrypted
+function getSecretSetting(key: string): string {
+  return encryption.decryptString((store.get(key) as string) || '')
 }
 
 // Load API keys from environment variables for local dev
@@ -46,10 +53,10 @@ function getApiKey(key: string, envVar: string): string {
   const envValue = process.env[envVar]
   if (envValue) {
     // Also save to store so Swift service can use it
-    store.set(key, envValue)
+    store.set(key, encryption.encryptString(envValue))
     return envValue
   }
-  return (store.get(key) as string) || ''
+  return getSecretSetting(key)
 }
 
 function getQdrantPath(): string | null {
@@ -167,34 +174,19 @@ let mainWindow: BrowserWindow | null = null
 let tray: Tray | null = null
 let expressServer: ReturnType<typeof createServer> | null = null
 let serverInstance: ReturnType<typeof expressServer['listen']> | null = null
-let framePollingInterval: ReturnType<typeof setInterval> | null = null
 
 const SERVER_PORT = 3001
-const FRAME_POLL_INTERVAL = 500 // Poll for new frames every 500ms
+// Only local clients holding this token (the renderer) may use the API server
+const SERVER_HOST = '127.0.0.1'
+const apiToken = randomBytes(32).toString('hex')
 
-// Start polling for frames from native service
-function startFramePolling(): void {
-  if (framePollingInterval) return
-
-  console.log('[Main] Starting frame polling')
-  framePollingInterval = setInterval(async () => {
-    try {
-      const frame = await nativeBridge.getLatestFrame()
-      if (frame) {
-        await frameProcessor.processFrame(frame)
-      }
-    } catch (error) {
-      // Silently ignore polling errors (service might not be ready)
-    }
-  }, FRAME_POLL_INTERVAL)
+// Subscribe to frames from native service (streamed, with polling fallback)
+function startFrameDelivery(): void {
+  nativeBridge.subscribeToFrames((frame) => frameProcessor.processFrame(frame))
 }
 
-function stopFramePolling(): void {
-  if (framePollingInterval) {
-    console.log('[Main] Stopping frame polling')
-    clearInterval(framePollingInterval)
-    framePollingInterval = null
-  }
+function stopFrameDelivery(): void {
+  nativeBridge.unsubscribeFromFrames()
 }
 
 function createWindow(): void {
@@ -266,10 +258,10 @@ async function updateTrayMenu(): Promise<void> {
       click: async () => {
         if (status.isRunning) {
           await nativeBridge.stopCapture()
-          stopFramePolling()
+          stopFrameDelivery()
         } else {
           await nativeBridge.startCapture()
-          startFramePolling()
+          startFrameDelivery()
         }
         updateTrayMenu()
       }
@@ -305,10 +297,29 @@ async function updateTrayMenu(): Promise<void> {
 async function startServices(): Promise<void> {
   console.log('[Main] Starting services...')
 
-  // Start Qdrant first
-  await startQdrant()
+  // Frames, the queue, chats, meetings and API keys are encrypted; wait for the key
+  if (!encryption.isReady()) {
+    console.log('[Main] Waiting for encryption to be unlocked')
+    mainWindow?.webContents.send('encryption:status', encryption.getStatus())
+    await encryption.whenReady()
+  }
+  await migrateToEncryption(store, frameProcessor.getFramesDirectory())
+
+  // Start Qdrant first, unless the built-in store was chosen
+  const vectorStorePreference = store.get('vectorStore', 'auto') as VectorStorePreference
+  if (vectorStorePreference !== 'local') {
+    await startQdrant()
+  }
+  const activeVectorStore = await vectorStore.select(vectorStorePreference)
+  console.log(`[Main] Using ${activeVectorStore} vector store`)
 
   // Initialize frame processor
+  privacyRules.configure(store.get('privacyRules', []) as PrivacyRule[])
+  redactor.configure(store.get('redaction', DEFAULT_REDACTION_SETTINGS) as RedactionSettings)
+  frameProcessor.configure({
+    localOcr: store.get('enableLocalOcr', true) as boolean,
+    ocrBeforeVision: store.get('ocrBeforeVision', false) as boolean
+  })
   try {
     await frameProcessor.initialize()
     console.log('[Main] Frame processor initialized')
@@ -316,27 +327,56 @@ async function startServices(): Promise<void> {
     console.error('[Main] Failed to initialize frame processor:', error)
   }
 
+  // Periodically delete frames outside the retention policy
+  retentionJanitor.configure(store.get('retention', DEFAULT_RETENTION_POLICY) as RetentionPolicy)
+  retentionJanitor.start()
+
   // Start Express server for chat API
-  expressServer = createServer()
-  serverInstance = expressServer.listen(SERVER_PORT, () => {
-    console.log(`[Main] API server running on port ${SERVER_PORT}`)
+  expressServer = createServer(apiToken)
+  serverInstance = expressServer.listen(SERVER_PORT, SERVER_HOST, () => {
+    console.log(`[Main] API server running on ${SERVER_HOST}:${SERVER_PORT}`)
   })
 
   // Get API keys (env vars take precedence for local dev)
   const geminiAPIKey = getApiKey('geminiAPIKey', 'GEMINI_API_KEY')
   const claudeAPIKey = getApiKey('claudeAPIKey', 'ANTHROPIC_API_KEY')
   const openaiAPIKey = getApiKey('openaiAPIKey', 'OPENAI_API_KEY')
-  const activeVisionProvider = (store.get('activeVisionProvider') as string) || 'gemini'
+  const activeVisionProvider = store.get('activeVisionProvider', 'auto') as string
+
+  // Record token usage and cost, and hold analysis once the daily budget is spent
+  usageLedger.configure({ dailyBudgetUSD: store.get('dailyBudgetUSD', 0) as number })
+  try {
+    await usageLedger.initialize()
+  } catch (error) {
+    console.error('[Main] Failed to initialize usage ledger:', error)
+  }
 
   // Configure LLM service for frame processing
   llmService.configure({
     geminiAPIKey,
     claudeAPIKey,
     openaiAPIKey,
-    activeVisionProvider: activeVisionProvider as 'gemini' | 'claude' | 'openai'
+    localAPIKey: getSecretSetting('localAPIKey'),
+    localLLM: store.get('localLLM', DEFAULT_LOCAL_LLM_SETTINGS) as LocalLLMSettings,
+    activeVisionProvider: store.get('activeVisionProvider') as LLMProviderType | undefined,
+    activeEmbeddingProvider: store.get('activeEmbeddingProvider') as LLMProviderType | 'auto' | undefined
   })
   console.log('[Main] LLM service configured:', llmService.getActiveProviders())
 
+  // Tell the UI when providers are rate limiting us or down
+  llmRequests.setStatusListener(() => {
+    mainWindow?.webContents.send('llm:status-changed', getLLMStatus())
+  })
+  usageLedger.setBudgetListener(() => {
+    mainWindow?.webContents.send('llm:status-changed', getLLMStatus())
+  })
+
+  // Create the frames collection for the embedding model, or migrate it if the model changed
+  embeddingMigration.setProgressListener((progress) => {
+    mainWindow?.webContents.send('embeddings:migration-progress', progress)
+  })
+  await embeddingMigration.reconcile()
+
   // Start native service
   try {
     await nativeBridge.start()
@@ -346,6 +386,7 @@ async function startServices(): Promise<void> {
       captureInterval: (store.get('captureInterval') as number) || 5,
       enableFullScreenCaptures: store.get('enableFullScreenCaptures', true) as boolean,
       fullScreenCaptureInterval: (store.get('fullScreenCaptureInterval') as number) || 1,
+      exclusionRules: privacyRules.getRules(),
       geminiAPIKey,
       claudeAPIKey,
       openaiAPIKey,
@@ -354,10 +395,15 @@ async function startServices(): Promise<void> {
 
     await nativeBridge.configure(config)
 
+    // Meetings are stored encrypted here, not by the native service
+    meetingStore.adoptNativeMeetings().catch((error) => {
+      console.error('[Main] Failed to move meetings from the native service:', error)
+    })
+
     // Auto-start capture if enabled
     if (store.get('autoStartCapture', true)) {
       await nativeBridge.startCapture()
-      startFramePolling()
+      startFrameDelivery()
     }
 
     // Update tray menu with status
@@ -373,7 +419,8 @@ async function startServices(): Promise<void> {
 async function stopServices(): Promise<void> {
   console.log('[Main] Stopping services...')
 
-  stopFramePolling()
+  stopFrameDelivery()
+  retentionJanitor.stop()
 
   if (serverInstance) {
     serverInstance.close()
@@ -381,46 +428,68 @@ async function stopServices(): Promise<void> {
   }
 
   await nativeBridge.stop()
+  await ocrService.terminate()
+  chatStore.close()
   stopQdrant()
 }
 
 // IPC handlers
 function setupIPC(): void {
+  // Read synchronously by the preload script so the renderer can call the API server
+  ipcMain.on('api:token', (event) => {
+    event.returnValue = apiToken
+  })
+
   ipcMain.handle('get-status', async () => {
     return await nativeBridge.getStatus()
   })
 
   ipcMain.handle('start-capture', async () => {
     await nativeBridge.startCapture()
-    startFramePolling()
+    startFrameDelivery()
     updateTrayMenu()
     return { success: true }
   })
 
   ipcMain.handle('stop-capture', async () => {
     await nativeBridge.stopCapture()
-    stopFramePolling()
+    stopFrameDelivery()
     updateTrayMenu()
     return { success: true }
   })
 
   ipcMain.handle('get-settings', () => {
     return {
-      geminiAPIKey: store.get('geminiAPIKey', ''),
-      claudeAPIKey: store.get('claudeAPIKey', ''),
-      openaiAPIKey: store.get('openaiAPIKey', ''),
+      geminiAPIKey: getSecretSetting('geminiAPIKey'),
+      claudeAPIKey: getSecretSetting('claudeAPIKey'),
+      openaiAPIKey: getSecretSetting('openaiAPIKey'),
+      localAPIKey: getSecretSetting('localAPIKey'),
+      localLLM: store.get('localLLM', DEFAULT_LOCAL_LLM_SETTINGS),
       captureInterval: store.get('captureInterval', 5),
       enableFullScreenCaptures: store.get('enableFullScreenCaptures', true),
       fullScreenCaptureInterval: store.get('fullScreenCaptureInterval', 1),
-      activeVisionProvider: store.get('activeVisionProvider', 'gemini'),
+      activeVisionProvider: store.get('activeVisionProvider', 'auto'),
+      activeEmbeddingProvider: store.get('activeEmbeddingProvider', 'auto'),
       chatProvider: store.get('chatProvider', 'anthropic'),
-      autoStartCapture: store.get('autoStartCapture', true)
+      autoStartCapture: store.get('autoStartCapture', true),
+      vectorStore: store.get('vectorStore', 'auto'),
+      enableLocalOcr: store.get('enableLocalOcr', true),
+      ocrBeforeVision: store.get('ocrBeforeVision', false),
+      retention: store.get('retention', DEFAULT_RETENTION_POLICY),
+      privacyRules: store.get('privacyRules', []),
+      redaction: store.get('redaction', DEFAULT_REDACTION_SETTINGS),
+      dailyBudgetUSD: store.get('dailyBudgetUSD', 0)
     }
   })
 
   ipcMain.handle('save-settings', async (_event, settings) => {
+    const previousVectorStore = store.get('vectorStore', 'auto')
     for (const [key, value] of Object.entries(settings)) {
-      store.set(key, value)
+      if (SECRET_SETTINGS.includes(key) && typeof value === 'string' && value) {
+        store.set(key, encryption.encryptString(value))
+      } else {
+        store.set(key, value)
+      }
     }
 
     // Reconfigure LLM service
@@ -428,14 +497,45 @@ function setupIPC(): void {
       geminiAPIKey: settings.geminiAPIKey,
       claudeAPIKey: settings.claudeAPIKey,
       openaiAPIKey: settings.openaiAPIKey,
-      activeVisionProvider: settings.activeVisionProvider
+      localAPIKey: settings.localAPIKey,
+      localLLM: settings.localLLM,
+      activeVisionProvider: settings.activeVisionProvider,
+      activeEmbeddingProvider: settings.activeEmbeddingProvider
     })
 
+    if (settings.dailyBudgetUSD !== undefined) {
+      usageLedger.configure({ dailyBudgetUSD: settings.dailyBudgetUSD })
+    }
+    if (settings.enableLocalOcr !== undefined) {
+      frameProcessor.configure({ localOcr: settings.enableLocalOcr, ocrBeforeVision: settings.ocrBeforeVision ?? false })
+    }
+    if (settings.privacyRules) {
+      privacyRules.configure(settings.privacyRules)
+    }
+    if (settings.redaction) {
+      redactor.configure(settings.redaction)
+    }
+    if (settings.retention) {
+      retentionJanitor.configure(settings.retention)
+    }
+
+    // Switch vector store if the preference changed
+    if (settings.vectorStore && settings.vectorStore !== previousVectorStore) {
+      if (settings.vectorStore !== 'local' && !(await qdrantClient.healthCheck())) {
+        await startQdrant()
+      }
+      await vectorStore.select(settings.vectorStore)
+    }
+
+    // A different embedding provider may need the collection re-embedded
+    await embeddingMigration.reconcile()
+
     // Reconfigure native service with full settings
     await nativeBridge.configure({
       captureInterval: settings.captureInterval,
       enableFullScreenCaptures: settings.enableFullScreenCaptures,
       fullScreenCaptureInterval: settings.fullScreenCaptureInterval,
+      exclusionRules: privacyRules.getRules(),
       geminiAPIKey: settings.geminiAPIKey,
       claudeAPIKey: settings.claudeAPIKey,
       openaiAPIKey: settings.openaiAPIKey,
@@ -445,43 +545,119 @@ function setupIPC(): void {
     return { success: true }
   })
 
+  ipcMain.handle('llm:status', () => {
+    return getLLMStatus()
+  })
+
+  // Token usage and estimated cost
+  ipcMain.handle('usage:summary', async (_event, days?: number) => {
+    return await usageLedger.getSummary(days)
+  })
+
+  // Models offered by a local OpenAI-compatible server
+  ipcMain.handle('llm:list-local-models', async (_event, baseURL: string, apiKey?: string) => {
+    try {
+      const models = await listLocalModels(baseURL, apiKey)
+      return { success: true, models }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+
   ipcMain.handle('check-qdrant', async () => {
     const result = await qdrantClient.healthCheck()
     console.log('[Main] check-qdrant IPC called, result:', result)
     return result
   })
 
+  ipcMain.handle('vector-store:status', async () => {
+    return await vectorStore.getStatus()
+  })
+
+  ipcMain.handle('embeddings:migration-status', () => {
+    return embeddingMigration.getProgress()
+  })
+
+  // Frame processing queue
+  ipcMain.handle('frames:queue-stats', () => {
+    return frameProcessor.getQueueStats()
+  })
+
+  ipcMain.handle('frames:retry-failed', async () => {
+    const requeued = await frameProcessor.retryDeadLetters()
+    return { success: true, requeued }
+  })
+
+  // Retention
+  ipcMain.handle('retention:status', async () => {
+    return await retentionJanitor.getStatus()
+  })
+
+  ipcMain.handle('retention:run', async () => {
+    try {
+      const removed = await retentionJanitor.runCleanup()
+      return { success: true, removed }
+    } catch (error) {
+      console.error('[Main] Retention cleanup failed:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+
+  // Encryption at rest
+  ipcMain.handle('encryption:status', () => {
+    return encryption.getStatus()
+  })
+
+  // Load the data key again after it was unavailable (e.g. the keychain is unlocked now)
+  ipcMain.handle('encryption:retry', async () => {
+    return encryption.initialize()
+  })
+
+  ipcMain.handle('encryption:unlock', async (_event, passphrase: string) => {
+    try {
+      const success = await encryption.unlock(passphrase)
+      return success ? { success } : { success, error: 'Incorrect passphrase' }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+
+  ipcMain.handle('encryption:set-passphrase', async (_event, passphrase: string) => {
+    try {
+      await encryption.setPassphrase(passphrase)
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+
   // Chat CRUD handlers
   ipcMain.handle('chats:list', () => {
-    const chats = (store.get('chats') as ChatsStore) || {}
-    // Return metadata only (without messages) sorted by updatedAt desc
-    return Object.values(chats)
-      .map(({ id, title, createdAt, updatedAt }) => ({ id, title, createdAt, updatedAt }))
-      .sort((a, b) => b.updatedAt - a.updatedAt)
+    // Metadata only (without messages), most recently updated first
+    return chatStore.list()
   })
 
   ipcMain.handle('chats:get', (_event, id: string) => {
-    const chats = (store.get('chats') as ChatsStore) || {}
-    return chats[id] || null
+    return chatStore.get(id)
   })
 
   ipcMain.handle('chats:save', (_event, chat: Chat) => {
-    const chats = (store.get('chats') as ChatsStore) || {}
-    chats[chat.id] = {
+    chatStore.save({
       ...chat,
       updatedAt: Date.now()
-    }
-    store.set('chats', chats)
+    })
     return { success: true }
   })
 
   ipcMain.handle('chats:delete', (_event, id: string) => {
-    const chats = (store.get('chats') as ChatsStore) || {}
-    delete chats[id]
-    store.set('chats', chats)
+    chatStore.delete(id)
     return { success: true }
   })
 
+  ipcMain.handle('chats:search', (_event, query: string) => {
+    return chatStore.search(query)
+  })
+
   // Meeting IPC handlers
   ipcMain.handle('meetings:start', async (_event, title?: string) => {
     try {
@@ -495,7 +671,12 @@ function setupIPC(): void {
   ipcMain.handle('meetings:stop', async () => {
     try {
       const result = await nativeBridge.stopMeeting()
-      return { success: true, meeting: result }
+      // Left with the native service if this fails, and moved on next launch
+      const meeting = await meetingStore.adopt(result).catch((error) => {
+        console.error('[Main] Failed to store meeting:', error)
+        return result
+      })
+      return { success: true, meeting }
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
     }
@@ -515,16 +696,16 @@ function setupIPC(): void {
   })
 
   ipcMain.handle('meetings:list', async () => {
-    return await nativeBridge.getMeetings()
+    return await meetingStore.list()
   })
 
   ipcMain.handle('meetings:get', async (_event, id: string) => {
-    return await nativeBridge.getMeeting(id)
+    return await meetingStore.get(id)
   })
 
   ipcMain.handle('meetings:delete', async (_event, id: string) => {
     try {
-      await nativeBridge.deleteMeeting(id)
+      await meetingStore.delete(id)
       return { success: true }
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
@@ -637,6 +818,13 @@ app.whenReady().then(async () => {
     optimizer.watchWindowShortcuts(window)
   })
 
+  try {
+    const { state } = await encryption.initialize()
+    console.log(`[Main] Encryption ${state}`)
+  } catch (error) {
+    console.error('[Main] Failed to load encryption key:', error)
+  }
+
   setupIPC()
   createWindow()
   createApplicationMenu()
@@ -1,16 +1,62 @@
+import Store from 'electron-store'
 import { LLMProvider } from './providers/base'
 import { GeminiProvider } from './providers/gemini'
 import { OpenAIProvider } from './providers/openai'
-import { FrameAnalysis, ChatMessage, LLMProviderType, LLMProviderConfig, LLMError } from './types'
+import { LocalProvider } from './providers/local'
+import { ClaudeProvider } from './providers/claude'
+import { llmRequests } from './request'
+import { usageLedger } from '../usage'
+import { FrameAnalysis, ChatMessage, LLMProviderType, LLMProviderConfig, LLMError, EmbeddingModelInfo } from './types'
 
 export * from './types'
 export { LLMProvider } from './providers/base'
+export { listLocalModels } from './providers/local'
+export { llmRequests } from './request'
+export type { ProviderRequestStatus, CircuitState } from './request'
+
+type Capability = 'vision' | 'embedding' | 'chat'
+
+const store = new Store()
+
+const CAPABILITY_LABELS: Record<Capability, string> = {
+  vision: 'vision',
+  embedding: 'embeddings',
+  chat: 'chat'
+}
+
+const PROVIDER_NAMES: Record<LLMProviderType, string> = {
+  gemini: 'Gemini',
+  claude: 'Claude',
+  openai: 'OpenAI',
+  local: 'The local model server'
+}
+
+// Providers automatic selection skips for a capability: Claude would send
+// every frame to a paid Sonnet model, so it has to be chosen for vision
+const EXCLUDED_FROM_AUTO: Partial<Record<Capability, LLMProviderType[]>> = {
+  vision: ['claude']
+}
+
+function supports(provider: LLMProvider, capability: Capability): boolean {
+  switch (capability) {
+    case 'vision':
+      return provider.supportsVision
+    case 'embedding':
+      return provider.supportsEmbeddings
+    case 'chat':
+      return true
+  }
+}
 
 export class LLMService {
   private providers: Map<LLMProviderType, LLMProvider> = new Map()
-  private activeVisionProvider: LLMProviderType = 'gemini'
-  private activeEmbeddingProvider: LLMProviderType = 'gemini'
-  private activeChatProvider: LLMProviderType = 'gemini'
+  // Provider chosen for each capability; null picks the first one that supports it
+  private selected: Record<Capability, LLMProviderType | null> = { vision: null, embedding: null, chat: null }
+  // Vector size per model id, learned from embeddings and kept across launches
+  // so the collection can be checked without a (paid) probe request
+  private embeddingDimensions: Map<string, number> = new Map(
+    Object.entries(store.get('embeddingDimensions', {}) as Record<string, number>)
+  )
 
   configure(config: LLMProviderConfig): void {
     this.providers.clear()
@@ -23,92 +69,174 @@ export class LLMService {
       this.providers.set('openai', new OpenAIProvider(config.openaiAPIKey))
     }
 
-    // Claude doesn't support embeddings, so we don't add it as a provider here
-    // Chat with Claude is handled by the existing server.ts
+    if (config.claudeAPIKey) {
+      this.providers.set('claude', new ClaudeProvider(config.claudeAPIKey))
+    }
 
-    if (config.activeVisionProvider && this.providers.has(config.activeVisionProvider)) {
-      this.activeVisionProvider = config.activeVisionProvider
-    } else if (this.providers.size > 0) {
-      this.activeVisionProvider = this.providers.keys().next().value!
+    if (config.localLLM?.baseURL) {
+      this.providers.set('local', new LocalProvider(config.localLLM, config.localAPIKey))
     }
 
-    if (config.activeEmbeddingProvider && this.providers.has(config.activeEmbeddingProvider)) {
-      this.activeEmbeddingProvider = config.activeEmbeddingProvider
-    } else if (this.providers.size > 0) {
-      // Find first provider that supports embeddings
-      for (const [type, provider] of this.providers) {
-        if (provider.supportsEmbeddings) {
-          this.activeEmbeddingProvider = type
-          break
-        }
+    // A local server may now serve a different model under the same name, so
+    // measure local embedding dimensions again
+    for (const model of this.embeddingDimensions.keys()) {
+      if (model.startsWith('local/')) {
+        this.embeddingDimensions.delete(model)
       }
     }
+    this.saveEmbeddingDimensions()
+
+    const selection = (type: LLMProviderType | 'auto' | undefined) => (type && type !== 'auto' ? type : null)
+    this.selected = {
+      vision: selection(config.activeVisionProvider),
+      embedding: selection(config.activeEmbeddingProvider),
+      chat: selection(config.activeChatProvider)
+    }
 
-    if (config.activeChatProvider && this.providers.has(config.activeChatProvider)) {
-      this.activeChatProvider = config.activeChatProvider
-    } else if (this.providers.size > 0) {
-      this.activeChatProvider = this.providers.keys().next().value!
+    // Selections are never swapped for another provider; say so up front
+    for (const capability of Object.keys(this.selected) as Capability[]) {
+      if (!this.selected[capability]) continue
+      try {
+        this.resolve(capability)
+      } catch (error) {
+        console.warn(`[LLMService] ${error instanceof Error ? error.message : error}`)
+      }
     }
 
+    const active = this.getActiveProviders()
     console.log(
       `[LLMService] Configured with ${this.providers.size} providers. ` +
-        `Vision: ${this.activeVisionProvider}, Embedding: ${this.activeEmbeddingProvider}`
+        `Vision: ${active.vision}, Embedding: ${active.embedding}`
     )
   }
 
   async analyzeImage(imageBuffer: Buffer, prompt: string): Promise<FrameAnalysis> {
-    const provider = this.providers.get(this.activeVisionProvider)
-    if (!provider) {
-      throw new LLMError('No vision provider configured', 'NO_PROVIDER')
-    }
-    if (!provider.supportsVision) {
-      throw new LLMError(`Provider ${provider.name} does not support vision`, 'UNSUPPORTED')
-    }
-    return provider.analyzeImage(imageBuffer, prompt)
+    return this.resolve('vision').provider.analyzeImage(imageBuffer, prompt)
   }
 
   async generateEmbedding(text: string): Promise<number[]> {
-    // Try active embedding provider first
-    let provider = this.providers.get(this.activeEmbeddingProvider)
-    if (provider?.supportsEmbeddings) {
-      return provider.generateEmbedding(text)
-    }
+    const { type, provider } = this.resolve('embedding')
+    const embedding = await provider.generateEmbedding(text)
+    this.rememberEmbeddingDimension(`${type}/${provider.embeddingModel}`, embedding.length)
+    return embedding
+  }
 
-    // Fall back to any provider that supports embeddings
-    for (const [, p] of this.providers) {
-      if (p.supportsEmbeddings) {
-        return p.generateEmbedding(text)
-      }
+  // Id of the model generateEmbedding currently uses, or null if none is available
+  getEmbeddingModel(): string | null {
+    const embedder = this.tryResolve('embedding')
+    return embedder ? `${embedder.type}/${embedder.provider.embeddingModel}` : null
+  }
+
+  // Whether embeddings are made on the user's machine or network
+  embedsLocally(): boolean {
+    return this.tryResolve('embedding')?.type === 'local'
+  }
+
+  // Model id and vector dimension of the current embedding model. Null when
+  // no provider can embed; throws when the selected one can't.
+  async detectEmbeddingModel(): Promise<EmbeddingModelInfo | null> {
+    if (!this.selected.embedding && !this.tryResolve('embedding')) return null
+
+    const { type, provider } = this.resolve('embedding')
+    const model = `${type}/${provider.embeddingModel}`
+
+    let dimension = this.embeddingDimensions.get(model)
+    if (dimension === undefined) {
+      dimension = (await provider.generateEmbedding('dimension probe')).length
+      this.rememberEmbeddingDimension(model, dimension)
     }
+    return { model, dimension }
+  }
+
+  private rememberEmbeddingDimension(model: string, dimension: number): void {
+    if (this.embeddingDimensions.get(model) === dimension) return
+    this.embeddingDimensions.set(model, dimension)
+    this.saveEmbeddingDimensions()
+  }
 
-    throw new LLMError('No embedding provider configured', 'NO_PROVIDER')
+  private saveEmbeddingDimensions(): void {
+    store.set('embeddingDimensions', Object.fromEntries(this.embeddingDimensions))
   }
 
   async chat(messages: ChatMessage[]): Promise<string> {
-    const provider = this.providers.get(this.activeChatProvider)
-    if (!provider) {
-      throw new LLMError('No chat provider configured', 'NO_PROVIDER')
-    }
-    return provider.chat(messages)
+    return this.resolve('chat').provider.chat(messages)
   }
 
+  // Without a vision provider frames are described from OCR and accessibility
+  // text. A selected provider counts even if it can't see, so frames fail with
+  // the reason instead of being stored without image analysis.
   hasVisionProvider(): boolean {
-    const provider = this.providers.get(this.activeVisionProvider)
-    return provider?.supportsVision ?? false
+    return this.selected.vision !== null || this.tryResolve('vision') !== null
   }
 
+  // True when a provider is selected for embeddings even if it can't embed,
+  // so frames fail with the reason instead of being stored unsearchable
   hasEmbeddingProvider(): boolean {
-    for (const [, p] of this.providers) {
-      if (p.supportsEmbeddings) return true
+    return this.selected.embedding !== null || this.tryResolve('embedding') !== null
+  }
+
+  // Until when frame analysis should wait because the vision or embedding
+  // provider is rate limiting us or down, or the daily budget is spent, or
+  // null to carry on. Re-embedding only needs the embedding provider.
+  getAnalysisPausedUntil(
+    capabilities: readonly Exclude<Capability, 'chat'>[] = ['vision', 'embedding']
+  ): number | null {
+    let pausedUntil: number | null = null
+    const budgetPausedUntil = usageLedger.getBudgetPausedUntil()
+    for (const capability of capabilities) {
+      const resolved = this.tryResolve(capability)
+      if (!resolved) continue
+      for (const until of [
+        llmRequests.getPausedUntil(resolved.type),
+        // Local models cost nothing, so the budget doesn't stop them
+        resolved.type === 'local' ? null : budgetPausedUntil
+      ]) {
+        if (until !== null && (pausedUntil === null || until > pausedUntil)) {
+          pausedUntil = until
+        }
+      }
     }
-    return false
+    return pausedUntil
   }
 
   getActiveProviders(): { vision: string | null; embedding: string | null; chat: string | null } {
     return {
-      vision: this.providers.get(this.activeVisionProvider)?.name ?? null,
-      embedding: this.providers.get(this.activeEmbeddingProvider)?.name ?? null,
-      chat: this.providers.get(this.activeChatProvider)?.name ?? null
+      vision: this.tryResolve('vision')?.provider.name ?? null,
+      embedding: this.tryResolve('embedding')?.provider.name ?? null,
+      chat: this.tryResolve('chat')?.provider.name ?? null
+    }
+  }
+
+  // Provider for a capability: the selected one, or without a selection the
+  // first configured provider that supports it and isn't excluded from it
+  private resolve(capability: Capability): { type: LLMProviderType; provider: LLMProvider } {
+    const label = CAPABILITY_LABELS[capability]
+    const selected = this.selected[capability]
+
+    if (selected) {
+      const provider = this.providers.get(selected)
+      if (!provider) {
+        throw new LLMError(`${PROVIDER_NAMES[selected]} is selected for ${label} but is not configured`, 'NO_PROVIDER')
+      }
+      if (!supports(provider, capability)) {
+        throw new LLMError(`${PROVIDER_NAMES[selected]} does not support ${label}`, 'UNSUPPORTED')
+      }
+      return { type: selected, provider }
+    }
+
+    for (const [type, provider] of this.providers) {
+      if (supports(provider, capability) && !EXCLUDED_FROM_AUTO[capability]?.includes(type)) {
+        return { type, provider }
+      }
+    }
+    throw new LLMError(`No ${label} provider configured`, 'NO_PROVIDER')
+  }
+
+  private tryResolve(capability: Capability): { type: LLMProviderType; provider: LLMProvider } | null {
+    try {
+      return this.resolve(capability)
+    } catch {
+      return null
     }
   }
 }
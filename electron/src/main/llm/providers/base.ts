@@ -4,6 +4,8 @@ export interface LLMProvider {
   name: string
   supportsVision: boolean
   supportsEmbeddings: boolean
+  // Model used by generateEmbedding; vectors from different models aren't comparable
+  embeddingModel: string
 
   analyzeImage(imageBuffer: Buffer, prompt: string): Promise<FrameAnalysis>
   generateEmbedding(text: string): Promise<number[]>
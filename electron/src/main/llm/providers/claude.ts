@@ -0,0 +1,131 @@
+import { LLMProvider, buildAnalysisPrompt, parseFrameAnalysis } from './base'
+import { FrameAnalysis, ChatMessage, LLMError } from '../types'
+import { llmRequests } from '../request'
+import { usageLedger, UsagePurpose } from '../../usage'
+
+// Claude may wrap JSON in prose or a code fence; keep the outermost object
+function extractJSONObject(text: string): string {
+  const start = text.indexOf('{')
+  const end = text.lastIndexOf('}')
+  return start >= 0 && end > start ? text.slice(start, end + 1) : text
+}
+
+export class ClaudeProvider implements LLMProvider {
+  name = 'Claude'
+  supportsVision = true
+  // Anthropic has no embeddings API
+  supportsEmbeddings = false
+  readonly embeddingModel = ''
+
+  private apiKey: string
+  private visionModel: string
+  private baseURL = 'https://api.anthropic.com/v1'
+
+  constructor(apiKey: string, visionModel: string = 'claude-sonnet-4-5') {
+    this.apiKey = apiKey
+    this.visionModel = visionModel
+  }
+
+  async analyzeImage(imageBuffer: Buffer, prompt: string): Promise<FrameAnalysis> {
+    const base64Image = imageBuffer.toString('base64')
+
+    const requestBody = {
+      model: this.visionModel,
+      max_tokens: 4096,
+      system: 'You analyze screenshots. Respond with a single JSON object and nothing else.',
+      messages: [
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'image',
+              source: {
+                type: 'base64',
+                media_type: 'image/jpeg',
+                data: base64Image
+              }
+            },
+            { type: 'text', text: buildAnalysisPrompt(prompt) }
+          ]
+        }
+      ]
+    }
+
+    const data = await this.createMessage(requestBody, 'vision', 'Claude API error')
+    const text = this.getText(data)
+
+    if (!text) {
+      throw new LLMError('Invalid response from Claude API', 'INVALID_RESPONSE')
+    }
+
+    return parseFrameAnalysis(extractJSONObject(text))
+  }
+
+  async generateEmbedding(_text: string): Promise<number[]> {
+    throw new LLMError('Claude does not support embeddings', 'UNSUPPORTED')
+  }
+
+  async chat(messages: ChatMessage[]): Promise<string> {
+    const system = messages
+      .filter((m) => m.role === 'system')
+      .map((m) => m.content)
+      .join('\n\n')
+
+    const requestBody = {
+      model: this.visionModel,
+      max_tokens: 4096,
+      ...(system ? { system } : {}),
+      messages: messages
+        .filter((m) => m.role !== 'system')
+        .map((m) => ({
+          role: m.role,
+          content: m.content
+        }))
+    }
+
+    const data = await this.createMessage(requestBody, 'chat', 'Claude chat request failed')
+    const text = this.getText(data)
+
+    if (!text) {
+      throw new LLMError('Invalid chat response', 'INVALID_RESPONSE')
+    }
+
+    return text
+  }
+
+  private async createMessage(requestBody: unknown, purpose: UsagePurpose, errorMessage: string): Promise<unknown> {
+    const response = await llmRequests.fetch('claude', `${this.baseURL}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify(requestBody)
+    })
+
+    if (!response.ok) {
+      const errorBody = await response.text()
+      throw new LLMError(`${errorMessage}: ${errorBody}`, 'API_ERROR', response.status)
+    }
+
+    const data = await response.json()
+    usageLedger.record({
+      provider: 'claude',
+      model: this.visionModel,
+      purpose,
+      inputTokens: data?.usage?.input_tokens ?? 0,
+      outputTokens: data?.usage?.output_tokens ?? 0,
+      images: purpose === 'vision' ? 1 : 0
+    })
+    return data
+  }
+
+  private getText(data: unknown): string {
+    const content = (data as { content?: Array<{ type: string; text?: string }> })?.content ?? []
+    return content
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text ?? '')
+      .join('')
+  }
+}
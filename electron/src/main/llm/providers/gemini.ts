@@ -1,5 +1,13 @@
 import { LLMProvider, buildAnalysisPrompt, parseFrameAnalysis } from './base'
 import { FrameAnalysis, ChatMessage, LLMError } from '../types'
+import { llmRequests } from '../request'
+import { usageLedger, estimateTokens, UsagePurpose } from '../../usage'
+
+interface GeminiUsageMetadata {
+  promptTokenCount?: number
+  candidatesTokenCount?: number
+  thoughtsTokenCount?: number
+}
 
 export class GeminiProvider implements LLMProvider {
   name = 'Gemini'
@@ -8,7 +16,7 @@ export class GeminiProvider implements LLMProvider {
 
   private apiKey: string
   private visionModel: string
-  private embeddingModel: string
+  readonly embeddingModel: string
   private baseURL = 'https://generativelanguage.googleapis.com/v1beta'
 
   constructor(
@@ -45,7 +53,7 @@ export class GeminiProvider implements LLMProvider {
 
     const url = `${this.baseURL}/models/${this.visionModel}:generateContent?key=${this.apiKey}`
 
-    const response = await fetch(url, {
+    const response = await llmRequests.fetch('gemini', url, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(requestBody)
@@ -63,6 +71,8 @@ export class GeminiProvider implements LLMProvider {
       throw new LLMError('Invalid response from Gemini API', 'INVALID_RESPONSE')
     }
 
+    this.recordUsage('vision', data?.usageMetadata, 1)
+
     return parseFrameAnalysis(text)
   }
 
@@ -76,7 +86,7 @@ export class GeminiProvider implements LLMProvider {
 
     const url = `${this.baseURL}/models/${this.embeddingModel}:embedContent?key=${this.apiKey}`
 
-    const response = await fetch(url, {
+    const response = await llmRequests.fetch('gemini', url, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(requestBody)
@@ -94,6 +104,15 @@ export class GeminiProvider implements LLMProvider {
       throw new LLMError('Invalid embedding response', 'INVALID_RESPONSE')
     }
 
+    // embedContent doesn't report token counts
+    usageLedger.record({
+      provider: 'gemini',
+      model: this.embeddingModel,
+      purpose: 'embedding',
+      inputTokens: estimateTokens(text),
+      outputTokens: 0
+    })
+
     return values
   }
 
@@ -107,7 +126,7 @@ export class GeminiProvider implements LLMProvider {
 
     const url = `${this.baseURL}/models/${this.visionModel}:generateContent?key=${this.apiKey}`
 
-    const response = await fetch(url, {
+    const response = await llmRequests.fetch('gemini', url, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(requestBody)
@@ -124,6 +143,19 @@ export class GeminiProvider implements LLMProvider {
       throw new LLMError('Invalid chat response', 'INVALID_RESPONSE')
     }
 
+    this.recordUsage('chat', data?.usageMetadata)
     return text
   }
+
+  private recordUsage(purpose: UsagePurpose, usage: GeminiUsageMetadata | undefined, images: number = 0): void {
+    usageLedger.record({
+      provider: 'gemini',
+      model: this.visionModel,
+      purpose,
+      inputTokens: usage?.promptTokenCount ?? 0,
+      // Thinking tokens are billed as output
+      outputTokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+      images
+    })
+  }
 }
@@ -0,0 +1,191 @@
+import { LLMProvider, buildAnalysisPrompt, parseFrameAnalysis } from './base'
+import { FrameAnalysis, ChatMessage, LLMError, LocalLLMSettings } from '../types'
+import { llmRequests } from '../request'
+import { usageLedger, UsagePurpose } from '../../usage'
+
+interface OpenAIUsage {
+  prompt_tokens?: number
+  completion_tokens?: number
+}
+
+function normalizeBaseURL(baseURL: string): string {
+  return baseURL.trim().replace(/\/+$/, '')
+}
+
+function buildHeaders(apiKey: string): Record<string, string> {
+  return apiKey
+    ? { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` }
+    : { 'Content-Type': 'application/json' }
+}
+
+// Models the server offers, from its /models endpoint
+export async function listLocalModels(baseURL: string, apiKey: string = ''): Promise<string[]> {
+  const response = await fetch(`${normalizeBaseURL(baseURL)}/models`, { headers: buildHeaders(apiKey) })
+
+  if (!response.ok) {
+    const errorBody = await response.text()
+    throw new LLMError(`Local model server error: ${errorBody}`, 'API_ERROR', response.status)
+  }
+
+  const data = await response.json()
+  if (!Array.isArray(data?.data)) {
+    throw new LLMError('Invalid model list from local model server', 'INVALID_RESPONSE')
+  }
+
+  return data.data
+    .map((model: { id?: unknown }) => model.id)
+    .filter((id: unknown): id is string => typeof id === 'string')
+    .sort()
+}
+
+/**
+ * Provider for OpenAI-compatible servers running locally, so Localbird works
+ * without cloud access. Each capability uses its own model and is only
+ * available when a model is selected for it.
+ */
+export class LocalProvider implements LLMProvider {
+  name = 'Local'
+  readonly supportsVision: boolean
+  readonly supportsEmbeddings: boolean
+  readonly embeddingModel: string
+
+  private apiKey: string
+  private baseURL: string
+  private visionModel: string
+  private chatModel: string
+
+  constructor(settings: LocalLLMSettings, apiKey: string = '') {
+    this.apiKey = apiKey
+    this.baseURL = normalizeBaseURL(settings.baseURL)
+    this.visionModel = settings.visionModel
+    this.embeddingModel = settings.embeddingModel
+    this.chatModel = settings.chatModel || settings.visionModel
+    this.supportsVision = !!settings.visionModel
+    this.supportsEmbeddings = !!settings.embeddingModel
+  }
+
+  async analyzeImage(imageBuffer: Buffer, prompt: string): Promise<FrameAnalysis> {
+    if (!this.visionModel) {
+      throw new LLMError('No local vision model selected', 'UNSUPPORTED')
+    }
+
+    const base64Image = imageBuffer.toString('base64')
+
+    const requestBody = {
+      model: this.visionModel,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: buildAnalysisPrompt(prompt) },
+            {
+              type: 'image_url',
+              image_url: {
+                url: `data:image/jpeg;base64,${base64Image}`
+              }
+            }
+          ]
+        }
+      ],
+      response_format: { type: 'json_object' }
+    }
+
+    const response = await llmRequests.fetch('local', `${this.baseURL}/chat/completions`, {
+      method: 'POST',
+      headers: buildHeaders(this.apiKey),
+      body: JSON.stringify(requestBody)
+    })
+
+    if (!response.ok) {
+      const errorBody = await response.text()
+      throw new LLMError(`Local model error: ${errorBody}`, 'API_ERROR', response.status)
+    }
+
+    const data = await response.json()
+    const text = data?.choices?.[0]?.message?.content
+
+    if (!text) {
+      throw new LLMError('Invalid response from local model', 'INVALID_RESPONSE')
+    }
+
+    this.recordUsage(this.visionModel, 'vision', data?.usage, 1)
+    return parseFrameAnalysis(text)
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    if (!this.embeddingModel) {
+      throw new LLMError('No local embedding model selected', 'UNSUPPORTED')
+    }
+
+    const requestBody = {
+      model: this.embeddingModel,
+      input: text
+    }
+
+    const response = await llmRequests.fetch('local', `${this.baseURL}/embeddings`, {
+      method: 'POST',
+      headers: buildHeaders(this.apiKey),
+      body: JSON.stringify(requestBody)
+    })
+
+    if (!response.ok) {
+      const errorBody = await response.text()
+      throw new LLMError(`Local embedding error: ${errorBody}`, 'API_ERROR', response.status)
+    }
+
+    const data = await response.json()
+    const values = data?.data?.[0]?.embedding
+
+    if (!Array.isArray(values) || values.length === 0) {
+      throw new LLMError('Invalid embedding response', 'INVALID_RESPONSE')
+    }
+
+    this.recordUsage(this.embeddingModel, 'embedding', data?.usage)
+    return values
+  }
+
+  async chat(messages: ChatMessage[]): Promise<string> {
+    if (!this.chatModel) {
+      throw new LLMError('No local chat model selected', 'UNSUPPORTED')
+    }
+
+    const requestBody = {
+      model: this.chatModel,
+      messages: messages.map((m) => ({
+        role: m.role,
+        content: m.content
+      }))
+    }
+
+    const response = await llmRequests.fetch('local', `${this.baseURL}/chat/completions`, {
+      method: 'POST',
+      headers: buildHeaders(this.apiKey),
+      body: JSON.stringify(requestBody)
+    })
+
+    if (!response.ok) {
+      throw new LLMError('Local chat request failed', 'API_ERROR', response.status)
+    }
+
+    const data = await response.json()
+    const text = data?.choices?.[0]?.message?.content
+
+    if (!text) {
+      throw new LLMError('Invalid chat response', 'INVALID_RESPONSE')
+    }
+
+    this.recordUsage(this.chatModel, 'chat', data?.usage)
+    return text
+  }
+
+  private recordUsage(model: string, purpose: UsagePurpose, usage: OpenAIUsage | undefined, images: number = 0): void {
+    usageLedger.record({
+      provider: 'local',
+      model,
+      purpose,
+      inputTokens: usage?.prompt_tokens ?? 0,
+      outputTokens: usage?.completion_tokens ?? 0,
+      images
+    })
+  }
+}
@@ -1,5 +1,12 @@
 import { LLMProvider, buildAnalysisPrompt, parseFrameAnalysis } from './base'
 import { FrameAnalysis, ChatMessage, LLMError } from '../types'
+import { llmRequests } from '../request'
+import { usageLedger, UsagePurpose } from '../../usage'
+
+interface OpenAIUsage {
+  prompt_tokens?: number
+  completion_tokens?: number
+}
 
 export class OpenAIProvider implements LLMProvider {
   name = 'OpenAI'
@@ -8,7 +15,7 @@ export class OpenAIProvider implements LLMProvider {
 
   private apiKey: string
   private visionModel: string
-  private embeddingModel: string
+  readonly embeddingModel: string
   private baseURL = 'https://api.openai.com/v1'
 
   constructor(
@@ -43,7 +50,7 @@ export class OpenAIProvider implements LLMProvider {
       response_format: { type: 'json_object' }
     }
 
-    const response = await fetch(`${this.baseURL}/chat/completions`, {
+    const response = await llmRequests.fetch('openai', `${this.baseURL}/chat/completions`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -64,6 +71,7 @@ export class OpenAIProvider implements LLMProvider {
       throw new LLMError('Invalid response from OpenAI API', 'INVALID_RESPONSE')
     }
 
+    this.recordUsage(this.visionModel, 'vision', data?.usage, 1)
     return parseFrameAnalysis(text)
   }
 
@@ -73,7 +81,7 @@ export class OpenAIProvider implements LLMProvider {
       input: text
     }
 
-    const response = await fetch(`${this.baseURL}/embeddings`, {
+    const response = await llmRequests.fetch('openai', `${this.baseURL}/embeddings`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -94,6 +102,7 @@ export class OpenAIProvider implements LLMProvider {
       throw new LLMError('Invalid embedding response', 'INVALID_RESPONSE')
     }
 
+    this.recordUsage(this.embeddingModel, 'embedding', data?.usage)
     return values
   }
 
@@ -106,7 +115,7 @@ export class OpenAIProvider implements LLMProvider {
       }))
     }
 
-    const response = await fetch(`${this.baseURL}/chat/completions`, {
+    const response = await llmRequests.fetch('openai', `${this.baseURL}/chat/completions`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -126,6 +135,18 @@ export class OpenAIProvider implements LLMProvider {
       throw new LLMError('Invalid chat response', 'INVALID_RESPONSE')
     }
 
+    this.recordUsage(this.visionModel, 'chat', data?.usage)
     return text
   }
+
+  private recordUsage(model: string, purpose: UsagePurpose, usage: OpenAIUsage | undefined, images: number = 0): void {
+    usageLedger.record({
+      provider: 'openai',
+      model,
+      purpose,
+      inputTokens: usage?.prompt_tokens ?? 0,
+      outputTokens: usage?.completion_tokens ?? 0,
+      images
+    })
+  }
 }
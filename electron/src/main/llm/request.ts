@@ -0,0 +1,264 @@
+import { LLMError, LLMProviderType } from './types'
+
+// Requests per minute each provider may make, with a burst allowance
+interface RateLimit {
+  requestsPerMinute: number
+  burst: number
+}
+
+const RATE_LIMITS: Record<LLMProviderType, RateLimit | null> = {
+  gemini: { requestsPerMinute: 60, burst: 10 },
+  openai: { requestsPerMinute: 60, burst: 10 },
+  claude: { requestsPerMinute: 50, burst: 5 },
+  // A local server is only limited by its own hardware
+  local: null
+}
+
+const PROVIDER_NAMES: Record<LLMProviderType, string> = {
+  gemini: 'Gemini',
+  claude: 'Claude',
+  openai: 'OpenAI',
+  local: 'Local model server'
+}
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504, 529])
+const MAX_RETRIES = 3
+const BASE_RETRY_DELAY_MS = 1000
+// Longer Retry-After waits open the circuit instead of holding the request
+const MAX_RETRY_WAIT_MS = 60 * 1000
+
+// Consecutive failed requests (after retries) that count as an outage
+const FAILURE_THRESHOLD = 3
+const BASE_COOLDOWN_MS = 30 * 1000
+const MAX_COOLDOWN_MS = 10 * 60 * 1000
+
+// closed: requests flow; open: requests fail fast until resumeAt;
+// half-open: cooldown is over and the next result decides
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface ProviderRequestStatus {
+  provider: LLMProviderType
+  name: string
+  state: CircuitState
+  reason: 'rate-limited' | 'outage' | null
+  resumeAt: number | null
+  consecutiveFailures: number
+  lastError: string | null
+}
+
+export type ProviderStatusListener = (status: ProviderRequestStatus[]) => void
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Delay requested by Retry-After (seconds or an HTTP date) or OpenAI's retry-after-ms
+function parseRetryAfter(headers: Headers): number | null {
+  const ms = Number(headers.get('retry-after-ms'))
+  if (ms > 0) return ms
+
+  const value = headers.get('retry-after')
+  if (!value) return null
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) return Math.max(seconds * 1000, 0)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0)
+}
+
+function backoffDelay(attempt: number): number {
+  const delay = BASE_RETRY_DELAY_MS * 2 ** attempt
+  return delay / 2 + Math.random() * (delay / 2)
+}
+
+class TokenBucket {
+  private tokens: number
+  private updatedAt = Date.now()
+
+  constructor(private limit: RateLimit) {
+    this.tokens = limit.burst
+  }
+
+  // Wait for a token
+  async take(): Promise<void> {
+    for (;;) {
+      const now = Date.now()
+      const refillPerMs = this.limit.requestsPerMinute / 60000
+      this.tokens = Math.min(this.limit.burst, this.tokens + (now - this.updatedAt) * refillPerMs)
+      this.updatedAt = now
+
+      if (this.tokens >= 1) {
+        this.tokens -= 1
+        return
+      }
+      await sleep(Math.ceil((1 - this.tokens) / refillPerMs))
+    }
+  }
+}
+
+interface Circuit {
+  state: CircuitState
+  reason: ProviderRequestStatus['reason']
+  resumeAt: number | null
+  consecutiveFailures: number
+  cooldownMs: number
+  lastError: string | null
+}
+
+/**
+ * Shared request layer for LLM providers: per-provider token bucket rate
+ * limits, retries of 429/5xx and network errors honoring Retry-After, and a
+ * circuit breaker that fails fast while a provider is rate limiting us or down.
+ */
+export class LLMRequests {
+  private buckets: Map<LLMProviderType, TokenBucket> = new Map()
+  private circuits: Map<LLMProviderType, Circuit> = new Map()
+  private listener: ProviderStatusListener | null = null
+
+  setStatusListener(listener: ProviderStatusListener | null): void {
+    this.listener = listener
+  }
+
+  // fetch() for a provider. Resolves with the final response, which may still
+  // be an error for the provider to report; throws LLMError when the circuit
+  // is open or the network stays unreachable.
+  async fetch(provider: LLMProviderType, url: string, init: RequestInit): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      this.checkCircuit(provider)
+      await this.getBucket(provider)?.take()
+
+      let response: Response
+      try {
+        response = await fetch(url, init)
+      } catch (error) {
+        if (init.signal?.aborted) throw error
+        const message = error instanceof Error ? error.message : String(error)
+        if (attempt < MAX_RETRIES) {
+          await sleep(backoffDelay(attempt))
+          continue
+        }
+        this.recordFailure(provider, 'outage', message, null)
+        throw new LLMError(`${PROVIDER_NAMES[provider]} unreachable: ${message}`, 'NETWORK_ERROR')
+      }
+
+      if (!RETRYABLE_STATUSES.has(response.status)) {
+        // Success, or an error retrying won't fix; either way the provider is up
+        this.recordSuccess(provider)
+        return response
+      }
+
+      const retryAfter = parseRetryAfter(response.headers)
+      const reason = response.status === 429 ? 'rate-limited' : 'outage'
+      if (attempt < MAX_RETRIES && (retryAfter === null || retryAfter <= MAX_RETRY_WAIT_MS)) {
+        await response.body?.cancel()
+        await sleep(retryAfter ?? backoffDelay(attempt))
+        continue
+      }
+
+      this.recordFailure(provider, reason, `HTTP ${response.status}`, retryAfter)
+      return response
+    }
+  }
+
+  // When a provider's circuit will let requests through again, or null if it does now
+  getPausedUntil(provider: LLMProviderType): number | null {
+    const circuit = this.circuits.get(provider)
+    if (circuit?.state !== 'open' || circuit.resumeAt === null) return null
+    return circuit.resumeAt > Date.now() ? circuit.resumeAt : null
+  }
+
+  getStatus(): ProviderRequestStatus[] {
+    return [...this.circuits.entries()].map(([provider, circuit]) => ({
+      provider,
+      name: PROVIDER_NAMES[provider],
+      state: circuit.state === 'open' && !this.getPausedUntil(provider) ? 'half-open' : circuit.state,
+      reason: circuit.reason,
+      resumeAt: circuit.resumeAt,
+      consecutiveFailures: circuit.consecutiveFailures,
+      lastError: circuit.lastError
+    }))
+  }
+
+  private checkCircuit(provider: LLMProviderType): void {
+    const circuit = this.circuits.get(provider)
+    if (!circuit || circuit.state !== 'open') return
+
+    const pausedUntil = this.getPausedUntil(provider)
+    if (pausedUntil === null) {
+      circuit.state = 'half-open'
+      this.notify()
+      return
+    }
+    const reason = circuit.reason === 'rate-limited' ? 'rate limited' : 'unavailable'
+    throw new LLMError(
+      `${PROVIDER_NAMES[provider]} ${reason}, paused until ${new Date(pausedUntil).toLocaleTimeString()}`,
+      'CIRCUIT_OPEN'
+    )
+  }
+
+  private recordSuccess(provider: LLMProviderType): void {
+    const circuit = this.circuits.get(provider)
+    if (!circuit || (circuit.state === 'closed' && circuit.consecutiveFailures === 0)) return
+
+    if (circuit.state !== 'closed') {
+      console.log(`[LLMRequests] ${PROVIDER_NAMES[provider]} recovered`)
+    }
+    this.circuits.set(provider, this.closedCircuit())
+    this.notify()
+  }
+
+  private recordFailure(
+    provider: LLMProviderType,
+    reason: 'rate-limited' | 'outage',
+    error: string,
+    retryAfter: number | null
+  ): void {
+    const circuit = this.circuits.get(provider) ?? this.closedCircuit()
+    circuit.consecutiveFailures++
+    circuit.lastError = error
+
+    // A failed probe reopens with a longer cooldown; being rate limited opens
+    // at once; otherwise open after repeated failures
+    if (circuit.state === 'half-open' || reason === 'rate-limited' || circuit.consecutiveFailures >= FAILURE_THRESHOLD) {
+      if (circuit.state === 'half-open') {
+        circuit.cooldownMs = Math.min(circuit.cooldownMs * 2, MAX_COOLDOWN_MS)
+      }
+      circuit.state = 'open'
+      circuit.reason = reason
+      circuit.resumeAt = Date.now() + (retryAfter ?? circuit.cooldownMs)
+      console.warn(
+        `[LLMRequests] ${PROVIDER_NAMES[provider]} ${reason === 'rate-limited' ? 'rate limited' : 'unavailable'}, pausing until ${new Date(circuit.resumeAt).toLocaleTimeString()}`
+      )
+    }
+
+    this.circuits.set(provider, circuit)
+    this.notify()
+  }
+
+  private closedCircuit(): Circuit {
+    return {
+      state: 'closed',
+      reason: null,
+      resumeAt: null,
+      consecutiveFailures: 0,
+      cooldownMs: BASE_COOLDOWN_MS,
+      lastError: null
+    }
+  }
+
+  private getBucket(provider: LLMProviderType): TokenBucket | null {
+    const limit = RATE_LIMITS[provider]
+    if (!limit) return null
+
+    let bucket = this.buckets.get(provider)
+    if (!bucket) {
+      bucket = new TokenBucket(limit)
+      this.buckets.set(provider, bucket)
+    }
+    return bucket
+  }
+
+  private notify(): void {
+    this.listener?.(this.getStatus())
+  }
+}
+
+// Singleton instance
+export const llmRequests = new LLMRequests()
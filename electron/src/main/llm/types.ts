@@ -12,15 +12,43 @@ export interface ChatMessage {
   content: string
 }
 
-export type LLMProviderType = 'gemini' | 'claude' | 'openai'
+export type LLMProviderType = 'gemini' | 'claude' | 'openai' | 'local'
+
+// An OpenAI-compatible server on the user's machine or network (Ollama,
+// llama.cpp server, vLLM). Empty model names disable that capability.
+export interface LocalLLMSettings {
+  // Including the API version, e.g. http://localhost:11434/v1
+  baseURL: string
+  visionModel: string
+  embeddingModel: string
+  chatModel: string
+}
+
+export const DEFAULT_LOCAL_LLM_SETTINGS: LocalLLMSettings = {
+  baseURL: '',
+  visionModel: '',
+  embeddingModel: '',
+  chatModel: ''
+}
 
 export interface LLMProviderConfig {
   geminiAPIKey?: string
   claudeAPIKey?: string
   openaiAPIKey?: string
-  activeVisionProvider?: LLMProviderType
-  activeEmbeddingProvider?: LLMProviderType
-  activeChatProvider?: LLMProviderType
+  // Optional; most local servers don't check it
+  localAPIKey?: string
+  localLLM?: LocalLLMSettings
+  // Unset or 'auto' picks the first configured provider with the capability
+  activeVisionProvider?: LLMProviderType | 'auto'
+  activeEmbeddingProvider?: LLMProviderType | 'auto'
+  activeChatProvider?: LLMProviderType | 'auto'
+}
+
+// An embedding model and the size of the vectors it produces
+export interface EmbeddingModelInfo {
+  // Provider-qualified model id, e.g. 'openai/text-embedding-3-small'
+  model: string
+  dimension: number
 }
 
 export class LLMError extends Error {
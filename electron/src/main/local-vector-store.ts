@@ -0,0 +1,527 @@
+import { app } from 'electron'
+import path from 'path'
+import fs from 'fs/promises'
+import { createReadStream } from 'fs'
+import readline from 'readline'
+import { buildDocumentSparseVector, buildQuerySparseVector } from './sparse-vectors'
+import { buildFramePage, decodeCursor } from './scan-cursor'
+import { matchesTextFilter } from './text-filter'
+import { encryption, isEncryptedString } from './encryption'
+import type {
+  CollectionInfo,
+  EmbeddingSpace,
+  FrameFilter,
+  FramePage,
+  ProcessedFrame,
+  ScrollPageOptions,
+  SearchResult,
+  StoredFrame,
+  VectorStore
+} from './vector-store'
+
+// One line of the append-only log
+type LogRecord =
+  | { op: 'upsert'; frame: StoredFrame; vector: number[] }
+  | { op: 'extend'; id: string; lastSeenAt: number; duplicateCount: number }
+  | { op: 'delete'; ids: string[] }
+
+interface LocalPoint {
+  frame: StoredFrame
+  vector: number[]
+  // Unit-length copy of the vector, so cosine similarity is a dot product
+  unit: Float32Array
+  keywords: Map<number, number>
+}
+
+// Rank constant for Reciprocal Rank Fusion
+const RRF_K = 60
+
+// Compact the log once it holds this many more records than live points
+const COMPACT_SLACK = 500
+
+function normalize(vector: number[]): Float32Array {
+  let norm = 0
+  for (const v of vector) norm += v * v
+  norm = Math.sqrt(norm) || 1
+  return Float32Array.from(vector, (v) => v / norm)
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i]
+  return sum
+}
+
+function keywordText(frame: StoredFrame): string {
+  return [
+    frame.summary,
+    frame.activeApplication,
+    frame.userActivity,
+    frame.appName,
+    frame.windowTitle,
+    ...frame.visibleText,
+    ...frame.ocrLines.map((line) => line.text)
+  ]
+    .filter(Boolean)
+    .join('\n')
+}
+
+// Each log line is encrypted on its own so records can still be appended
+function sealRecord(record: LogRecord): string {
+  return encryption.encryptString(JSON.stringify(record)) + '\n'
+}
+
+function openRecord(line: string): LogRecord {
+  return JSON.parse(encryption.decryptString(line))
+}
+
+function matchesFilter(frame: StoredFrame, filter?: FrameFilter): boolean {
+  if (!filter) return true
+
+  if (filter.appName && !matchesTextFilter(frame.appName, filter.appName) && !matchesTextFilter(frame.activeApplication, filter.appName)) {
+    return false
+  }
+  if (filter.appBundleId && frame.appBundleId !== filter.appBundleId) return false
+  if (filter.windowTitle && !matchesTextFilter(frame.windowTitle, filter.windowTitle)) return false
+  if (filter.captureTrigger) {
+    const triggers = Array.isArray(filter.captureTrigger) ? filter.captureTrigger : [filter.captureTrigger]
+    if (!triggers.includes(frame.captureTrigger)) return false
+  }
+  if (filter.startTime && frame.timestamp < filter.startTime.getTime() / 1000) return false
+  if (filter.endTime && frame.timestamp > filter.endTime.getTime() / 1000) return false
+
+  return true
+}
+
+/**
+ * In-process vector store for machines where Qdrant can't run. Points live in
+ * memory and are persisted as an append-only log of encrypted JSON records in
+ * `<userData>/vector-store/<collection>`; searches are brute-force cosine similarity plus
+ * BM25 keyword scoring, which stays fast for a personal capture history.
+ */
+export class LocalVectorStore implements VectorStore {
+  private storeDir: string
+  private logPath: string
+  private metaPath: string
+  private points: Map<string, LocalPoint> = new Map()
+  // Number of points containing each keyword, for IDF
+  private documentFrequency: Map<number, number> = new Map()
+  private space: EmbeddingSpace | null = null
+  private logRecords = 0
+  private loading: Promise<void> | null = null
+  private writeChain: Promise<void> = Promise.resolve()
+
+  constructor(collection = 'localbird_frames') {
+    this.storeDir = path.join(app.getPath('userData'), 'vector-store', collection)
+    this.logPath = path.join(this.storeDir, 'frames.jsonl')
+    this.metaPath = path.join(this.storeDir, 'meta.json')
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.ensureLoaded()
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  async ensureCollection(space: EmbeddingSpace): Promise<void> {
+    await this.ensureLoaded()
+    if (this.space) return
+
+    this.space = space
+    await fs.writeFile(this.metaPath, JSON.stringify(space))
+    console.log(`[LocalVectorStore] Store created at ${this.storeDir} for ${space.model} (${space.dimension} dimensions)`)
+  }
+
+  async getEmbeddingSpace(): Promise<EmbeddingSpace | null> {
+    await this.ensureLoaded()
+    return this.space
+  }
+
+  async deleteCollection(): Promise<void> {
+    await this.writeChain
+    await fs.rm(this.storeDir, { recursive: true, force: true })
+    this.points.clear()
+    this.documentFrequency.clear()
+    this.space = null
+    this.logRecords = 0
+    this.loading = null
+    console.log(`[LocalVectorStore] Deleted ${this.storeDir}`)
+  }
+
+  supportsKeywordSearch(): boolean {
+    return true
+  }
+
+  async supportsSemanticSearch(): Promise<boolean> {
+    return true
+  }
+
+  async upsertFrame(frame: ProcessedFrame): Promise<void> {
+    await this.ensureLoaded()
+    if (!this.space) {
+      throw new Error('Failed to upsert frame: collection does not exist')
+    }
+    if (frame.embedding.length !== this.space.dimension) {
+      throw new Error(
+        `Failed to upsert frame: expected ${this.space.dimension}-dimension vector, got ${frame.embedding.length}`
+      )
+    }
+
+    const { embedding, ...fields } = frame
+    const record: LogRecord = {
+      op: 'upsert',
+      frame: {
+        ...fields,
+        lastSeenAt: frame.lastSeenAt ?? frame.timestamp,
+        duplicateCount: frame.duplicateCount ?? 0
+      },
+      vector: embedding
+    }
+    this.apply(record)
+    await this.append(record)
+  }
+
+  async extendFrame(id: string, lastSeenAt: number, duplicateCount: number): Promise<void> {
+    await this.ensureLoaded()
+    if (!this.points.has(id)) {
+      throw new Error(`Failed to extend frame: ${id} not found`)
+    }
+
+    const record: LogRecord = { op: 'extend', id, lastSeenAt, duplicateCount }
+    this.apply(record)
+    await this.append(record)
+  }
+
+  async deleteFrames(ids: string[]): Promise<void> {
+    await this.ensureLoaded()
+    const present = ids.filter((id) => this.points.has(id))
+    if (present.length === 0) return
+
+    const record: LogRecord = { op: 'delete', ids: present }
+    this.apply(record)
+    await this.append(record)
+  }
+
+  async search(embedding: number[], limit = 10, scoreThreshold = 0.3, filter?: FrameFilter): Promise<SearchResult[]> {
+    await this.ensureLoaded()
+    return this.rankDense(embedding, limit, filter)
+      .filter(({ score }) => score >= scoreThreshold)
+      .map(({ point, score }) => this.toSearchResult(point, score))
+  }
+
+  /**
+   * Keyword and semantic candidates fused with Reciprocal Rank Fusion, matching
+   * the Qdrant client's hybrid search. Pass a null embedding for keyword-only search.
+   */
+  async hybridSearch(
+    queryText: string,
+    embedding: number[] | null,
+    limit = 10,
+    filter?: FrameFilter
+  ): Promise<SearchResult[]> {
+    await this.ensureLoaded()
+    const keywordHits = this.rankKeywords(queryText, limit * 4, filter)
+
+    if (!embedding) {
+      return keywordHits.slice(0, limit).map(({ point, score }) => this.toSearchResult(point, score))
+    }
+    if (keywordHits.length === 0) {
+      return this.search(embedding, limit, undefined, filter)
+    }
+
+    const fused = new Map<string, { point: LocalPoint; score: number }>()
+    for (const ranking of [this.rankDense(embedding, limit * 4, filter), keywordHits]) {
+      ranking.forEach(({ point }, rank) => {
+        const entry = fused.get(point.frame.id) || { point, score: 0 }
+        entry.score += 1 / (RRF_K + rank + 1)
+        fused.set(point.frame.id, entry)
+      })
+    }
+
+    return [...fused.values()]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ point, score }) => this.toSearchResult(point, score))
+  }
+
+  async searchByTimeRange(start: Date, end: Date, limit = 100, filter?: FrameFilter): Promise<SearchResult[]> {
+    return this.scrollFrames({ ...filter, startTime: start, endTime: end }, limit)
+  }
+
+  async scrollFrames(filter: FrameFilter, limit = 100, order: 'asc' | 'desc' = 'asc'): Promise<SearchResult[]> {
+    await this.ensureLoaded()
+    return this.sortedFrames(filter, order)
+      .slice(0, limit)
+      .map((point) => this.toSearchResult(point, 1.0))
+  }
+
+  async scrollPage(filter: FrameFilter, options: ScrollPageOptions = {}): Promise<FramePage> {
+    await this.ensureLoaded()
+    const { limit = 100, cursor, order = 'asc' } = options
+    const position = cursor ? decodeCursor(cursor) : null
+    const skipIds = new Set(position?.ids ?? [])
+
+    const candidates: SearchResult[] = []
+    for (const point of this.sortedFrames(filter, order)) {
+      if (position) {
+        const { timestamp, id } = point.frame
+        const beforeCursor = order === 'asc' ? timestamp < position.t : timestamp > position.t
+        if (beforeCursor || (timestamp === position.t && skipIds.has(id))) continue
+      }
+      candidates.push(this.toSearchResult(point, 1.0))
+      if (candidates.length > limit) break
+    }
+
+    return buildFramePage(candidates, limit, position)
+  }
+
+  async *iterateFrames(
+    filter: FrameFilter,
+    options: { order?: 'asc' | 'desc'; pageSize?: number } = {}
+  ): AsyncGenerator<SearchResult> {
+    const { order = 'asc', pageSize = 256 } = options
+    let cursor: string | null = null
+
+    do {
+      const page: FramePage = await this.scrollPage(filter, { limit: pageSize, cursor, order })
+      yield* page.frames
+      cursor = page.nextCursor
+    } while (cursor)
+  }
+
+  async getCollectionInfo(): Promise<CollectionInfo | null> {
+    try {
+      await this.ensureLoaded()
+    } catch {
+      return null
+    }
+    return {
+      name: 'local',
+      pointsCount: this.points.size,
+      vectorsCount: this.points.size
+    }
+  }
+
+  async getRecentFrames(limit = 50): Promise<SearchResult[]> {
+    const now = new Date()
+    const dayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000)
+    const page = await this.scrollPage({ startTime: dayAgo, endTime: now }, { limit, order: 'desc' })
+    return page.frames
+  }
+
+  async hasFrame(id: string): Promise<boolean> {
+    await this.ensureLoaded()
+    return this.points.has(id)
+  }
+
+  async getFrame(id: string): Promise<StoredFrame | null> {
+    await this.ensureLoaded()
+    const point = this.points.get(id)
+    return point ? { ...point.frame } : null
+  }
+
+  async *iterateStoredFrames(options: { withEmbeddings?: boolean } = {}): AsyncGenerator<StoredFrame & { embedding?: number[] }> {
+    await this.ensureLoaded()
+    for (const point of [...this.points.values()]) {
+      yield options.withEmbeddings ? { ...point.frame, embedding: [...point.vector] } : { ...point.frame }
+    }
+  }
+
+  private rankDense(embedding: number[], limit: number, filter?: FrameFilter): Array<{ point: LocalPoint; score: number }> {
+    const query = normalize(embedding)
+    const hits: Array<{ point: LocalPoint; score: number }> = []
+    for (const point of this.points.values()) {
+      if (point.unit.length !== query.length || !matchesFilter(point.frame, filter)) continue
+      hits.push({ point, score: dot(query, point.unit) })
+    }
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit)
+  }
+
+  // BM25: document vectors carry the term-frequency part, IDF is applied here
+  private rankKeywords(queryText: string, limit: number, filter?: FrameFilter): Array<{ point: LocalPoint; score: number }> {
+    const query = buildQuerySparseVector(queryText)
+    if (query.indices.length === 0) return []
+
+    const total = this.points.size
+    const idf = query.indices.map((index) => {
+      const n = this.documentFrequency.get(index) || 0
+      return Math.log(1 + (total - n + 0.5) / (n + 0.5))
+    })
+
+    const hits: Array<{ point: LocalPoint; score: number }> = []
+    for (const point of this.points.values()) {
+      let score = 0
+      query.indices.forEach((index, i) => {
+        score += (point.keywords.get(index) || 0) * idf[i]
+      })
+      if (score > 0 && matchesFilter(point.frame, filter)) {
+        hits.push({ point, score })
+      }
+    }
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit)
+  }
+
+  private sortedFrames(filter: FrameFilter, order: 'asc' | 'desc'): LocalPoint[] {
+    const direction = order === 'asc' ? 1 : -1
+    return [...this.points.values()]
+      .filter((point) => matchesFilter(point.frame, filter))
+      .sort((a, b) => direction * (a.frame.timestamp - b.frame.timestamp))
+  }
+
+  private apply(record: LogRecord): void {
+    if (record.op === 'extend') {
+      const point = this.points.get(record.id)
+      if (point) {
+        point.frame.lastSeenAt = record.lastSeenAt
+        point.frame.duplicateCount = record.duplicateCount
+      }
+      return
+    }
+    if (record.op === 'delete') {
+      for (const id of record.ids) {
+        this.removeKeywords(this.points.get(id))
+        this.points.delete(id)
+      }
+      return
+    }
+
+    this.removeKeywords(this.points.get(record.frame.id))
+    // Records logged before OCR, redaction and privacy actions lack those fields
+    const frame: StoredFrame = {
+      ...record.frame,
+      ocrLines: record.frame.ocrLines ?? [],
+      redactions: record.frame.redactions ?? {},
+      privacyAction: record.frame.privacyAction ?? null
+    }
+    const sparse = buildDocumentSparseVector(keywordText(frame))
+    const point: LocalPoint = {
+      frame,
+      vector: record.vector,
+      unit: normalize(record.vector),
+      keywords: new Map(sparse.indices.map((index, i) => [index, sparse.values[i]]))
+    }
+    for (const index of point.keywords.keys()) {
+      this.documentFrequency.set(index, (this.documentFrequency.get(index) || 0) + 1)
+    }
+    this.points.set(record.frame.id, point)
+  }
+
+  private removeKeywords(point: LocalPoint | undefined): void {
+    if (!point) return
+    for (const index of point.keywords.keys()) {
+      const n = (this.documentFrequency.get(index) || 1) - 1
+      if (n > 0) {
+        this.documentFrequency.set(index, n)
+      } else {
+        this.documentFrequency.delete(index)
+      }
+    }
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load().catch((error) => {
+        this.loading = null
+        throw error
+      })
+    }
+    return this.loading
+  }
+
+  private async load(): Promise<void> {
+    // Encrypted records would otherwise be skipped as unreadable
+    if (!encryption.isReady()) {
+      throw new Error('Encrypted data is locked')
+    }
+    await fs.mkdir(this.storeDir, { recursive: true })
+
+    try {
+      const meta = JSON.parse(await fs.readFile(this.metaPath, 'utf-8'))
+      this.space = typeof meta.dimension === 'number' ? { model: meta.model ?? null, dimension: meta.dimension } : null
+    } catch {
+      this.space = null
+    }
+
+    this.points.clear()
+    this.documentFrequency.clear()
+    this.logRecords = 0
+    let plaintextRecords = 0
+
+    try {
+      const lines = readline.createInterface({ input: createReadStream(this.logPath), crlfDelay: Infinity })
+      for await (const line of lines) {
+        if (!line.trim()) continue
+        try {
+          this.apply(openRecord(line))
+          this.logRecords++
+          if (!isEncryptedString(line)) plaintextRecords++
+        } catch {
+          // A crash mid-append can leave a torn last line; skip it
+          console.warn('[LocalVectorStore] Skipping unreadable log record')
+        }
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+    }
+
+    console.log(`[LocalVectorStore] Loaded ${this.points.size} frame(s)`)
+
+    // Compacting also encrypts records written before encryption at rest
+    if (plaintextRecords > 0 || this.logRecords > this.points.size + COMPACT_SLACK) {
+      await this.compact()
+    }
+  }
+
+  // Serialize appends so records land in the order they were applied
+  private append(record: LogRecord): Promise<void> {
+    const write = this.writeChain.then(async () => {
+      await fs.appendFile(this.logPath, sealRecord(record))
+      this.logRecords++
+      if (this.logRecords > this.points.size + COMPACT_SLACK) {
+        await this.compact()
+      }
+    })
+    this.writeChain = write.catch(() => {})
+    return write
+  }
+
+  // Rewrite the log with one upsert per live point, via a temp file and rename
+  private async compact(): Promise<void> {
+    const tmpPath = `${this.logPath}.tmp`
+    const handle = await fs.open(tmpPath, 'w')
+    try {
+      for (const point of this.points.values()) {
+        const record: LogRecord = { op: 'upsert', frame: point.frame, vector: point.vector }
+        await handle.write(sealRecord(record))
+      }
+    } finally {
+      await handle.close()
+    }
+    await fs.rename(tmpPath, this.logPath)
+    this.logRecords = this.points.size
+    console.log(`[LocalVectorStore] Compacted log to ${this.points.size} record(s)`)
+  }
+
+  private toSearchResult(point: LocalPoint, score: number): SearchResult {
+    const { frame } = point
+    return {
+      id: frame.id,
+      score,
+      timestamp: frame.timestamp,
+      summary: frame.summary,
+      activeApplication: frame.activeApplication || null,
+      userActivity: frame.userActivity || null,
+      captureTrigger: frame.captureTrigger || null,
+      appBundleId: frame.appBundleId || null,
+      appName: frame.appName || null,
+      windowTitle: frame.windowTitle || null,
+      lastSeenAt: frame.lastSeenAt || null,
+      duplicateCount: frame.duplicateCount || 0
+    }
+  }
+}
+
+export const localVectorStore = new LocalVectorStore()
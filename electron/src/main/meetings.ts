@@ -0,0 +1,129 @@
+import { app } from 'electron'
+import path from 'path'
+import fs from 'fs/promises'
+import { encryption } from './encryption'
+import { nativeBridge, MeetingListItem, MeetingNote } from './native-bridge'
+
+// Transcript characters shown in meeting lists
+const PREVIEW_LENGTH = 100
+
+// Meeting ids are UUIDs from the native service; anything else could point outside the store
+const MEETING_ID_PATTERN = /^[A-Za-z0-9-]+$/
+
+/**
+ * Encrypted storage for finished meetings. The native service records and
+ * transcribes a meeting, then it is moved here: the note and its audio are
+ * encrypted under `<userData>/meetings` and the native service's plaintext
+ * copy is deleted.
+ */
+export class MeetingStore {
+  private meetingsDir: string
+
+  constructor() {
+    this.meetingsDir = path.join(app.getPath('userData'), 'meetings')
+  }
+
+  // Take over a meeting from the native service. Safe to repeat if the
+  // native copy couldn't be deleted the first time.
+  async adopt(meeting: MeetingNote): Promise<MeetingNote> {
+    if (!MEETING_ID_PATTERN.test(meeting.id)) {
+      throw new Error(`Invalid meeting id: ${meeting.id}`)
+    }
+    await fs.mkdir(this.meetingsDir, { recursive: true })
+
+    let audioPath: string | null = null
+    if (meeting.audioPath) {
+      audioPath = path.join(this.meetingsDir, `${meeting.id}${path.extname(meeting.audioPath)}`)
+      try {
+        await this.writeFile(audioPath, await fs.readFile(meeting.audioPath))
+      } catch (error) {
+        // Recording failed or the file was removed; keep the transcript
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+        audioPath = null
+      }
+    }
+
+    const stored: MeetingNote = { ...meeting, audioPath }
+    await this.writeFile(this.notePath(meeting.id), JSON.stringify(stored))
+
+    // Removes the native transcript, audio file and search entry
+    await nativeBridge.deleteMeeting(meeting.id)
+    console.log(`[MeetingStore] Stored meeting ${meeting.id}`)
+    return stored
+  }
+
+  // Move meetings the native service still holds: recorded before meetings
+  // were encrypted, or left behind when moving them failed
+  async adoptNativeMeetings(): Promise<void> {
+    for (const item of await nativeBridge.getMeetings()) {
+      try {
+        const meeting = await nativeBridge.getMeeting(item.id)
+        if (meeting) await this.adopt(meeting)
+      } catch (error) {
+        console.error(`[MeetingStore] Failed to move meeting ${item.id}:`, error)
+      }
+    }
+  }
+
+  // Newest first
+  async list(): Promise<MeetingListItem[]> {
+    let files: string[]
+    try {
+      files = await fs.readdir(this.meetingsDir)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+      throw error
+    }
+
+    const items: MeetingListItem[] = []
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue
+      const meeting = await this.get(path.basename(file, '.json'))
+      if (!meeting) continue
+      items.push({
+        id: meeting.id,
+        title: meeting.title,
+        startTime: meeting.startTime,
+        endTime: meeting.endTime,
+        duration: meeting.duration,
+        transcriptPreview: meeting.transcript.slice(0, PREVIEW_LENGTH)
+      })
+    }
+    return items.sort((a, b) => b.startTime - a.startTime)
+  }
+
+  async get(id: string): Promise<MeetingNote | null> {
+    if (!MEETING_ID_PATTERN.test(id)) return null
+    try {
+      return JSON.parse((await encryption.readFile(this.notePath(id))).toString('utf-8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    const meeting = await this.get(id)
+    if (!meeting) {
+      throw new Error('Meeting not found')
+    }
+    if (meeting.audioPath) {
+      await fs.rm(meeting.audioPath, { force: true })
+    }
+    await fs.rm(this.notePath(id), { force: true })
+    console.log(`[MeetingStore] Deleted meeting ${id}`)
+  }
+
+  // Write via a temp file and rename so a crash never leaves a torn file
+  private async writeFile(filePath: string, data: Buffer | string): Promise<void> {
+    const tmpPath = `${filePath}.tmp`
+    await encryption.writeFile(tmpPath, data)
+    await fs.rename(tmpPath, filePath)
+  }
+
+  private notePath(id: string): string {
+    return path.join(this.meetingsDir, `${id}.json`)
+  }
+}
+
+export const meetingStore = new MeetingStore()
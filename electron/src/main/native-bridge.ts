@@ -2,6 +2,12 @@ import { spawn, ChildProcess } from 'child_process'
 import { app, net } from 'electron'
 import path from 'path'
 import os from 'os'
+import { StringDecoder } from 'string_decoder'
+import type { PrivacyRule } from './privacy-rules'
+
+// Replayed frames reach back at most this far (the service buffers fewer);
+// a sequence further back than this means the service restarted
+const SEQUENCE_REPLAY_WINDOW = 100
 
 function httpRequest(
   url: string,
@@ -10,7 +16,7 @@ function httpRequest(
 ): Promise<{ status: number; body: string }> {
   return new Promise((resolve, reject) => {
     const request = net.request({ url, method })
-    let responseBody = ''
+    const chunks: Buffer[] = []
 
     if (body) {
       request.setHeader('Content-Type', 'application/json')
@@ -18,10 +24,10 @@ function httpRequest(
 
     request.on('response', (response) => {
       response.on('data', (chunk) => {
-        responseBody += chunk.toString()
+        chunks.push(chunk)
       })
       response.on('end', () => {
-        resolve({ status: response.statusCode, body: responseBody })
+        resolve({ status: response.statusCode, body: Buffer.concat(chunks).toString('utf8') })
       })
     })
 
@@ -56,6 +62,8 @@ export interface NativeServiceConfig {
   captureInterval?: number
   enableFullScreenCaptures?: boolean
   fullScreenCaptureInterval?: number
+  // The native service skips capturing windows matched by 'drop' rules
+  exclusionRules?: PrivacyRule[]
 }
 
 // Legacy config for backward compatibility during migration
@@ -78,6 +86,10 @@ export interface AccessibilityElement {
 
 export interface CapturedFrameData {
   id: string
+  // Monotonic per-service counter; absent on services that don't stream
+  sequence?: number
+  // Changes whenever the service restarts, which starts a new sequence
+  instance?: string
   timestamp: number
   imageBase64: string
   windowTitle: string | null
@@ -85,6 +97,8 @@ export interface CapturedFrameData {
   appBundleId: string | null
   trigger: string | null
   windowBounds: { x: number; y: number; width: number; height: number } | null
+  // Browser URL, when the native service can read it
+  url?: string | null
   accessibilityData: {
     focusedApp: string | null
     focusedWindow: string | null
@@ -92,6 +106,10 @@ export interface CapturedFrameData {
   } | null
 }
 
+export type FrameListener = (frame: CapturedFrameData) => void | Promise<void>
+
+export type FrameDeliveryMode = 'stream' | 'polling' | 'stopped'
+
 // Meeting types
 export type MeetingRecordingState = 'idle' | 'recording' | 'processing' | 'error'
 
@@ -148,6 +166,22 @@ class NativeBridge {
   private usingExternalService = false
   private platform: Platform
 
+  // Frame delivery state
+  private frameListener: FrameListener | null = null
+  private deliveryMode: FrameDeliveryMode = 'stopped'
+  private streamRequest: Electron.ClientRequest | null = null
+  private streamRetryTimer: ReturnType<typeof setTimeout> | null = null
+  private streamFailures = 0
+  private pollingInterval: ReturnType<typeof setInterval> | null = null
+  private deliveryChain: Promise<void> = Promise.resolve()
+  private lastDeliveredSequence: number | null = null
+  private lastDeliveredInstance: string | null = null
+  private lastDeliveredId: string | null = null
+  private lastDeliveredTimestamp = 0
+  private readonly pollIntervalMs = 500
+  private readonly maxStreamBackoffMs = 30000
+  private readonly streamFailuresBeforePolling = 3
+
   constructor() {
     this.platform = getPlatform()
     console.log(`[NativeBridge] Platform detected: ${this.platform}`)
@@ -170,6 +204,8 @@ class NativeBridge {
     const servicePath = this.getServicePath()
     console.log(`[NativeBridge] Starting service from: ${servicePath}`)
 
+    // A new service process numbers its frames from 1 again
+    this.resetFrameSequence()
     this.process = spawn(servicePath, ['--port', this.port.toString()], {
       stdio: ['ignore', 'pipe', 'pipe']
     })
@@ -210,6 +246,8 @@ class NativeBridge {
   }
 
   async stop(): Promise<void> {
+    this.unsubscribeFromFrames()
+
     // Don't stop external standalone service
     if (this.usingExternalService) {
       console.log('[NativeBridge] Using external service, not stopping')
@@ -297,6 +335,7 @@ class NativeBridge {
       captureInterval: config.captureInterval,
       enableFullScreenCaptures: config.enableFullScreenCaptures,
       fullScreenCaptureInterval: config.fullScreenCaptureInterval,
+      exclusionRules: config.exclusionRules,
       geminiAPIKey: config.geminiAPIKey,
       claudeAPIKey: config.claudeAPIKey,
       openaiAPIKey: config.openaiAPIKey,
@@ -386,6 +425,230 @@ class NativeBridge {
     }
   }
 
+  // Frame delivery
+
+  /**
+   * Subscribe to every captured frame, in capture order. Prefers the native
+   * service's SSE stream and falls back to polling /frame/latest while the
+   * stream is unavailable, retrying the stream in the background.
+   */
+  subscribeToFrames(listener: FrameListener): void {
+    this.frameListener = listener
+    if (this.deliveryMode !== 'stopped') return
+
+    console.log('[NativeBridge] Subscribing to frames')
+    this.deliveryMode = 'stream'
+    this.streamFailures = 0
+    this.connectFrameStream()
+  }
+
+  unsubscribeFromFrames(): void {
+    if (this.deliveryMode === 'stopped') return
+
+    console.log('[NativeBridge] Unsubscribing from frames')
+    this.deliveryMode = 'stopped'
+    this.frameListener = null
+    this.closeFrameStream()
+    this.stopFramePolling()
+    if (this.streamRetryTimer) {
+      clearTimeout(this.streamRetryTimer)
+      this.streamRetryTimer = null
+    }
+  }
+
+  getFrameDeliveryMode(): FrameDeliveryMode {
+    return this.deliveryMode
+  }
+
+  private connectFrameStream(): void {
+    if (this.deliveryMode === 'stopped' || this.streamRequest) return
+
+    const request = net.request({ url: `${this.baseUrl}/frame/stream`, method: 'GET' })
+    request.setHeader('Accept', 'text/event-stream')
+    if (this.lastDeliveredSequence !== null) {
+      // Lets the service replay frames captured while we were disconnected,
+      // or all buffered frames if it restarted in the meantime
+      const lastEventId = this.lastDeliveredInstance
+        ? `${this.lastDeliveredInstance}:${this.lastDeliveredSequence}`
+        : this.lastDeliveredSequence.toString()
+      request.setHeader('Last-Event-ID', lastEventId)
+    }
+    this.streamRequest = request
+
+    request.on('response', (response) => {
+      if (response.statusCode !== 200) {
+        console.log(`[NativeBridge] Frame stream unavailable (${response.statusCode})`)
+        // Drain so the underlying socket is released
+        response.on('data', () => {})
+        this.handleStreamFailure(request, true)
+        return
+      }
+
+      console.log('[NativeBridge] Frame stream connected')
+      this.streamFailures = 0
+      this.stopFramePolling()
+      this.deliveryMode = 'stream'
+
+      // Multibyte characters can be split across chunks
+      const decoder = new StringDecoder('utf8')
+      let buffer = ''
+      response.on('data', (chunk) => {
+        buffer += decoder.write(chunk)
+        let boundary = buffer.indexOf('\n\n')
+        while (boundary !== -1) {
+          this.handleStreamEvent(buffer.slice(0, boundary))
+          buffer = buffer.slice(boundary + 2)
+          boundary = buffer.indexOf('\n\n')
+        }
+      })
+      response.on('end', () => {
+        console.log('[NativeBridge] Frame stream ended')
+        this.handleStreamFailure(request)
+      })
+      response.on('error', () => {
+        this.handleStreamFailure(request)
+      })
+    })
+
+    request.on('error', (error) => {
+      console.log('[NativeBridge] Frame stream error:', error.message)
+      this.handleStreamFailure(request)
+    })
+
+    request.end()
+  }
+
+  private closeFrameStream(): void {
+    if (this.streamRequest) {
+      const request = this.streamRequest
+      this.streamRequest = null
+      request.abort()
+    }
+  }
+
+  private handleStreamFailure(request: Electron.ClientRequest, unavailable = false): void {
+    // Ignore late events from a request we've already replaced or aborted
+    if (this.streamRequest !== request) return
+    this.streamRequest = null
+    if (this.deliveryMode === 'stopped') return
+
+    this.streamFailures++
+    // A non-200 means the service has no stream endpoint; poll right away
+    const shouldPoll = unavailable || this.streamFailures >= this.streamFailuresBeforePolling
+    if (shouldPoll && this.deliveryMode !== 'polling') {
+      console.log('[NativeBridge] Frame stream unavailable, falling back to polling')
+      this.startFramePolling()
+    }
+
+    const delay = Math.min(1000 * 2 ** (this.streamFailures - 1), this.maxStreamBackoffMs)
+    this.streamRetryTimer = setTimeout(() => {
+      this.streamRetryTimer = null
+      this.connectFrameStream()
+    }, delay)
+  }
+
+  private handleStreamEvent(rawEvent: string): void {
+    let eventType = 'message'
+    const dataLines: string[] = []
+
+    for (const line of rawEvent.split('\n')) {
+      if (line.startsWith(':')) continue // comment / heartbeat
+      if (line.startsWith('event:')) {
+        eventType = line.slice(6).trim()
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).trimStart())
+      }
+    }
+
+    if (eventType !== 'frame' || dataLines.length === 0) return
+
+    try {
+      const frame = JSON.parse(dataLines.join('\n')) as CapturedFrameData
+      this.deliverFrame(frame)
+    } catch (error) {
+      console.error('[NativeBridge] Failed to parse streamed frame:', error)
+    }
+  }
+
+  private startFramePolling(): void {
+    if (this.pollingInterval) return
+
+    this.deliveryMode = 'polling'
+    this.pollingInterval = setInterval(async () => {
+      const frame = await this.getLatestFrame()
+      if (frame) {
+        this.deliverFrame(frame)
+      }
+    }, this.pollIntervalMs)
+  }
+
+  private stopFramePolling(): void {
+    if (this.pollingInterval) {
+      clearInterval(this.pollingInterval)
+      this.pollingInterval = null
+    }
+  }
+
+  private resetFrameSequence(): void {
+    this.lastDeliveredSequence = null
+    this.lastDeliveredInstance = null
+    this.lastDeliveredId = null
+  }
+
+  // A service that restarted (external, or respawned while we reconnected)
+  // counts from 1 again. Services without an instance id are assumed to have
+  // restarted when the sequence jumps back further than they buffer frames.
+  private isNewServiceInstance(frame: CapturedFrameData): boolean {
+    if (frame.instance && this.lastDeliveredInstance) {
+      return frame.instance !== this.lastDeliveredInstance
+    }
+    return (
+      typeof frame.sequence === 'number' &&
+      this.lastDeliveredSequence !== null &&
+      frame.sequence < this.lastDeliveredSequence - SEQUENCE_REPLAY_WINDOW
+    )
+  }
+
+  // Deliver frames to the listener one at a time, in arrival order, skipping
+  // duplicates and reporting gaps in the sequence.
+  private deliverFrame(frame: CapturedFrameData): void {
+    if (frame.id === this.lastDeliveredId) return
+
+    if (this.isNewServiceInstance(frame)) {
+      console.log('[NativeBridge] Native service restarted; frame sequence reset')
+      this.resetFrameSequence()
+    }
+
+    if (typeof frame.sequence === 'number' && this.lastDeliveredSequence !== null) {
+      if (frame.sequence <= this.lastDeliveredSequence) return
+      const missed = frame.sequence - this.lastDeliveredSequence - 1
+      if (missed > 0) {
+        console.warn(
+          `[NativeBridge] Frame gap detected: missed ${missed} frame(s) ` +
+            `between #${this.lastDeliveredSequence} and #${frame.sequence}`
+        )
+      }
+    } else if (frame.timestamp <= this.lastDeliveredTimestamp) {
+      return
+    }
+
+    this.lastDeliveredId = frame.id
+    this.lastDeliveredTimestamp = frame.timestamp
+    if (typeof frame.sequence === 'number') {
+      this.lastDeliveredSequence = frame.sequence
+      this.lastDeliveredInstance = frame.instance ?? null
+    }
+
+    const listener = this.frameListener
+    if (!listener) return
+
+    this.deliveryChain = this.deliveryChain
+      .then(() => listener(frame))
+      .catch((error) => {
+        console.error(`[NativeBridge] Frame listener failed for ${frame.id}:`, error)
+      })
+  }
+
   // Meeting methods
 
   async startMeeting(title?: string): Promise<{ meetingId: string; title: string; startTime: number }> {
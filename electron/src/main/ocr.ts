@@ -0,0 +1,104 @@
+import { app } from 'electron'
+import path from 'path'
+import fs from 'fs/promises'
+import { createRequire } from 'module'
+import Tesseract from 'tesseract.js'
+
+// A recognized line of text, positioned in image pixels
+export interface OcrLine {
+  text: string
+  confidence: number
+  bbox: { x: number; y: number; width: number; height: number }
+}
+
+export interface OcrResult {
+  lines: OcrLine[]
+  durationMs: number
+}
+
+// Lines below this confidence (0-100) are mostly noise from icons and images
+const MIN_LINE_CONFIDENCE = 50
+
+// Traineddata ships with the app (via @tesseract.js-data/eng), so OCR never
+// needs the network. Packaged builds unpack it from the asar archive because
+// tesseract's worker thread reads it from the real filesystem.
+function getLanguagePath(): string {
+  const require = createRequire(import.meta.url)
+  const { langPath } = require('@tesseract.js-data/eng') as { langPath: string }
+  return langPath.replace(`app.asar${path.sep}`, `app.asar.unpacked${path.sep}`)
+}
+
+function toOcrLine(line: Tesseract.Line): OcrLine {
+  const { x0, y0, x1, y1 } = line.bbox
+  return {
+    text: line.text.trim(),
+    confidence: line.confidence,
+    bbox: { x: x0, y: y0, width: x1 - x0, height: y1 - y0 }
+  }
+}
+
+/**
+ * Local text recognition with tesseract (WASM). Used to fill in visibleText
+ * for frames that don't get vision analysis, and optionally as a pre-pass
+ * that lets the vision model work from a smaller image.
+ */
+export class OcrService {
+  private worker: Promise<Tesseract.Worker> | null = null
+
+  async recognize(imageBuffer: Buffer): Promise<OcrResult> {
+    const started = Date.now()
+    const worker = await this.getWorker()
+    const { data } = await worker.recognize(imageBuffer, {}, { text: true, blocks: true })
+
+    const lines: OcrLine[] = []
+    for (const block of data.blocks ?? []) {
+      for (const paragraph of block.paragraphs) {
+        for (const line of paragraph.lines) {
+          const ocrLine = toOcrLine(line)
+          if (ocrLine.text && ocrLine.confidence >= MIN_LINE_CONFIDENCE) {
+            lines.push(ocrLine)
+          }
+        }
+      }
+    }
+
+    return { lines, durationMs: Date.now() - started }
+  }
+
+  async terminate(): Promise<void> {
+    if (!this.worker) return
+    const worker = this.worker
+    this.worker = null
+    try {
+      await (await worker).terminate()
+    } catch (error) {
+      console.error('[OCR] Failed to terminate worker:', error)
+    }
+  }
+
+  private getWorker(): Promise<Tesseract.Worker> {
+    if (!this.worker) {
+      this.worker = this.createWorker().catch((error) => {
+        this.worker = null
+        throw error
+      })
+    }
+    return this.worker
+  }
+
+  private async createWorker(): Promise<Tesseract.Worker> {
+    const cachePath = path.join(app.getPath('userData'), 'ocr-cache')
+    await fs.mkdir(cachePath, { recursive: true })
+
+    const worker = await Tesseract.createWorker('eng', Tesseract.OEM.LSTM_ONLY, {
+      langPath: getLanguagePath(),
+      cachePath,
+      gzip: true
+    })
+    console.log('[OCR] Tesseract worker ready')
+    return worker
+  }
+}
+
+// Singleton instance
+export const ocrService = new OcrService()
@@ -0,0 +1,49 @@
+import { nativeImage } from 'electron'
+
+// dHash works on a (size + 1) x size grayscale thumbnail, giving size * size bits
+const HASH_SIZE = 8
+
+/**
+ * Compute a difference hash (dHash) of an encoded image. Each bit records
+ * whether a pixel is brighter than its right-hand neighbour, which survives
+ * JPEG noise, cursor blinks and small rendering differences.
+ * Returns a 16-char hex string, or null if the image can't be decoded.
+ */
+export function computeDHash(imageBuffer: Buffer): string | null {
+  const image = nativeImage.createFromBuffer(imageBuffer)
+  if (image.isEmpty()) return null
+
+  const thumbnail = image.resize({ width: HASH_SIZE + 1, height: HASH_SIZE, quality: 'good' })
+  const bitmap = thumbnail.toBitmap()
+  const { width, height } = thumbnail.getSize()
+  if (width !== HASH_SIZE + 1 || height !== HASH_SIZE || bitmap.length < width * height * 4) {
+    return null
+  }
+
+  // Bitmap is 4 bytes per pixel; channel order is platform-dependent, so
+  // average the colour channels rather than weighting them
+  const luminance = (x: number, y: number): number => {
+    const offset = (y * width + x) * 4
+    return (bitmap[offset] + bitmap[offset + 1] + bitmap[offset + 2]) / 3
+  }
+
+  let hash = 0n
+  for (let y = 0; y < HASH_SIZE; y++) {
+    for (let x = 0; x < HASH_SIZE; x++) {
+      hash = (hash << 1n) | (luminance(x, y) > luminance(x + 1, y) ? 1n : 0n)
+    }
+  }
+
+  return hash.toString(16).padStart(HASH_SIZE * HASH_SIZE / 4, '0')
+}
+
+// Number of differing bits between two hashes produced by computeDHash
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`)
+  let count = 0
+  while (diff > 0n) {
+    count += Number(diff & 1n)
+    diff >>= 1n
+  }
+  return count
+}
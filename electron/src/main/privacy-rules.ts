@@ -0,0 +1,184 @@
+import type { AccessibilityElement, CapturedFrameData } from './native-bridge'
+
+// What happens to a frame that matches a rule:
+// - drop: discarded before it is queued or written to disk
+// - local-only: stored without vision analysis; only the app name reaches a cloud embedder
+// - blur: the image is blurred (and accessibility text removed) before anything else sees it
+export type PrivacyAction = 'drop' | 'local-only' | 'blur'
+
+// What a rule's pattern is compared against:
+// - appBundleId, appName: exact, case-insensitive
+// - windowTitle: regular expression, case-insensitive
+// - url: `bank.com` matches the domain and its subdomains; otherwise a
+//   wildcard pattern over host and path, e.g. `mail.google.com/*`
+export type PrivacyRuleField = 'appBundleId' | 'appName' | 'windowTitle' | 'url'
+
+export interface PrivacyRule {
+  field: PrivacyRuleField
+  pattern: string
+  action: PrivacyAction
+}
+
+// When several rules match, the most restrictive action wins. A blurred frame
+// still goes to cloud vision, so local-only outranks blur; the image is
+// blurred as well when a blur rule also matched.
+const ACTION_PRECEDENCE: PrivacyAction[] = ['drop', 'local-only', 'blur']
+
+export interface PrivacyDecision {
+  action: PrivacyAction | null
+  // Whether the image must be blurred, also when another action wins
+  blur: boolean
+}
+
+// Window title patterns are user regular expressions run on every frame, so
+// long ones and nested repetition like (a+)+, which can backtrack for a very
+// long time, are refused, and only the start of a long title is matched
+const MAX_TITLE_PATTERN_LENGTH = 200
+const MAX_MATCHED_TITLE_LENGTH = 300
+const NESTED_QUANTIFIER = /\((?:[^()\\]|\\.)*[*+}](?:[^()\\]|\\.)*\)[*+{]/
+
+// Address bars show the URL, sometimes without the scheme
+const URL_PATTERN = /^(https?:\/\/)?[\w-]+(\.[\w-]+)+(:\d+)?(\/\S*)?$/i
+
+type Matcher = (frame: FrameIdentity) => boolean
+
+// The parts of a frame rules look at. Full screen captures aren't tied to a
+// window, so the focused app and window reported by accessibility are used too.
+interface FrameIdentity {
+  appBundleId: string | null
+  appNames: string[]
+  windowTitles: string[]
+  url: string | null
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${source}$`, 'i')
+}
+
+// Why a window title pattern can't be used, or null if it can
+export function validateWindowTitlePattern(pattern: string): string | null {
+  if (pattern.length > MAX_TITLE_PATTERN_LENGTH) {
+    return `Longer than ${MAX_TITLE_PATTERN_LENGTH} characters`
+  }
+  try {
+    new RegExp(pattern, 'i')
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression'
+  }
+  if (NESTED_QUANTIFIER.test(pattern)) {
+    return 'Nested repetition like (a+)+ can make matching hang'
+  }
+  return null
+}
+
+function stripScheme(url: string): string {
+  return url.replace(/^[a-z][a-z0-9+.-]*:\/\//i, '')
+}
+
+function compile(rule: PrivacyRule): Matcher | null {
+  const pattern = rule.pattern.trim()
+  if (!pattern) return null
+
+  switch (rule.field) {
+    case 'appBundleId':
+      return (frame) => frame.appBundleId?.toLowerCase() === pattern.toLowerCase()
+    case 'appName':
+      return (frame) => frame.appNames.some((name) => name.toLowerCase() === pattern.toLowerCase())
+    case 'windowTitle': {
+      const error = validateWindowTitlePattern(pattern)
+      if (error) {
+        console.warn(`[PrivacyRules] Ignoring window title pattern '${pattern}': ${error}`)
+        return null
+      }
+      const regex = new RegExp(pattern, 'i')
+      return (frame) => frame.windowTitles.some((title) => regex.test(title.slice(0, MAX_MATCHED_TITLE_LENGTH)))
+    }
+    case 'url': {
+      const target = stripScheme(pattern).toLowerCase()
+      if (!target.includes('*') && !target.includes('/')) {
+        return (frame) => {
+          if (!frame.url) return false
+          const host = stripScheme(frame.url).split(/[/:]/)[0].toLowerCase()
+          return host === target || host.endsWith(`.${target}`)
+        }
+      }
+      const regex = globToRegExp(target)
+      return (frame) => !!frame.url && regex.test(stripScheme(frame.url))
+    }
+    default:
+      return null
+  }
+}
+
+// Browser URL for a frame: reported by the native service, or read from the address bar
+export function getFrameUrl(frame: CapturedFrameData): string | null {
+  if (frame.url) return frame.url
+  if (!frame.accessibilityData) return null
+
+  const stack: AccessibilityElement[] = [...frame.accessibilityData.elements]
+  while (stack.length > 0) {
+    const element = stack.shift()!
+    const value = element.value?.trim()
+    if (value && URL_PATTERN.test(value)) return value
+    if (element.children) stack.push(...element.children)
+  }
+  return null
+}
+
+function identify(frame: CapturedFrameData): FrameIdentity {
+  const values = (...items: Array<string | null | undefined>): string[] => items.filter((v): v is string => !!v)
+  return {
+    appBundleId: frame.appBundleId,
+    appNames: values(frame.appName, frame.accessibilityData?.focusedApp),
+    windowTitles: values(frame.windowTitle, frame.accessibilityData?.focusedWindow),
+    url: getFrameUrl(frame)
+  }
+}
+
+/**
+ * User-defined exclusion rules, evaluated on every captured frame before it is
+ * queued for analysis.
+ */
+export class PrivacyRules {
+  private rules: PrivacyRule[] = []
+  private matchers: Array<{ rule: PrivacyRule; matches: Matcher }> = []
+
+  configure(rules: PrivacyRule[]): void {
+    this.rules = rules
+    this.matchers = []
+    for (const rule of rules) {
+      const matches = compile(rule)
+      if (matches) {
+        this.matchers.push({ rule, matches })
+      }
+    }
+    console.log(`[PrivacyRules] ${this.matchers.length} rule(s) active`)
+  }
+
+  getRules(): PrivacyRule[] {
+    return this.rules
+  }
+
+  // What to do with a frame; a null action if no rule matches
+  evaluate(frame: CapturedFrameData): PrivacyDecision {
+    const decision: PrivacyDecision = { action: null, blur: false }
+    if (this.matchers.length === 0) return decision
+
+    const identity = identify(frame)
+    for (const { rule, matches } of this.matchers) {
+      if (!matches(identity)) continue
+      if (rule.action === 'blur') decision.blur = true
+      if (decision.action === null || ACTION_PRECEDENCE.indexOf(rule.action) < ACTION_PRECEDENCE.indexOf(decision.action)) {
+        decision.action = rule.action
+      }
+    }
+    return decision
+  }
+}
+
+// Singleton instance
+export const privacyRules = new PrivacyRules()
@@ -1,42 +1,66 @@
-export interface SearchResult {
-  id: string
-  score: number
-  timestamp: number
-  summary: string
-  activeApplication: string | null
-  userActivity: string | null
-  captureTrigger?: string | null
-  appBundleId?: string | null
-  appName?: string | null
-  windowTitle?: string | null
+import { buildDocumentSparseVector, buildQuerySparseVector } from './sparse-vectors'
+import { encryption } from './encryption'
+import { buildFramePage, decodeCursor } from './scan-cursor'
+import { MIN_FILTER_WORD_LENGTH, textFilterWords } from './text-filter'
+import type {
+  CollectionInfo,
+  EmbeddingSpace,
+  FrameFilter,
+  FramePage,
+  ProcessedFrame,
+  ScrollPageOptions,
+  SearchResult,
+  StoredFrame,
+  VectorStore
+} from './vector-store'
+
+// Named vectors used by collections created with keyword support. Collections
+// whose keyword index hashed words without the data key have a 'keywords'
+// vector instead, and are reindexed.
+const DENSE_VECTOR_NAME = 'dense'
+const SPARSE_VECTOR_NAME = 'keyed_keywords'
+
+// Payload indexes backing FrameFilter. Text fields use a prefix tokenizer so
+// partial words ("chro") still match ("Google Chrome"), as in text-filter.ts.
+const PAYLOAD_INDEXES: Array<{ field: string; schema: unknown }> = [
+  { field: 'timestamp', schema: 'float' },
+  { field: 'appBundleId', schema: 'keyword' },
+  { field: 'captureTrigger', schema: 'keyword' },
+  ...['appName', 'activeApplication', 'windowTitle'].map((field) => ({
+    field,
+    schema: { type: 'text', tokenizer: 'prefix', min_token_len: MIN_FILTER_WORD_LENGTH, lowercase: true }
+  }))
+]
+
+// Keyword index slots are a keyed hash of each word, so the index doesn't
+// reveal which words a frame contains
+function keyedTokenIndex(token: string): number {
+  return parseInt(encryption.hashTerm(token).slice(0, 8), 16)
+}
+
+// Frame text is encrypted in the payload. The fields Qdrant filters on
+// (timestamp, app name and bundle id, window title, capture trigger) stay
+// readable so filtering happens server-side.
+function sealText(value: string | null | undefined): string {
+  return value ? encryption.encryptString(value) : ''
 }
 
-export interface CollectionInfo {
-  name: string
-  pointsCount: number
-  vectorsCount: number
+function openText(value: unknown): string | null {
+  return typeof value === 'string' && value ? encryption.decryptString(value) : null
 }
 
-export interface ProcessedFrame {
-  id: string
-  timestamp: number
-  embedding: number[]
-  summary: string
-  activeApplication: string | null
-  userActivity: string | null
-  visibleText: string[]
-  focusedApp: string | null
-  focusedWindow: string | null
-  captureTrigger: string
-  appBundleId: string | null
-  appName: string | null
-  windowTitle: string | null
-  windowBounds: { x: number; y: number; width: number; height: number } | null
+// Lists are encrypted as one JSON string; older points hold plain arrays
+function openList<T>(value: unknown): T[] {
+  if (Array.isArray(value)) return value
+  return typeof value === 'string' && value ? JSON.parse(encryption.decryptString(value)) : []
 }
 
-class QdrantClient {
+class QdrantClient implements VectorStore {
   private baseUrl: string
   private collectionName: string
+  // Collections created before hybrid search have a single unnamed dense vector
+  private denseVectorName: string | null = DENSE_VECTOR_NAME
+  private hasSparseVectors = true
 
   constructor(host = 'localhost', port = 6333, collection = 'localbird_frames') {
     this.baseUrl = `http://${host}:${port}`
@@ -52,21 +76,31 @@ class QdrantClient {
     }
   }
 
-  async ensureCollection(vectorSize = 768): Promise<void> {
+  async ensureCollection(space: EmbeddingSpace): Promise<void> {
     // Check if collection exists
     const checkResponse = await fetch(`${this.baseUrl}/collections/${this.collectionName}`)
     if (checkResponse.ok) {
+      const data = await checkResponse.json()
+      this.detectVectorLayout(data.result?.config?.params)
+      await this.ensurePayloadIndexes(data.result?.payload_schema || {})
       return // Collection exists
     }
 
-    // Create collection
+    // Create collection with a dense embedding and a sparse keyword vector
     const response = await fetch(`${this.baseUrl}/collections/${this.collectionName}`, {
       method: 'PUT',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
         vectors: {
-          size: vectorSize,
-          distance: 'Cosine'
+          [DENSE_VECTOR_NAME]: {
+            size: space.dimension,
+            distance: 'Cosine'
+          }
+        },
+        sparse_vectors: {
+          [SPARSE_VECTOR_NAME]: {
+            modifier: 'idf'
+          }
         }
       })
     })
@@ -75,19 +109,166 @@ class QdrantClient {
       throw new Error(`Failed to create collection: ${response.statusText}`)
     }
 
-    console.log(`[Qdrant] Collection '${this.collectionName}' created`)
+    this.denseVectorName = DENSE_VECTOR_NAME
+    this.hasSparseVectors = true
+    console.log(`[Qdrant] Collection '${this.collectionName}' created for ${space.model} (${space.dimension} dimensions)`)
+
+    await this.ensurePayloadIndexes({})
+  }
+
+  // The dimension comes from the collection config; the model from the
+  // `embeddingModel` tag every point carries
+  async getEmbeddingSpace(): Promise<EmbeddingSpace | null> {
+    const response = await fetch(`${this.baseUrl}/collections/${this.collectionName}`)
+    if (response.status === 404) return null
+    if (!response.ok) {
+      throw new Error(`Failed to get collection: ${response.statusText}`)
+    }
+
+    const data = await response.json()
+    const params = data.result?.config?.params
+    this.detectVectorLayout(params)
+    const dimension = this.denseVectorName === null ? params.vectors.size : params.vectors[this.denseVectorName]?.size
+
+    const scrollResponse = await fetch(`${this.baseUrl}/collections/${this.collectionName}/points/scroll`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        filter: { must_not: [{ is_empty: { key: 'embeddingModel' } }] },
+        limit: 1,
+        with_payload: ['embeddingModel']
+      })
+    })
+    if (!scrollResponse.ok) {
+      throw new Error(`Failed to read collection tag: ${scrollResponse.statusText}`)
+    }
+    const scrollData = await scrollResponse.json()
+
+    return {
+      model: scrollData.result?.points?.[0]?.payload?.embeddingModel || null,
+      dimension
+    }
+  }
+
+  async deleteCollection(): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/collections/${this.collectionName}`, { method: 'DELETE' })
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Failed to delete collection: ${response.statusText}`)
+    }
+    console.log(`[Qdrant] Collection '${this.collectionName}' deleted`)
+  }
+
+  // Create any payload indexes the collection is missing
+  private async ensurePayloadIndexes(existing: Record<string, unknown>): Promise<void> {
+    for (const { field, schema } of PAYLOAD_INDEXES) {
+      if (existing[field]) continue
+
+      const response = await fetch(`${this.baseUrl}/collections/${this.collectionName}/index`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ field_name: field, field_schema: schema })
+      })
+
+      if (!response.ok) {
+        console.error(`[Qdrant] Failed to create payload index on '${field}': ${response.statusText}`)
+      }
+    }
+  }
+
+  // Translate a FrameFilter into a Qdrant filter clause
+  private buildFilter(filter?: FrameFilter): Record<string, unknown> | undefined {
+    if (!filter) return undefined
+
+    const must: unknown[] = []
+
+    if (filter.appName && textFilterWords(filter.appName).length > 0) {
+      must.push({
+        should: [
+          { key: 'appName', match: { text: filter.appName } },
+          { key: 'activeApplication', match: { text: filter.appName } }
+        ]
+      })
+    }
+    if (filter.appBundleId) {
+      must.push({ key: 'appBundleId', match: { value: filter.appBundleId } })
+    }
+    if (filter.windowTitle && textFilterWords(filter.windowTitle).length > 0) {
+      must.push({ key: 'windowTitle', match: { text: filter.windowTitle } })
+    }
+    if (filter.captureTrigger) {
+      must.push(
+        Array.isArray(filter.captureTrigger)
+          ? { key: 'captureTrigger', match: { any: filter.captureTrigger } }
+          : { key: 'captureTrigger', match: { value: filter.captureTrigger } }
+      )
+    }
+    if (filter.startTime || filter.endTime) {
+      must.push({
+        key: 'timestamp',
+        range: {
+          gte: filter.startTime ? filter.startTime.getTime() / 1000 : undefined,
+          lte: filter.endTime ? filter.endTime.getTime() / 1000 : undefined
+        }
+      })
+    }
+
+    return must.length > 0 ? { must } : undefined
+  }
+
+  private detectVectorLayout(params: any): void {
+    const vectors = params?.vectors
+    // Unnamed vector config looks like { size, distance }; named is { name: { size, distance } }
+    this.denseVectorName = vectors && typeof vectors.size === 'number' ? null : DENSE_VECTOR_NAME
+    this.hasSparseVectors = Boolean(params?.sparse_vectors?.[SPARSE_VECTOR_NAME])
+
+    if (!this.hasSparseVectors) {
+      console.log(`[Qdrant] Collection '${this.collectionName}' has no keyword index; hybrid search uses dense vectors only`)
+    }
+  }
+
+  supportsKeywordSearch(): boolean {
+    return this.hasSparseVectors
+  }
+
+  async supportsSemanticSearch(): Promise<boolean> {
+    return true
+  }
+
+  private buildPointVector(frame: ProcessedFrame): unknown {
+    if (this.denseVectorName === null) {
+      return frame.embedding
+    }
+
+    const vector: Record<string, unknown> = { [this.denseVectorName]: frame.embedding }
+    if (this.hasSparseVectors) {
+      vector[SPARSE_VECTOR_NAME] = buildDocumentSparseVector(
+        [
+          frame.summary,
+          frame.activeApplication,
+          frame.userActivity,
+          frame.appName,
+          frame.windowTitle,
+          ...frame.visibleText,
+          ...frame.ocrLines.map((line) => line.text)
+        ]
+          .filter(Boolean)
+          .join('\n'),
+        keyedTokenIndex
+      )
+    }
+    return vector
   }
 
   async upsertFrame(frame: ProcessedFrame): Promise<void> {
     const payload = {
       id: frame.id,
       timestamp: frame.timestamp,
-      summary: frame.summary,
+      summary: sealText(frame.summary),
       activeApplication: frame.activeApplication || '',
-      userActivity: frame.userActivity || '',
-      visibleText: frame.visibleText,
-      focusedApp: frame.focusedApp || '',
-      focusedWindow: frame.focusedWindow || '',
+      userActivity: sealText(frame.userActivity),
+      visibleText: encryption.encryptString(JSON.stringify(frame.visibleText)),
+      focusedApp: sealText(frame.focusedApp),
+      focusedWindow: sealText(frame.focusedWindow),
       captureTrigger: frame.captureTrigger,
       appBundleId: frame.appBundleId || '',
       appName: frame.appName || '',
@@ -95,7 +276,14 @@ class QdrantClient {
       windowBoundsX: frame.windowBounds?.x ?? 0,
       windowBoundsY: frame.windowBounds?.y ?? 0,
       windowBoundsWidth: frame.windowBounds?.width ?? 0,
-      windowBoundsHeight: frame.windowBounds?.height ?? 0
+      windowBoundsHeight: frame.windowBounds?.height ?? 0,
+      perceptualHash: frame.perceptualHash || '',
+      ocrLines: encryption.encryptString(JSON.stringify(frame.ocrLines)),
+      redactions: frame.redactions,
+      privacyAction: frame.privacyAction || '',
+      embeddingModel: frame.embeddingModel,
+      lastSeenAt: frame.lastSeenAt ?? frame.timestamp,
+      duplicateCount: frame.duplicateCount ?? 0
     }
 
     const response = await fetch(`${this.baseUrl}/collections/${this.collectionName}/points`, {
@@ -105,7 +293,7 @@ class QdrantClient {
         points: [
           {
             id: frame.id,
-            vector: frame.embedding,
+            vector: this.buildPointVector(frame),
             payload
           }
         ]
@@ -117,12 +305,50 @@ class QdrantClient {
     }
   }
 
-  async search(embedding: number[], limit = 10, scoreThreshold = 0.3): Promise<SearchResult[]> {
+  // Mark an existing frame as still on screen at a later time, instead of
+  // storing a near-identical duplicate
+  async extendFrame(id: string, lastSeenAt: number, duplicateCount: number): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/collections/${this.collectionName}/points/payload`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        payload: { lastSeenAt, duplicateCount },
+        points: [id]
+      })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to extend frame: ${response.statusText}`)
+    }
+  }
+
+  async deleteFrames(ids: string[]): Promise<void> {
+    if (ids.length === 0) return
+
+    const response = await fetch(`${this.baseUrl}/collections/${this.collectionName}/points/delete?wait=true`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ points: ids })
+    })
+
+    // A collection that doesn't exist has nothing to delete
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Failed to delete frames: ${response.statusText}`)
+    }
+  }
+
+  async search(
+    embedding: number[],
+    limit = 10,
+    scoreThreshold = 0.3,
+    filter?: FrameFilter
+  ): Promise<SearchResult[]> {
     const response = await fetch(`${this.baseUrl}/collections/${this.collectionName}/points/search`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
-        vector: embedding,
+        vector: this.denseVectorName ? { name: this.denseVectorName, vector: embedding } : embedding,
+        filter: this.buildFilter(filter),
         limit,
         score_threshold: scoreThreshold,
         with_payload: true
@@ -136,60 +362,146 @@ class QdrantClient {
     const data = await response.json()
     const results = data.result || []
 
-    return results.map((result: any) => ({
-      id: result.id,
-      score: result.score,
-      timestamp: result.payload?.timestamp || 0,
-      summary: result.payload?.summary || '',
-      activeApplication: result.payload?.activeApplication || null,
-      userActivity: result.payload?.userActivity || null,
-      captureTrigger: result.payload?.captureTrigger || null,
-      appBundleId: result.payload?.appBundleId || null,
-      appName: result.payload?.appName || null,
-      windowTitle: result.payload?.windowTitle || null
-    }))
-  }
-
-  async searchByTimeRange(start: Date, end: Date, limit = 100): Promise<SearchResult[]> {
+    return results.map((result: any) => this.toSearchResult(result, result.score))
+  }
+
+  /**
+   * Search combining keyword matching with semantic similarity. Dense and
+   * sparse candidates are fused with Reciprocal Rank Fusion, so exact tokens
+   * (ticket IDs, error codes, filenames, names) rank well even when their
+   * embedding similarity is weak. Pass a null embedding for keyword-only search.
+   */
+  async hybridSearch(
+    queryText: string,
+    embedding: number[] | null,
+    limit = 10,
+    filter?: FrameFilter
+  ): Promise<SearchResult[]> {
+    const sparse = buildQuerySparseVector(queryText, keyedTokenIndex)
+    const canUseKeywords = this.hasSparseVectors && sparse.indices.length > 0
+
+    if (!canUseKeywords) {
+      if (!embedding) return []
+      return this.search(embedding, limit, undefined, filter)
+    }
+
+    const qdrantFilter = this.buildFilter(filter)
+    const sparseQuery = { query: sparse, using: SPARSE_VECTOR_NAME, filter: qdrantFilter, limit: limit * 4 }
+    const body = embedding
+      ? {
+          prefetch: [
+            {
+              query: embedding,
+              using: this.denseVectorName ?? undefined,
+              filter: qdrantFilter,
+              limit: limit * 4
+            },
+            sparseQuery
+          ],
+          query: { fusion: 'rrf' },
+          filter: qdrantFilter,
+          limit,
+          with_payload: true
+        }
+      : { ...sparseQuery, limit, with_payload: true }
+
+    const response = await fetch(`${this.baseUrl}/collections/${this.collectionName}/points/query`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    })
+
+    if (!response.ok) {
+      throw new Error(`Hybrid search failed: ${response.statusText}`)
+    }
+
+    const data = await response.json()
+    const points = data.result?.points || []
+
+    return points.map((point: any) => this.toSearchResult(point, point.score))
+  }
+
+  async searchByTimeRange(start: Date, end: Date, limit = 100, filter?: FrameFilter): Promise<SearchResult[]> {
+    return this.scrollFrames({ ...filter, startTime: start, endTime: end }, limit)
+  }
+
+  // List frames matching a filter without a query vector
+  async scrollFrames(filter: FrameFilter, limit = 100, order?: 'asc' | 'desc'): Promise<SearchResult[]> {
     const response = await fetch(`${this.baseUrl}/collections/${this.collectionName}/points/scroll`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
-        filter: {
-          must: [
-            {
-              key: 'timestamp',
-              range: {
-                gte: start.getTime() / 1000,
-                lte: end.getTime() / 1000
-              }
-            }
-          ]
-        },
+        filter: this.buildFilter(filter),
+        order_by: order ? { key: 'timestamp', direction: order } : undefined,
         limit,
         with_payload: true
       })
     })
 
     if (!response.ok) {
-      throw new Error(`Search by time range failed: ${response.statusText}`)
+      throw new Error(`Scroll frames failed: ${response.statusText}`)
     }
 
     const data = await response.json()
     const points = data.result?.points || []
 
-    return points.map((point: any) => ({
-      id: point.id,
-      score: 1.0,
-      timestamp: point.payload?.timestamp || 0,
-      summary: point.payload?.summary || '',
-      activeApplication: point.payload?.activeApplication || null,
-      userActivity: point.payload?.userActivity || null,
-      captureTrigger: point.payload?.captureTrigger || null,
-      appBundleId: point.payload?.appBundleId || null,
-      appName: point.payload?.appName || null,
-      windowTitle: point.payload?.windowTitle || null
-    }))
+    return points.map((point: any) => this.toSearchResult(point, 1.0))
+  }
+
+  /**
+   * Fetch one page of frames matching a filter, ordered by timestamp.
+   * Qdrant can't return an offset for ordered scrolls, so the cursor resumes
+   * from the last timestamp seen and skips points already returned there.
+   */
+  async scrollPage(
+    filter: FrameFilter,
+    options: ScrollPageOptions = {}
+  ): Promise<FramePage> {
+    const { limit = 100, cursor, order = 'asc' } = options
+    const position = cursor ? decodeCursor(cursor) : null
+    const skipIds = new Set(position?.ids ?? [])
+
+    const response = await fetch(`${this.baseUrl}/collections/${this.collectionName}/points/scroll`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        filter: this.buildFilter(filter),
+        order_by: {
+          key: 'timestamp',
+          direction: order,
+          start_from: position?.t
+        },
+        // One extra point tells us whether another page exists
+        limit: limit + skipIds.size + 1,
+        with_payload: true
+      })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Scroll page failed: ${response.statusText}`)
+    }
+
+    const data = await response.json()
+    const candidates: SearchResult[] = (data.result?.points || [])
+      .filter((point: any) => !skipIds.has(String(point.id)))
+      .map((point: any) => this.toSearchResult(point, 1.0))
+
+    return buildFramePage(candidates, limit, position)
+  }
+
+  // Iterate over every frame matching a filter, ordered by timestamp, one page at a time
+  async *iterateFrames(
+    filter: FrameFilter,
+    options: { order?: 'asc' | 'desc'; pageSize?: number } = {}
+  ): AsyncGenerator<SearchResult> {
+    const { order = 'asc', pageSize = 256 } = options
+    let cursor: string | null = null
+
+    do {
+      const page: FramePage = await this.scrollPage(filter, { limit: pageSize, cursor, order })
+      yield* page.frames
+      cursor = page.nextCursor
+    } while (cursor)
   }
 
   async getCollectionInfo(): Promise<CollectionInfo | null> {
@@ -213,8 +525,109 @@ class QdrantClient {
   async getRecentFrames(limit = 50): Promise<SearchResult[]> {
     const now = new Date()
     const dayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000)
-    const results = await this.searchByTimeRange(dayAgo, now, limit)
-    return results.sort((a, b) => b.timestamp - a.timestamp)
+    const page = await this.scrollPage({ startTime: dayAgo, endTime: now }, { limit, order: 'desc' })
+    return page.frames
+  }
+
+  async hasFrame(id: string): Promise<boolean> {
+    const response = await fetch(`${this.baseUrl}/collections/${this.collectionName}/points/${id}`)
+    if (response.status === 404) return false
+    if (!response.ok) {
+      throw new Error(`Failed to get frame: ${response.statusText}`)
+    }
+    return true
+  }
+
+  async getFrame(id: string): Promise<StoredFrame | null> {
+    const response = await fetch(`${this.baseUrl}/collections/${this.collectionName}/points/${id}`)
+    if (response.status === 404) return null
+    if (!response.ok) {
+      throw new Error(`Failed to get frame: ${response.statusText}`)
+    }
+    const data: any = await response.json()
+    return data.result ? this.toStoredFrame(data.result) : null
+  }
+
+  // Unordered scrolls do return an offset, so walk the collection with it
+  async *iterateStoredFrames(options: { withEmbeddings?: boolean } = {}): AsyncGenerator<StoredFrame & { embedding?: number[] }> {
+    let offset: string | number | null = null
+    const withVector = options.withEmbeddings ? (this.denseVectorName ? [this.denseVectorName] : true) : false
+
+    do {
+      const response: Response = await fetch(`${this.baseUrl}/collections/${this.collectionName}/points/scroll`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ offset: offset ?? undefined, limit: 256, with_payload: true, with_vector: withVector })
+      })
+
+      if (response.status === 404) return
+      if (!response.ok) {
+        throw new Error(`Scroll frames failed: ${response.statusText}`)
+      }
+
+      const data: any = await response.json()
+      for (const point of data.result?.points || []) {
+        const frame = this.toStoredFrame(point)
+        if (!withVector) {
+          yield frame
+          continue
+        }
+        // Unnamed layouts return the vector itself, named ones a map of vectors
+        const embedding = Array.isArray(point.vector) ? point.vector : point.vector?.[this.denseVectorName ?? '']
+        yield Array.isArray(embedding) ? { ...frame, embedding } : frame
+      }
+      offset = data.result?.next_page_offset ?? null
+    } while (offset !== null)
+  }
+
+  private toStoredFrame(point: any): StoredFrame {
+    const payload = point.payload || {}
+    return {
+      id: String(point.id),
+      timestamp: payload.timestamp || 0,
+      summary: openText(payload.summary) || '',
+      activeApplication: payload.activeApplication || null,
+      userActivity: openText(payload.userActivity),
+      visibleText: openList(payload.visibleText),
+      focusedApp: openText(payload.focusedApp),
+      focusedWindow: openText(payload.focusedWindow),
+      captureTrigger: payload.captureTrigger || 'timer',
+      appBundleId: payload.appBundleId || null,
+      appName: payload.appName || null,
+      windowTitle: payload.windowTitle || null,
+      windowBounds: payload.windowBoundsWidth
+        ? {
+            x: payload.windowBoundsX,
+            y: payload.windowBoundsY,
+            width: payload.windowBoundsWidth,
+            height: payload.windowBoundsHeight
+          }
+        : null,
+      perceptualHash: payload.perceptualHash || null,
+      ocrLines: openList(payload.ocrLines),
+      redactions: payload.redactions && typeof payload.redactions === 'object' ? payload.redactions : {},
+      privacyAction: payload.privacyAction || null,
+      embeddingModel: payload.embeddingModel || null,
+      lastSeenAt: payload.lastSeenAt || payload.timestamp || 0,
+      duplicateCount: payload.duplicateCount || 0
+    }
+  }
+
+  private toSearchResult(point: any, score: number): SearchResult {
+    return {
+      id: point.id,
+      score,
+      timestamp: point.payload?.timestamp || 0,
+      summary: openText(point.payload?.summary) || '',
+      activeApplication: point.payload?.activeApplication || null,
+      userActivity: openText(point.payload?.userActivity),
+      captureTrigger: point.payload?.captureTrigger || null,
+      appBundleId: point.payload?.appBundleId || null,
+      appName: point.payload?.appName || null,
+      windowTitle: point.payload?.windowTitle || null,
+      lastSeenAt: point.payload?.lastSeenAt || null,
+      duplicateCount: point.payload?.duplicateCount || 0
+    }
   }
 }
 
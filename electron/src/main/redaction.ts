@@ -0,0 +1,217 @@
+// A range of text to redact
+export interface RedactionSpan {
+  start: number
+  end: number
+}
+
+// Finds sensitive text. Detectors are registered on the redactor by name and
+// the name is used in the replacement marker and the audit counts.
+export interface RedactionDetector {
+  name: string
+  detect(text: string): RedactionSpan[]
+}
+
+// Redactions per detector name
+export type RedactionCounts = Record<string, number>
+
+export interface RedactionSettings {
+  // Names of built-in detectors to skip
+  disabledDetectors: string[]
+  // User-defined regular expressions
+  customPatterns: string[]
+}
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  disabledDetectors: [],
+  customPatterns: []
+}
+
+// Redacted text is replaced by `${REDACTION_MARKER}<detector>]`
+const REDACTION_MARKER = '[REDACTED:'
+
+// Tokens at least this long are candidates for entropy-based detection
+const MIN_TOKEN_LENGTH = 24
+// Bits per character above which a mixed-case alphanumeric token looks random
+const MIN_TOKEN_ENTROPY = 4.0
+
+const SECRET_PATTERNS: RegExp[] = [
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g,
+  /\bAKIA[0-9A-Z]{16}\b/g,
+  /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g,
+  /\bgithub_pat_[A-Za-z0-9_]{22,}\b/g,
+  /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g,
+  /\bAIza[0-9A-Za-z_-]{35}\b/g,
+  /\bxox[abposr]-[A-Za-z0-9-]{10,}/g,
+  /\beyJ[\w-]{10,}\.[\w-]{10,}\.[\w-]{10,}/g,
+  /(?<=\bBearer\s+)[A-Za-z0-9._~+/=-]{16,}/gi,
+  /(?<=\b(?:password|passwd|pwd|secret|token|api[_-]?key)\s*[:=]\s*)[^\s'",;]+/gi
+]
+
+const CARD_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g
+const SSN_PATTERN = /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g
+const EMAIL_PATTERN = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g
+const TOKEN_PATTERN = new RegExp(`[A-Za-z0-9+=_-]{${MIN_TOKEN_LENGTH},}`, 'g')
+
+function matchSpans(text: string, pattern: RegExp): RedactionSpan[] {
+  return [...text.matchAll(pattern)]
+    .filter((match) => match[0].length > 0)
+    .map((match) => ({ start: match.index!, end: match.index! + match[0].length }))
+}
+
+function regexDetector(name: string, patterns: RegExp[]): RedactionDetector {
+  return {
+    name,
+    detect: (text) => patterns.flatMap((pattern) => matchSpans(text, pattern))
+  }
+}
+
+// Luhn checksum, so order numbers and phone numbers aren't taken for cards
+function isValidCardNumber(digits: string): boolean {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>()
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1)
+  }
+  let entropy = 0
+  for (const count of counts.values()) {
+    const p = count / value.length
+    entropy -= p * Math.log2(p)
+  }
+  return entropy
+}
+
+export const BUILT_IN_DETECTORS: RedactionDetector[] = [
+  regexDetector('secret', SECRET_PATTERNS),
+  {
+    name: 'card',
+    detect: (text) =>
+      matchSpans(text, CARD_PATTERN).filter((span) => {
+        const digits = text.slice(span.start, span.end).replace(/\D/g, '')
+        return digits.length >= 13 && digits.length <= 19 && isValidCardNumber(digits)
+      })
+  },
+  regexDetector('ssn', [SSN_PATTERN]),
+  regexDetector('email', [EMAIL_PATTERN]),
+  {
+    // Random-looking tokens not caught by the known secret formats
+    name: 'token',
+    detect: (text) =>
+      matchSpans(text, TOKEN_PATTERN).filter((span) => {
+        const token = text.slice(span.start, span.end)
+        return /[a-z]/.test(token) && /[A-Z]/.test(token) && /\d/.test(token) && shannonEntropy(token) >= MIN_TOKEN_ENTROPY
+      })
+  }
+]
+
+function compileCustomPatterns(patterns: string[]): RegExp[] {
+  const compiled: RegExp[] = []
+  for (const pattern of patterns) {
+    if (!pattern.trim()) continue
+    try {
+      compiled.push(new RegExp(pattern, 'g'))
+    } catch (error) {
+      console.warn(`[Redaction] Ignoring invalid pattern '${pattern}':`, error)
+    }
+  }
+  return compiled
+}
+
+// Whether redact() replaced anything in this text
+export function containsRedaction(text: string | null): boolean {
+  return !!text && text.includes(REDACTION_MARKER)
+}
+
+export function addCounts(total: RedactionCounts, counts: RedactionCounts): RedactionCounts {
+  for (const [name, count] of Object.entries(counts)) {
+    total[name] = (total[name] || 0) + count
+  }
+  return total
+}
+
+/**
+ * Replaces secrets, card numbers, SSNs, emails, random-looking tokens and
+ * user-defined patterns with `[REDACTED:<detector>]` markers. Applied to frame
+ * text before it is sent to an LLM, embedded or stored.
+ */
+export class Redactor {
+  private detectors: RedactionDetector[] = []
+  private extraDetectors: RedactionDetector[] = []
+
+  constructor() {
+    this.configure(DEFAULT_REDACTION_SETTINGS)
+  }
+
+  configure(settings: Partial<RedactionSettings>): void {
+    const { disabledDetectors, customPatterns } = { ...DEFAULT_REDACTION_SETTINGS, ...settings }
+    this.detectors = BUILT_IN_DETECTORS.filter((detector) => !disabledDetectors.includes(detector.name))
+
+    const custom = compileCustomPatterns(customPatterns)
+    if (custom.length > 0) {
+      this.detectors.push(regexDetector('custom', custom))
+    }
+  }
+
+  // Add a detector that stays active across configure() calls
+  register(detector: RedactionDetector): void {
+    this.extraDetectors.push(detector)
+  }
+
+  redact(text: string): { text: string; counts: RedactionCounts } {
+    const counts: RedactionCounts = {}
+    if (!text) return { text, counts }
+
+    // Collect spans; where they overlap, the one starting first (then the longest) wins
+    const spans: Array<RedactionSpan & { name: string }> = []
+    for (const detector of [...this.detectors, ...this.extraDetectors]) {
+      for (const span of detector.detect(text)) {
+        spans.push({ ...span, name: detector.name })
+      }
+    }
+    if (spans.length === 0) return { text, counts }
+
+    spans.sort((a, b) => a.start - b.start || b.end - a.end)
+    let result = ''
+    let cursor = 0
+    for (const span of spans) {
+      if (span.start < cursor) continue
+      result += text.slice(cursor, span.start) + `${REDACTION_MARKER}${span.name}]`
+      cursor = span.end
+      counts[span.name] = (counts[span.name] || 0) + 1
+    }
+    return { text: result + text.slice(cursor), counts }
+  }
+
+  // Redact a list of strings, adding to `counts`
+  redactAll(texts: string[], counts: RedactionCounts): string[] {
+    return texts.map((text) => {
+      const redacted = this.redact(text)
+      addCounts(counts, redacted.counts)
+      return redacted.text
+    })
+  }
+
+  // Redact an optional string, adding to `counts`
+  redactOptional(text: string, counts: RedactionCounts): string
+  redactOptional(text: string | null, counts: RedactionCounts): string | null
+  redactOptional(text: string | null, counts: RedactionCounts): string | null {
+    if (!text) return text
+    const redacted = this.redact(text)
+    addCounts(counts, redacted.counts)
+    return redacted.text
+  }
+}
+
+// Singleton instance
+export const redactor = new Redactor()
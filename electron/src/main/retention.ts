@@ -0,0 +1,255 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { getFramesDirectory } from './utils'
+import { vectorStore } from './vector-store'
+import { frameProcessor } from './frame-processor'
+
+export interface AppRetentionOverride {
+  // Bundle id, or app name (case-insensitive)
+  app: string
+  maxAgeDays: number
+}
+
+export interface RetentionPolicy {
+  // 0 keeps frames regardless of age
+  maxAgeDays: number
+  // 0 places no limit on the space frame images may use
+  maxDiskMB: number
+  appOverrides: AppRetentionOverride[]
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  maxAgeDays: 0,
+  maxDiskMB: 0,
+  appOverrides: []
+}
+
+export interface RetentionUsage {
+  frameCount: number
+  imageCount: number
+  imageBytes: number
+}
+
+export interface CleanupSummary {
+  frameCount: number
+  imageBytes: number
+  // Capture time (epoch seconds) of the newest frame removed
+  newestTimestamp: number | null
+}
+
+export interface RetentionStatus {
+  policy: RetentionPolicy
+  usage: RetentionUsage
+  // What the next cleanup would remove under the current policy
+  pending: CleanupSummary
+  nextRunAt: number | null
+  lastRun: (CleanupSummary & { at: number }) | null
+}
+
+// A frame known to the vector store, the frames directory, or both
+interface RetentionCandidate {
+  id: string
+  // Last time the screen was seen (epoch seconds)
+  timestamp: number
+  appBundleId: string | null
+  appName: string | null
+  inStore: boolean
+  imageBytes: number | null
+}
+
+const FIRST_RUN_DELAY_MS = 5 * 60 * 1000
+const RUN_INTERVAL_MS = 60 * 60 * 1000
+const DELETE_BATCH_SIZE = 256
+const DAY_SECONDS = 24 * 60 * 60
+
+/**
+ * Deletes frames that fall outside the retention policy, removing the image
+ * and the vector store point together. Runs on a timer in the main process.
+ */
+export class RetentionJanitor {
+  private policy: RetentionPolicy = DEFAULT_RETENTION_POLICY
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private nextRunAt: number | null = null
+  private lastRun: (CleanupSummary & { at: number }) | null = null
+  private running: Promise<CleanupSummary> | null = null
+
+  configure(policy: Partial<RetentionPolicy>): void {
+    this.policy = { ...DEFAULT_RETENTION_POLICY, ...policy }
+  }
+
+  start(): void {
+    this.schedule(FIRST_RUN_DELAY_MS)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    this.nextRunAt = null
+  }
+
+  async getStatus(): Promise<RetentionStatus> {
+    const { usage, expired } = await this.plan()
+    return {
+      policy: this.policy,
+      usage,
+      pending: summarize(expired),
+      nextRunAt: this.nextRunAt,
+      lastRun: this.lastRun
+    }
+  }
+
+  // Run a cleanup now; joins the cleanup already in progress if there is one
+  runCleanup(): Promise<CleanupSummary> {
+    if (!this.running) {
+      this.running = this.cleanup().finally(() => {
+        this.running = null
+      })
+    }
+    return this.running
+  }
+
+  private schedule(delayMs: number): void {
+    this.stop()
+    this.nextRunAt = Date.now() + delayMs
+    this.timer = setTimeout(async () => {
+      try {
+        await this.runCleanup()
+      } catch (error) {
+        console.error('[Retention] Cleanup failed:', error)
+      }
+      this.schedule(RUN_INTERVAL_MS)
+    }, delayMs)
+  }
+
+  private async cleanup(): Promise<CleanupSummary> {
+    const { expired } = await this.plan()
+    const framesDir = getFramesDirectory()
+    const removed: RetentionCandidate[] = []
+
+    try {
+      for (let i = 0; i < expired.length; i += DELETE_BATCH_SIZE) {
+        const batch = expired.slice(i, i + DELETE_BATCH_SIZE)
+
+        // Points first: if this fails the images stay, so no point is left without its image
+        await vectorStore.deleteFrames(batch.filter((c) => c.inStore).map((c) => c.id))
+        await Promise.all(
+          batch
+            .filter((c) => c.imageBytes !== null)
+            .map((c) => fs.rm(path.join(framesDir, `${c.id}.jpg`), { force: true }))
+        )
+        frameProcessor.forgetFrames(new Set(batch.map((c) => c.id)))
+        removed.push(...batch)
+      }
+    } finally {
+      const summary = summarize(removed)
+      this.lastRun = { ...summary, at: Date.now() }
+      if (summary.frameCount > 0) {
+        console.log(
+          `[Retention] Removed ${summary.frameCount} frame(s), ` +
+            `${(summary.imageBytes / (1024 * 1024)).toFixed(1)} MB of images`
+        )
+      }
+    }
+
+    return this.lastRun
+  }
+
+  // Collect every frame and pick the ones the policy removes, oldest first
+  private async plan(): Promise<{ usage: RetentionUsage; expired: RetentionCandidate[] }> {
+    const candidates = new Map<string, RetentionCandidate>()
+    const usage: RetentionUsage = { frameCount: 0, imageCount: 0, imageBytes: 0 }
+
+    const framesDir = getFramesDirectory()
+    let files: string[] = []
+    try {
+      files = await fs.readdir(framesDir)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+    }
+    for (const file of files) {
+      if (!file.endsWith('.jpg')) continue
+      const stats = await fs.stat(path.join(framesDir, file)).catch(() => null)
+      if (!stats?.isFile()) continue
+
+      const id = file.slice(0, -'.jpg'.length)
+      candidates.set(id, {
+        id,
+        timestamp: stats.mtimeMs / 1000,
+        appBundleId: null,
+        appName: null,
+        inStore: false,
+        imageBytes: stats.size
+      })
+      usage.imageCount++
+      usage.imageBytes += stats.size
+    }
+
+    // Searches read the old collection during a migration, but frames
+    // captured since it started are only in the new one
+    const migration = vectorStore.getMigration()
+    for (const store of migration ? [vectorStore, migration.target] : [vectorStore]) {
+      for await (const frame of store.iterateFrames({}, { order: 'asc' })) {
+        // Already copied from the old collection
+        if (candidates.get(frame.id)?.inStore) continue
+        candidates.set(frame.id, {
+          id: frame.id,
+          timestamp: frame.lastSeenAt || frame.timestamp,
+          appBundleId: frame.appBundleId ?? null,
+          appName: frame.appName || frame.activeApplication || null,
+          inStore: true,
+          imageBytes: candidates.get(frame.id)?.imageBytes ?? null
+        })
+        usage.frameCount++
+      }
+    }
+
+    const sorted = [...candidates.values()].sort((a, b) => a.timestamp - b.timestamp)
+    const now = Date.now() / 1000
+    const expired = new Set<RetentionCandidate>()
+
+    for (const candidate of sorted) {
+      const maxAgeDays = this.getMaxAgeDays(candidate)
+      if (maxAgeDays > 0 && now - candidate.timestamp > maxAgeDays * DAY_SECONDS) {
+        expired.add(candidate)
+      }
+    }
+
+    if (this.policy.maxDiskMB > 0) {
+      const limit = this.policy.maxDiskMB * 1024 * 1024
+      let remaining = usage.imageBytes
+      for (const candidate of expired) {
+        remaining -= candidate.imageBytes ?? 0
+      }
+      for (const candidate of sorted) {
+        if (remaining <= limit) break
+        if (expired.has(candidate)) continue
+        expired.add(candidate)
+        remaining -= candidate.imageBytes ?? 0
+      }
+    }
+
+    return { usage, expired: sorted.filter((c) => expired.has(c)) }
+  }
+
+  private getMaxAgeDays(candidate: RetentionCandidate): number {
+    const override = this.policy.appOverrides.find(
+      ({ app }) =>
+        app === candidate.appBundleId || (!!candidate.appName && app.toLowerCase() === candidate.appName.toLowerCase())
+    )
+    return override ? override.maxAgeDays : this.policy.maxAgeDays
+  }
+}
+
+// Expects candidates oldest first
+function summarize(candidates: RetentionCandidate[]): CleanupSummary {
+  return {
+    frameCount: candidates.length,
+    imageBytes: candidates.reduce((sum, c) => sum + (c.imageBytes ?? 0), 0),
+    newestTimestamp: candidates.length > 0 ? candidates[candidates.length - 1].timestamp : null
+  }
+}
+
+// Singleton instance
+export const retentionJanitor = new RetentionJanitor()
@@ -0,0 +1,42 @@
+import type { FramePage, SearchResult } from './vector-store'
+
+// Position in a timestamp-ordered scan: the last timestamp returned and the
+// ids already returned at exactly that timestamp (ties are skipped on resume)
+export interface ScanCursor {
+  t: number
+  ids: string[]
+}
+
+export function encodeCursor(cursor: ScanCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+export function decodeCursor(cursor: string): ScanCursor {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'))
+    if (typeof parsed.t === 'number' && Array.isArray(parsed.ids)) {
+      return parsed
+    }
+  } catch {
+    // Fall through
+  }
+  throw new Error('Invalid cursor')
+}
+
+// Build a page from frames read past the cursor (skipped ids already removed).
+// Callers fetch one more than `limit` so we know whether another page exists.
+export function buildFramePage(candidates: SearchResult[], limit: number, position: ScanCursor | null): FramePage {
+  const frames = candidates.slice(0, limit)
+
+  if (candidates.length <= limit || frames.length === 0) {
+    return { frames, nextCursor: null }
+  }
+
+  const last = frames[frames.length - 1].timestamp
+  const idsAtLast = frames.filter((f) => f.timestamp === last).map((f) => String(f.id))
+  if (position && position.t === last) {
+    idsAtLast.push(...position.ids)
+  }
+
+  return { frames, nextCursor: encodeCursor({ t: last, ids: idsAtLast }) }
+}
@@ -1,18 +1,44 @@
 import express, { Request, Response } from 'express'
-import Anthropic from '@anthropic-ai/sdk'
+import crypto from 'crypto'
 import Store from 'electron-store'
-import { qdrantClient } from './qdrant'
+import { vectorStore } from './vector-store'
+import { llmService, DEFAULT_LOCAL_LLM_SETTINGS, LocalLLMSettings } from './llm'
 import { getFramesDirectory } from './utils'
+import { encryption } from './encryption'
+import { frameProcessor, downscaleImage } from './frame-processor'
+import { usageLedger } from './usage'
 import { toolDefinitions } from './tools/definitions'
-import { executeTool, ToolContext } from './tools/executor'
+import {
+  createAgentProvider,
+  createLocalAgentProvider,
+  isAgentProviderType,
+  AGENT_API_KEY_SETTINGS,
+  AgentProvider,
+  AgentProviderType,
+  AgentMessage,
+  AgentToolCall,
+  AgentToolResult,
+  ChatStreamWriter,
+  ChatUIMessage
+} from './agent'
+import { createUIMessageStream, pipeUIMessageStreamToResponse } from 'ai'
+import { executeTool, searchFrames, searchModeWarning, parseFrameFilter, ToolContext } from './tools/executor'
 import fs from 'fs'
 import path from 'path'
 
 const store = new Store()
 
+// AI SDK UI message parts. Text and tool calls are sent back to the model;
+// reasoning and data parts are only shown to the user.
 interface ChatMessagePart {
-  type: 'text'
-  text: string
+  type: string
+  text?: string
+  toolCallId?: string
+  toolName?: string
+  state?: string
+  input?: unknown
+  output?: unknown
+  errorText?: string
 }
 
 interface ChatMessage {
@@ -22,37 +48,29 @@ interface ChatMessage {
   id?: string
 }
 
-async function generateEmbedding(text: string): Promise<number[]> {
-  const apiKey = store.get('geminiAPIKey') as string
-  if (!apiKey) {
-    throw new Error('Gemini API key not configured')
+// Width of screenshots shown to the chat model by view_frame
+const VIEW_FRAME_MAX_WIDTH = 1280
+
+// Stored (encrypted) screenshot of a frame, downscaled for the model
+async function loadFrameImage(frameId: string): Promise<Buffer | null> {
+  try {
+    const imageBuffer = await encryption.readFile(frameProcessor.getImagePath(frameId))
+    return downscaleImage(imageBuffer, VIEW_FRAME_MAX_WIDTH)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
   }
-
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:embedContent?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        model: 'models/text-embedding-004',
-        content: { parts: [{ text }] }
-      })
-    }
-  )
-
-  if (!response.ok) {
-    throw new Error(`Embedding failed: ${response.statusText}`)
-  }
-
-  const data = await response.json()
-  return data.embedding?.values || []
 }
 
-// Create tool context
-function createToolContext(): ToolContext {
+// Create tool context, for the chat model that will see the results
+function createToolContext(provider?: AgentProvider): ToolContext {
   return {
-    qdrantClient,
-    generateEmbedding
+    vectorStore,
+    // Same model as stored frames, so query and frame vectors are comparable
+    generateEmbedding: (text) => llmService.generateEmbedding(text),
+    loadFrameImage,
+    supportsImages: provider?.supportsImages ?? false,
+    runsLocally: provider?.runsLocally ?? false
   }
 }
 
@@ -63,13 +81,14 @@ const AGENT_SYSTEM_PROMPT = `You are Localbird, a personal AI assistant with acc
 You have tools to search across screen captures and meeting transcripts. Use them to find relevant information before answering.
 
 ## Available Tools
-- semantic_search: Search by meaning/topic (use for "what was I working on", "find emails", etc.)
+- semantic_search: Search by meaning/topic and exact keywords (use for "what was I working on", "find emails", ticket IDs, error codes, etc.)
 - time_range_search: Search by time window (use for "yesterday", "this morning", "last hour")
 - app_search: Search by application (use for "in Chrome", "in VSCode", "in Slack")
 - get_recent: Get latest captures (use for "what was I just doing")
 - get_stats: Get usage statistics (use for "how much time", "productivity summary")
 - search_meetings: Search through meeting transcripts (use for "what did we discuss", "find meeting about X")
 - list_meetings: List all recorded meetings (use for "show my meetings", "recent calls")
+- view_frame: Look at the screenshot of a capture from earlier results, with all of its text (use when a summary is too vague)
 
 ## Guidelines
 1. **Search before answering**: When users ask about their activities or meetings, search first.
@@ -78,217 +97,271 @@ You have tools to search across screen captures and meeting transcripts. Use the
 4. **Synthesize results**: After searching, provide a helpful summary of what you found.
 5. **Acknowledge limitations**: If searches return nothing, say so and suggest alternatives.
 6. **Meeting queries**: When users ask about meetings, discussions, or calls, use search_meetings or list_meetings.
+7. **Look closer**: When a summary doesn't contain the detail asked for (exact numbers, code, message text), call view_frame with the frameId of the most relevant result.
+8. **Cite captures**: After a statement based on a screen capture, cite it as [frame:FRAME_ID] using the frameId from tool results, e.g. "You were reviewing the Q3 budget in Excel [frame:3f2a...]." Cite at most three captures per statement, only ones you were given, and never inside code blocks.
 
 ## Current Time
 {CURRENT_TIME}
 
 Use this to interpret relative time references like "today", "yesterday", "this morning".`
 
-// Convert assistant-ui message format to Anthropic format
-function convertMessages(messages: ChatMessage[]): Anthropic.MessageParam[] {
-  return messages
-    .filter((m) => m.role !== 'system')
-    .map((m) => {
-      const content = m.content || m.parts?.map((p) => p.text).join('') || ''
-      return {
-        role: m.role as 'user' | 'assistant',
-        content
+// Tool output as the model first saw it
+function toolResultContent(part: ChatMessagePart): string {
+  if (part.state !== 'output-available') return JSON.stringify({ error: part.errorText || 'No result' })
+  return typeof part.output === 'string' ? part.output : JSON.stringify(part.output)
+}
+
+// Convert assistant-ui message format to the agent's provider-neutral format.
+// Earlier replies keep their tool calls and results, so the model has the same context.
+function convertMessages(messages: ChatMessage[]): AgentMessage[] {
+  const agentMessages: AgentMessage[] = []
+
+  for (const m of messages) {
+    if (m.role === 'system') continue
+    if (m.role === 'user' || !m.parts) {
+      const content = m.content || m.parts?.filter((p) => p.type === 'text').map((p) => p.text).join('') || ''
+      agentMessages.push({ role: m.role, content })
+      continue
+    }
+
+    // A reply spans several model turns: text and tool calls, then the results.
+    // Each turn starts with a step-start part, so calls made after earlier
+    // results stay in their own turn.
+    let content = ''
+    let toolCalls: AgentToolCall[] = []
+    let results: AgentToolResult[] = []
+    const endTurn = () => {
+      if (!content && toolCalls.length === 0) return
+      agentMessages.push({ role: 'assistant', content, ...(toolCalls.length > 0 ? { toolCalls } : {}) })
+      if (results.length > 0) agentMessages.push({ role: 'tool', results })
+      content = ''
+      toolCalls = []
+      results = []
+    }
+
+    for (const part of m.parts) {
+      if (part.type === 'step-start') {
+        endTurn()
+      } else if (part.type === 'text') {
+        // Text after tool calls is the next turn, also in replies saved without steps
+        if (toolCalls.length > 0) endTurn()
+        content += part.text ?? ''
+      } else if (part.type === 'dynamic-tool' && part.toolCallId && part.toolName) {
+        toolCalls.push({ id: part.toolCallId, name: part.toolName, input: (part.input ?? {}) as Record<string, unknown> })
+        results.push({ toolCallId: part.toolCallId, name: part.toolName, content: toolResultContent(part) })
       }
-    })
+    }
+    endTurn()
+  }
+
+  return agentMessages
+}
+
+// Chat model selected in Settings (chatProvider), using its stored API key
+function createChatProvider(): AgentProvider {
+  const chatProvider = store.get('chatProvider', 'anthropic')
+  const type: AgentProviderType = isAgentProviderType(chatProvider) ? chatProvider : 'anthropic'
+
+  if (type === 'local') {
+    const settings = store.get('localLLM', DEFAULT_LOCAL_LLM_SETTINGS) as LocalLLMSettings
+    if (!settings.baseURL || !(settings.chatModel || settings.visionModel)) {
+      throw new Error('Local model server not configured')
+    }
+    return createLocalAgentProvider(settings, encryption.decryptString((store.get('localAPIKey') as string) || ''))
+  }
+
+  const { label, setting, envVar } = AGENT_API_KEY_SETTINGS[type]
+
+  const apiKey = encryption.decryptString((store.get(setting) as string) || '') || process.env[envVar]
+  if (!apiKey) {
+    throw new Error(`${label} API key not configured`)
+  }
+  return createAgentProvider(type, apiKey)
 }
 
-export function createServer() {
+// Origins of the app's own renderer: the packaged file:// page, or the dev server
+function getAllowedOrigins(): Set<string> {
+  const origins = new Set(['file://'])
+  const rendererUrl = process.env['ELECTRON_RENDERER_URL']
+  if (rendererUrl) {
+    origins.add(new URL(rendererUrl).origin)
+  }
+  return origins
+}
+
+// Bearer token in the Authorization header. <img> requests can't set headers,
+// so GET requests may pass it as the `token` query parameter instead.
+function isAuthorized(req: Request, authToken: string): boolean {
+  const header = req.headers.authorization
+  let token: string | undefined
+  if (header?.startsWith('Bearer ')) {
+    token = header.slice('Bearer '.length)
+  } else if (req.method === 'GET' && typeof req.query.token === 'string') {
+    token = req.query.token
+  }
+  if (!token) return false
+
+  const expected = Buffer.from(authToken)
+  const actual = Buffer.from(token)
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected)
+}
+
+export function createServer(authToken: string) {
   const app = express()
-  app.use(express.json({ limit: '50mb' }))
 
-  // CORS for renderer
-  app.use((_req, res, next) => {
-    res.header('Access-Control-Allow-Origin', '*')
-    res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS')
-    res.header('Access-Control-Allow-Headers', 'Content-Type')
+  // CORS only for the renderer, so other pages in a browser can't read responses
+  const allowedOrigins = getAllowedOrigins()
+  app.use((req, res, next) => {
+    const origin = req.headers.origin
+    if (origin && allowedOrigins.has(origin)) {
+      res.header('Access-Control-Allow-Origin', origin)
+      res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS')
+      res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization')
+    }
+    res.header('Vary', 'Origin')
     next()
   })
 
-  app.options('/api/chat', (_req, res) => {
-    res.sendStatus(200)
+  // Preflight requests never carry credentials
+  app.options('*', (_req, res) => {
+    res.sendStatus(204)
+  })
+
+  // Every route requires the per-launch token
+  app.use((req, res, next) => {
+    if (!isAuthorized(req, authToken)) {
+      res.status(401).json({ error: 'Unauthorized' })
+      return
+    }
+    next()
   })
 
+  app.use(express.json({ limit: '50mb' }))
+
   app.post('/api/chat', async (req: Request, res: Response) => {
+    // Stop generating when the client disconnects
+    const abortController = new AbortController()
     try {
       console.log('[Server] Received chat request')
       const { messages } = req.body as { messages: ChatMessage[] }
 
-      const claudeKey = (store.get('claudeAPIKey') as string) || process.env.ANTHROPIC_API_KEY
-      if (!claudeKey) {
-        throw new Error('Claude API key not configured')
-      }
-
-      const client = new Anthropic({ apiKey: claudeKey })
-      const toolContext = createToolContext()
+      const provider = createChatProvider()
+      const toolContext = createToolContext(provider)
 
       // Dynamic system prompt with current time
       const systemPrompt = AGENT_SYSTEM_PROMPT.replace('{CURRENT_TIME}', new Date().toISOString())
 
-      // Convert messages to Anthropic format
-      let anthropicMessages = convertMessages(messages)
+      const agentMessages = convertMessages(messages)
 
       // Track if client disconnected
       let clientDisconnected = false
       res.on('close', () => {
         clientDisconnected = true
+        abortController.abort()
       })
 
-      res.setHeader('Content-Type', 'text/plain; charset=utf-8')
-
-      // Agent loop - continue until no more tool calls or max iterations
-      const MAX_ITERATIONS = 10
-      let iteration = 0
-
-      while (iteration < MAX_ITERATIONS && !clientDisconnected) {
-        iteration++
-        console.log(`[Server] Agent iteration ${iteration}`)
-
-        // Create streaming message with extended thinking
-        const stream = client.messages.stream({
-          model: 'claude-opus-4-5',
-          max_tokens: 16000,
-          thinking: {
-            type: 'enabled',
-            budget_tokens: 10000
-          },
-          system: systemPrompt,
-          messages: anthropicMessages,
-          tools: toolDefinitions
-        })
-
-        // Collect the response
-        let textContent = ''
-        let thinkingContent = ''
-        let thinkingStarted = false
-        const toolUses: Array<{ id: string; name: string; input: Record<string, unknown> }> = []
-
-        // Stream thinking to client with start/end markers
-        stream.on('thinking', (thinking) => {
-          if (!clientDisconnected) {
-            if (!thinkingStarted) {
-              res.write('<thinking>')
-              thinkingStarted = true
-            }
-            thinkingContent += thinking
-            res.write(thinking)
-          }
-        })
-
-        // Stream text to client as it comes
-        stream.on('text', (text) => {
-          if (!clientDisconnected) {
-            // Close thinking tag if we were thinking
-            if (thinkingStarted) {
-              res.write('</thinking>')
-              thinkingStarted = false
+      const stream = createUIMessageStream<ChatUIMessage>({
+        execute: async ({ writer }) => {
+          const chat = new ChatStreamWriter(writer)
+          chat.start()
+
+          // Agent loop - continue until no more tool calls or max iterations
+          const MAX_ITERATIONS = 10
+          let iteration = 0
+
+          while (iteration < MAX_ITERATIONS && !clientDisconnected) {
+            iteration++
+            console.log(`[Server] Agent iteration ${iteration} (${provider.name} ${provider.model})`)
+
+            chat.startStep()
+            const turn = await provider.streamTurn(
+              {
+                system: systemPrompt,
+                messages: agentMessages,
+                tools: toolDefinitions,
+                signal: abortController.signal
+              },
+              {
+                onThinking: (thinking) => chat.thinking(thinking),
+                onText: (text) => chat.text(text),
+                onToolCallStart: (id, name) => chat.toolCallStart(id, name),
+                onToolCallInput: (id, json) => chat.toolCallInput(id, json)
+              }
+            )
+            chat.addUsage(turn.usage)
+
+            if (turn.toolCalls.length === 0) {
+              // No tool calls, we're done
+              chat.finishStep()
+              break
             }
-            textContent += text
-            res.write(text)
-          }
-        })
-
-        // Wait for the stream to complete
-        const response = await stream.finalMessage()
-
-        // Close thinking tag if still open
-        if (thinkingStarted && !clientDisconnected) {
-          res.write('</thinking>')
-          thinkingStarted = false
-        }
-
-        // Check for tool use
-        const hasToolUse = response.content.some((block) => block.type === 'tool_use')
 
-        if (!hasToolUse) {
-          // No tool calls, we're done
-          break
-        }
-
-        // Collect all tool uses
-        for (const block of response.content) {
-          if (block.type === 'tool_use') {
-            toolUses.push({
-              id: block.id,
-              name: block.name,
-              input: block.input as Record<string, unknown>
+            agentMessages.push({
+              role: 'assistant',
+              content: turn.text,
+              toolCalls: turn.toolCalls,
+              raw: turn.raw
             })
-          }
-        }
-
-        if (toolUses.length === 0) {
-          break
-        }
 
-        // Build assistant message with all content blocks
-        const assistantContent: Anthropic.ContentBlock[] = response.content
+            // Execute tools and add their results
+            const results: AgentToolResult[] = []
+            for (const toolCall of turn.toolCalls) {
+              console.log(`[Server] Executing tool: ${toolCall.name}`)
+              chat.toolCall(toolCall)
 
-        // Add assistant message
-        anthropicMessages.push({
-          role: 'assistant',
-          content: assistantContent
-        })
-
-        // Execute tools and build tool results
-        const toolResults: Anthropic.ToolResultBlockParam[] = []
-        for (const toolUse of toolUses) {
-          console.log(`[Server] Executing tool: ${toolUse.name}`)
+              const { content, images } = await executeTool(toolCall.name, toolCall.input, toolContext)
+              chat.toolResult(toolCall.id, content)
+              results.push({ toolCallId: toolCall.id, name: toolCall.name, content, images })
+            }
+            chat.finishStep()
 
-          // Notify user that we're using a tool
-          if (!clientDisconnected) {
-            res.write(`\n\n[Using ${toolUse.name}...]\n\n`)
+            agentMessages.push({ role: 'tool', results })
           }
 
-          const result = await executeTool(toolUse.name, toolUse.input, toolContext)
-          toolResults.push({
-            type: 'tool_result',
-            tool_use_id: toolUse.id,
-            content: result
-          })
+          chat.finish()
+        },
+        onError: (error) => {
+          if (abortController.signal.aborted) {
+            console.log('[Server] Chat request cancelled by client')
+          } else {
+            console.error('[Server] Chat error:', error)
+          }
+          return error instanceof Error ? error.message : 'Unknown error'
         }
+      })
 
-        // Add tool results as user message
-        anthropicMessages.push({
-          role: 'user',
-          content: toolResults
-        })
-      }
-
-      if (!clientDisconnected) {
-        res.end()
-      }
+      pipeUIMessageStreamToResponse({ response: res, stream })
     } catch (error) {
+      // Errors once streaming has started are sent as error chunks (see onError)
       console.error('[Server] Chat error:', error)
-      if (!res.headersSent) {
-        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' })
-      }
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' })
     }
   })
 
   // Get recent frames
   app.get('/api/frames', async (_req: Request, res: Response) => {
     try {
-      const frames = await qdrantClient.getRecentFrames(50)
+      const frames = await vectorStore.getRecentFrames(50)
       res.json({ frames })
     } catch (error) {
       res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' })
     }
   })
 
-  // Get frame image
-  app.get('/api/frames/:id/image', (req: Request, res: Response) => {
+  // Get frame image (stored encrypted)
+  app.get('/api/frames/:id/image', async (req: Request, res: Response) => {
     const { id } = req.params
     const framesDir = getFramesDirectory()
-    const imagePath = path.join(framesDir, `${id}.jpg`)
+    const imagePath = path.join(framesDir, `${path.basename(id)}.jpg`)
 
-    if (fs.existsSync(imagePath)) {
-      res.sendFile(imagePath)
-    } else {
+    if (!fs.existsSync(imagePath)) {
       res.status(404).json({ error: 'Image not found' })
+      return
+    }
+    try {
+      res.type('jpeg').send(await encryption.readFile(imagePath))
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' })
     }
   })
 
@@ -311,9 +384,12 @@ export function createServer() {
       }
 
       const latest = files[0]
+      const id = latest.name.replace('.jpg', '')
       res.json({
+        // The file is encrypted; imageUrl serves the decrypted image
         path: latest.path,
-        id: latest.name.replace('.jpg', ''),
+        imageUrl: `/api/frames/${id}/image`,
+        id,
         timestamp: new Date(latest.mtime).toISOString()
       })
     } catch (error) {
@@ -324,27 +400,59 @@ export function createServer() {
   // Search frames
   app.post('/api/frames/search', async (req: Request, res: Response) => {
     try {
-      const { query, limit = 20 } = req.body
-      const embedding = await generateEmbedding(query)
-      const frames = await qdrantClient.search(embedding, limit)
-      res.json({ frames })
+      const { query, limit = 20, mode = 'hybrid', filter } = req.body
+      if (!['hybrid', 'semantic', 'keyword'].includes(mode)) {
+        res.status(400).json({ error: `Invalid search mode: ${mode}` })
+        return
+      }
+      const frameFilter = parseFrameFilter(filter)
+      if ('error' in frameFilter) {
+        res.status(400).json({ error: frameFilter.error })
+        return
+      }
+      const context = createToolContext()
+      const frames = await searchFrames(query, mode, limit, context, frameFilter)
+      const warning = await searchModeWarning(mode, context)
+      res.json(warning ? { frames, warning } : { frames })
     } catch (error) {
       res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' })
     }
   })
 
-  // Get frames for timeline scrubber (all frames in time range, sorted by time)
+  // Get frames for timeline scrubber, one page at a time in ascending time order.
+  // Follow-up pages pass back `cursor` along with the `start`/`end` of the first response.
   app.get('/api/frames/timeline', async (req: Request, res: Response) => {
     try {
-      const hoursBack = parseInt(req.query.hours as string) || 24
-      const now = new Date()
-      const start = new Date(now.getTime() - hoursBack * 60 * 60 * 1000)
-      const frames = await qdrantClient.searchByTimeRange(start, now, 1000)
-      // Sort by timestamp ascending for timeline display
-      frames.sort((a, b) => a.timestamp - b.timestamp)
-      res.json({ frames, start: start.getTime() / 1000, end: now.getTime() / 1000 })
+      const limit = Math.min(parseInt(req.query.limit as string) || 500, 1000)
+      const cursor = (req.query.cursor as string) || null
+      let start: Date
+      let end: Date
+      if (req.query.start && req.query.end) {
+        start = new Date(parseFloat(req.query.start as string) * 1000)
+        end = new Date(parseFloat(req.query.end as string) * 1000)
+      } else {
+        const hoursBack = parseInt(req.query.hours as string) || 24
+        end = new Date()
+        start = new Date(end.getTime() - hoursBack * 60 * 60 * 1000)
+      }
+      if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+        res.status(400).json({ error: 'Invalid start or end' })
+        return
+      }
+
+      const page = await vectorStore.scrollPage(
+        { startTime: start, endTime: end },
+        { limit, cursor, order: 'asc' }
+      )
+      res.json({
+        frames: page.frames,
+        nextCursor: page.nextCursor,
+        start: start.getTime() / 1000,
+        end: end.getTime() / 1000
+      })
     } catch (error) {
-      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' })
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      res.status(message === 'Invalid cursor' ? 400 : 500).json({ error: message })
     }
   })
 
@@ -377,5 +485,35 @@ export function createServer() {
     }
   })
 
+  // Get one frame, e.g. one cited in a chat answer. Registered after the
+  // fixed /api/frames/* paths so it doesn't shadow them.
+  app.get('/api/frames/:id', async (req: Request, res: Response) => {
+    try {
+      const frame = await vectorStore.getFrame(req.params.id)
+      if (!frame) {
+        res.status(404).json({ error: 'Frame not found' })
+        return
+      }
+      res.json({ frame })
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' })
+    }
+  })
+
+  // Token usage and estimated cost by day, provider, purpose and model
+  app.get('/api/usage', async (req: Request, res: Response) => {
+    const days = req.query.days === undefined ? 30 : Number(req.query.days)
+    if (!Number.isInteger(days) || days < 1 || days > 366) {
+      res.status(400).json({ error: 'days must be an integer from 1 to 366' })
+      return
+    }
+
+    try {
+      res.json(await usageLedger.getSummary(days))
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' })
+    }
+  })
+
   return app
 }
@@ -0,0 +1,95 @@
+// Sparse keyword vectors for exact-token search alongside dense embeddings.
+// Document vectors carry BM25 term-frequency weights; Qdrant applies IDF at
+// query time (collection created with the `idf` modifier).
+
+export interface SparseVector {
+  indices: number[]
+  values: number[]
+}
+
+// BM25 parameters; AVG_DOC_LENGTH approximates a typical frame's token count
+const K1 = 1.2
+const B = 0.75
+const AVG_DOC_LENGTH = 200
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'will', 'with'
+])
+
+// Runs of letters/digits, allowing inner punctuation so identifiers like
+// "PROJ-1234", "ERR_CONN_RESET", "frame-processor.ts" and emails stay whole
+const TOKEN_PATTERN = /[\p{L}\p{N}](?:[\p{L}\p{N}_.\-/@#:]*[\p{L}\p{N}])?/gu
+const SUBTOKEN_SPLIT = /[_.\-/@#:]+/
+
+/**
+ * Split text into lowercase search tokens. Compound identifiers are indexed
+ * both whole and by their parts, so "PROJ-1234" matches "proj-1234", "proj"
+ * and "1234".
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = []
+
+  for (const match of text.toLowerCase().matchAll(TOKEN_PATTERN)) {
+    const token = match[0]
+    const parts = token.split(SUBTOKEN_SPLIT).filter((p) => p.length > 0)
+
+    if (parts.length > 1) {
+      tokens.push(token)
+      for (const part of parts) {
+        if (!STOPWORDS.has(part)) tokens.push(part)
+      }
+    } else if (!STOPWORDS.has(token)) {
+      tokens.push(token)
+    }
+  }
+
+  return tokens
+}
+
+// Maps a token to its sparse index, in Qdrant's uint32 index space
+export type TokenIndex = (token: string) => number
+
+// FNV-1a
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+function toSparseVector(weights: Map<number, number>): SparseVector {
+  const entries = [...weights.entries()].sort((a, b) => a[0] - b[0])
+  return {
+    indices: entries.map(([index]) => index),
+    values: entries.map(([, value]) => value)
+  }
+}
+
+// Build a document vector with BM25 term-frequency saturation
+export function buildDocumentSparseVector(text: string, tokenIndex: TokenIndex = hashToken): SparseVector {
+  const tokens = tokenize(text)
+  const counts = new Map<number, number>()
+  for (const token of tokens) {
+    const index = tokenIndex(token)
+    counts.set(index, (counts.get(index) || 0) + 1)
+  }
+
+  const lengthNorm = 1 - B + (B * tokens.length) / AVG_DOC_LENGTH
+  const weights = new Map<number, number>()
+  for (const [index, tf] of counts) {
+    weights.set(index, (tf * (K1 + 1)) / (tf + K1 * lengthNorm))
+  }
+  return toSparseVector(weights)
+}
+
+// Build a query vector: each distinct term counts once, IDF comes from Qdrant
+export function buildQuerySparseVector(text: string, tokenIndex: TokenIndex = hashToken): SparseVector {
+  const weights = new Map<number, number>()
+  for (const token of tokenize(text)) {
+    weights.set(tokenIndex(token), 1)
+  }
+  return toSparseVector(weights)
+}
@@ -0,0 +1,24 @@
+// Text filters (appName, windowTitle) match word prefixes, case-insensitively:
+// every word of the filter must begin some word of the field, so "gma inbox"
+// matches "Inbox - Gmail". Both vector stores use this; Qdrant through a
+// prefix-tokenized payload index built with the same minimum word length.
+
+// Shorter filter words are ignored
+export const MIN_FILTER_WORD_LENGTH = 2
+
+function splitWords(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u)
+}
+
+// Words of a filter value that take part in matching; a filter without any is ignored
+export function textFilterWords(query: string): string[] {
+  return splitWords(query).filter((word) => word.length >= MIN_FILTER_WORD_LENGTH)
+}
+
+export function matchesTextFilter(value: string | null, query: string): boolean {
+  const queryWords = textFilterWords(query)
+  if (queryWords.length === 0) return true
+  if (!value) return false
+  const words = splitWords(value)
+  return queryWords.every((q) => words.some((w) => w.startsWith(q)))
+}
@@ -5,7 +5,7 @@ export const toolDefinitions: Anthropic.Tool[] = [
   {
     name: 'semantic_search',
     description:
-      'Search screen captures by semantic similarity. Use when looking for activities, content, or topics from screen history.',
+      'Search screen captures by meaning and keywords. Use when looking for activities, content, or topics from screen history. Exact tokens like ticket IDs, error codes, filenames and names are matched literally in hybrid and keyword modes.',
     input_schema: {
       type: 'object',
       properties: {
@@ -13,6 +13,37 @@ export const toolDefinitions: Anthropic.Tool[] = [
           type: 'string',
           description: 'Search query describing what to find'
         },
+        mode: {
+          type: 'string',
+          enum: ['hybrid', 'semantic', 'keyword'],
+          description:
+            'hybrid (default) combines keyword and semantic matching; keyword for exact identifiers only; semantic for meaning only'
+        },
+        appName: {
+          type: 'string',
+          description: 'Optional: only search captures from this application (partial match, case-insensitive)'
+        },
+        appBundleId: {
+          type: 'string',
+          description: 'Optional: only search captures from the app with this exact bundle id (e.g. "com.google.Chrome")'
+        },
+        windowTitle: {
+          type: 'string',
+          description:
+            'Optional: only search captures whose window title has words starting with each word given (case-insensitive, e.g. "gma inbox" matches "Inbox - Gmail")'
+        },
+        captureTrigger: {
+          type: 'string',
+          description: 'Optional: only search captures with this trigger (e.g. "timer", "appchanged", "fullscreen", "manual")'
+        },
+        startTime: {
+          type: 'string',
+          description: 'Optional: earliest capture time (ISO 8601)'
+        },
+        endTime: {
+          type: 'string',
+          description: 'Optional: latest capture time (ISO 8601)'
+        },
         limit: {
           type: 'number',
           description: 'Maximum number of results (default 5)'
@@ -36,6 +67,15 @@ export const toolDefinitions: Anthropic.Tool[] = [
           type: 'string',
           description: 'End of time range (ISO 8601 format, e.g., "2024-01-15T17:00:00Z")'
         },
+        appName: {
+          type: 'string',
+          description: 'Optional: only include captures from this application (partial match, case-insensitive)'
+        },
+        windowTitle: {
+          type: 'string',
+          description:
+            'Optional: only include captures whose window title has words starting with each word given (case-insensitive, e.g. "gma inbox" matches "Inbox - Gmail")'
+        },
         limit: {
           type: 'number',
           description: 'Maximum number of results (default 20)'
@@ -47,7 +87,7 @@ export const toolDefinitions: Anthropic.Tool[] = [
   {
     name: 'app_search',
     description:
-      'Search screen captures filtered by application name. Optionally combine with semantic search. Use when user asks about specific apps like "Chrome", "VSCode", "Slack", etc.',
+      'Search screen captures filtered by application name, optionally narrowed by window title and time range, and ranked by a search query. Use when user asks about specific apps like "Chrome", "VSCode", "Slack", etc.',
     input_schema: {
       type: 'object',
       properties: {
@@ -58,7 +98,24 @@ export const toolDefinitions: Anthropic.Tool[] = [
         },
         query: {
           type: 'string',
-          description: 'Optional: semantic search query to further filter results'
+          description: 'Optional: search query to rank results within the app'
+        },
+        appBundleId: {
+          type: 'string',
+          description: 'Optional: only include captures from the app with this exact bundle id (e.g. "com.google.Chrome")'
+        },
+        windowTitle: {
+          type: 'string',
+          description:
+            'Optional: only include captures whose window title has words starting with each word given (case-insensitive, e.g. "gma inbox" matches "Inbox - Gmail")'
+        },
+        startTime: {
+          type: 'string',
+          description: 'Optional: earliest capture time (ISO 8601)'
+        },
+        endTime: {
+          type: 'string',
+          description: 'Optional: latest capture time (ISO 8601)'
         },
         limit: {
           type: 'number',
@@ -99,6 +156,21 @@ export const toolDefinitions: Anthropic.Tool[] = [
       required: ['period']
     }
   },
+  {
+    name: 'view_frame',
+    description:
+      'Look at the screenshot of a screen capture found by another tool, together with all text read from it and its window details. Use when a summary is too vague to answer, e.g. to read exact numbers, code, messages or what was on a page.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        frameId: {
+          type: 'string',
+          description: 'frameId of a capture from semantic_search, time_range_search, app_search or get_recent results'
+        }
+      },
+      required: ['frameId']
+    }
+  },
   {
     name: 'search_meetings',
     description:
@@ -134,3 +206,60 @@ export const toolDefinitions: Anthropic.Tool[] = [
     }
   }
 ]
+
+// OpenAI Chat Completions function tools
+export interface OpenAITool {
+  type: 'function'
+  function: {
+    name: string
+    description: string
+    parameters: Record<string, unknown>
+  }
+}
+
+export function toOpenAITools(tools: Anthropic.Tool[]): OpenAITool[] {
+  return tools.map((tool) => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description ?? '',
+      parameters: tool.input_schema as Record<string, unknown>
+    }
+  }))
+}
+
+// Gemini function declarations use an OpenAPI schema subset with upper-case types
+export interface GeminiFunctionDeclaration {
+  name: string
+  description: string
+  parameters: Record<string, unknown>
+}
+
+function toGeminiSchema(schema: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'type' && typeof value === 'string') {
+      result.type = value.toUpperCase()
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      result.properties = Object.fromEntries(
+        Object.entries(value).map(([name, property]) => [name, toGeminiSchema(property as Record<string, unknown>)])
+      )
+    } else if (key === 'items' && value && typeof value === 'object') {
+      result.items = toGeminiSchema(value as Record<string, unknown>)
+    } else if (key === 'required' && Array.isArray(value) && value.length === 0) {
+      // Gemini rejects an empty required list
+      continue
+    } else {
+      result[key] = value
+    }
+  }
+  return result
+}
+
+export function toGeminiTools(tools: Anthropic.Tool[]): GeminiFunctionDeclaration[] {
+  return tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description ?? '',
+    parameters: toGeminiSchema(tool.input_schema as Record<string, unknown>)
+  }))
+}
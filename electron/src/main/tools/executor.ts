@@ -1,17 +1,35 @@
-import type { QdrantClient, SearchResult } from '../qdrant'
-import { nativeBridge, MeetingListItem } from '../native-bridge'
+import type { VectorStore, SearchResult, SearchMode, FrameFilter } from '../vector-store'
+import type { MeetingListItem } from '../native-bridge'
+import { meetingStore } from '../meetings'
 
 export interface ToolContext {
-  qdrantClient: QdrantClient
+  vectorStore: VectorStore
   generateEmbedding: (text: string) => Promise<number[]>
+  // Stored screenshot of a frame, downscaled for the model, or null if it's gone
+  loadFrameImage?: (frameId: string) => Promise<Buffer | null>
+  // Whether the chat model accepts images, and runs on the user's machine
+  supportsImages?: boolean
+  runsLocally?: boolean
 }
 
-// Execute a tool and return the result as a string
+// A base64 encoded image returned to the model with a tool result
+export interface ToolImage {
+  mediaType: 'image/jpeg'
+  data: string
+}
+
+// Tool result text (JSON) and any images that go with it
+export interface ToolOutput {
+  content: string
+  images?: ToolImage[]
+}
+
+// Execute a tool and return the result as JSON text, plus images for view_frame
 export async function executeTool(
   name: string,
   input: Record<string, unknown>,
   context: ToolContext
-): Promise<string> {
+): Promise<ToolOutput> {
   try {
     let result: unknown
 
@@ -37,33 +55,55 @@ export async function executeTool(
       case 'list_meetings':
         result = await listMeetings(input as ListMeetingsInput)
         break
+      case 'view_frame': {
+        const { details, images } = await viewFrame(input as ViewFrameInput, context)
+        return { content: JSON.stringify(details, null, 2), images }
+      }
       default:
         result = { error: `Unknown tool: ${name}` }
     }
 
-    return JSON.stringify(result, null, 2)
+    return { content: JSON.stringify(result, null, 2) }
   } catch (error) {
-    return JSON.stringify({
-      error: error instanceof Error ? error.message : 'Tool execution failed'
-    })
+    return {
+      content: JSON.stringify({
+        error: error instanceof Error ? error.message : 'Tool execution failed'
+      })
+    }
   }
 }
 
 // Tool input types
-interface SemanticSearchInput {
+// Optional structured filters shared by the search tools
+interface FilterInput {
+  appName?: string
+  appBundleId?: string
+  windowTitle?: string
+  captureTrigger?: string
+  startTime?: string
+  endTime?: string
+}
+
+interface SemanticSearchInput extends FilterInput {
   query: string
+  mode?: SearchMode
   limit?: number
 }
 
 interface TimeRangeSearchInput {
   startTime: string
   endTime: string
+  appName?: string
+  windowTitle?: string
   limit?: number
 }
 
 interface AppSearchInput {
   appName: string
   query?: string
+  windowTitle?: string
+  startTime?: string
+  endTime?: string
   limit?: number
 }
 
@@ -84,41 +124,120 @@ interface ListMeetingsInput {
   limit?: number
 }
 
+interface ViewFrameInput {
+  frameId?: string
+}
+
+// Frame ids are UUIDs; anything else didn't come from a tool result
+const FRAME_ID_PATTERN = /^[\w-]+$/
+
 // Tool implementations
 async function semanticSearch(
   input: SemanticSearchInput,
   context: ToolContext
 ): Promise<unknown> {
-  const { query, limit = 5 } = input
-  const embedding = await context.generateEmbedding(query)
-  const results = await context.qdrantClient.search(embedding, limit)
+  const { query, mode = 'hybrid', limit = 5 } = input
+  const filter = parseFrameFilter(input)
+  if ('error' in filter) return { found: false, error: filter.error }
+
+  const results = await searchFrames(query, mode, limit, context, filter)
+  const warning = await searchModeWarning(mode, context)
 
   if (results.length === 0) {
     return {
       found: false,
-      message: 'No matching screen captures found for this query.'
+      message: 'No matching screen captures found for this query.',
+      ...(warning ? { warning } : {})
     }
   }
 
   return {
     found: true,
     count: results.length,
+    ...(warning ? { warning } : {}),
     results: results.map((r) => ({
+      frameId: r.id,
       timestamp: new Date(r.timestamp * 1000).toISOString(),
       timeAgo: getTimeAgo(r.timestamp),
       application: r.activeApplication || 'Unknown',
       summary: r.summary,
       activity: r.userActivity,
-      relevanceScore: Math.round(r.score * 100)
+      // Fused rankings aren't similarity scores, so only report them for semantic mode
+      ...(mode === 'semantic' ? { relevanceScore: Math.round(r.score * 100) } : {})
     }))
   }
 }
 
+// Run a frame search in the requested mode
+export async function searchFrames(
+  query: string,
+  mode: SearchMode,
+  limit: number,
+  context: ToolContext,
+  filter?: FrameFilter
+): Promise<SearchResult[]> {
+  if (mode === 'keyword' && context.vectorStore.supportsKeywordSearch()) {
+    return context.vectorStore.hybridSearch(query, null, limit, filter)
+  }
+
+  const embedding = await context.generateEmbedding(query)
+  if (mode === 'semantic') {
+    return context.vectorStore.search(embedding, limit, undefined, filter)
+  }
+  return context.vectorStore.hybridSearch(query, embedding, limit, filter)
+}
+
+// Keyword search needs a keyword index, which collections from older versions
+// lack until they are reindexed; searchFrames falls back to semantic search.
+// Semantic search is unavailable while frames are re-embedded for a new model.
+export async function searchModeWarning(mode: SearchMode, context: ToolContext): Promise<string | null> {
+  const keyword = context.vectorStore.supportsKeywordSearch()
+  const semantic = await context.vectorStore.supportsSemanticSearch()
+  if (keyword && semantic) return null
+
+  if (!keyword && !semantic) {
+    return 'Search is unavailable until stored frames are re-embedded for the new embedding model.'
+  }
+  if (mode === 'keyword' && !keyword) {
+    return 'Keyword search is unavailable until stored frames are reindexed; showing semantic matches instead.'
+  }
+  if (mode === 'semantic' && !semantic) {
+    return 'Semantic search is unavailable until stored frames are re-embedded for the new embedding model; use keyword or hybrid mode.'
+  }
+  if (mode === 'hybrid' && !semantic) {
+    return 'Showing keyword matches only until stored frames are re-embedded for the new embedding model.'
+  }
+  return null
+}
+
+// Convert tool/API filter input (ISO times) into a FrameFilter; a missing
+// or null input is no filter
+export function parseFrameFilter(input: FilterInput | null | undefined): FrameFilter | { error: string } {
+  const filter: FrameFilter = {}
+  if (!input) return filter
+
+  if (input.appName) filter.appName = input.appName
+  if (input.appBundleId) filter.appBundleId = input.appBundleId
+  if (input.windowTitle) filter.windowTitle = input.windowTitle
+  if (input.captureTrigger) filter.captureTrigger = input.captureTrigger
+
+  if (input.startTime) {
+    filter.startTime = new Date(input.startTime)
+    if (isNaN(filter.startTime.getTime())) return { error: 'Invalid startTime. Use ISO 8601 format.' }
+  }
+  if (input.endTime) {
+    filter.endTime = new Date(input.endTime)
+    if (isNaN(filter.endTime.getTime())) return { error: 'Invalid endTime. Use ISO 8601 format.' }
+  }
+
+  return filter
+}
+
 async function timeRangeSearch(
   input: TimeRangeSearchInput,
   context: ToolContext
 ): Promise<unknown> {
-  const { startTime, endTime, limit = 20 } = input
+  const { startTime, endTime, appName, windowTitle, limit = 20 } = input
   const start = new Date(startTime)
   const end = new Date(endTime)
 
@@ -129,7 +248,7 @@ async function timeRangeSearch(
     }
   }
 
-  const results = await context.qdrantClient.searchByTimeRange(start, end, limit)
+  const results = await context.vectorStore.searchByTimeRange(start, end, limit, { appName, windowTitle })
 
   if (results.length === 0) {
     return {
@@ -156,6 +275,7 @@ async function timeRangeSearch(
       .sort((a, b) => b[1] - a[1])
       .map(([app, count]) => ({ application: app, captures: count })),
     results: results.map((r) => ({
+      frameId: r.id,
       timestamp: new Date(r.timestamp * 1000).toISOString(),
       time: new Date(r.timestamp * 1000).toLocaleTimeString(),
       application: r.activeApplication || 'Unknown',
@@ -168,36 +288,19 @@ async function timeRangeSearch(
 async function appSearch(input: AppSearchInput, context: ToolContext): Promise<unknown> {
   const { appName, query, limit = 10 } = input
 
-  // Get recent frames and filter by app
-  const now = new Date()
-  const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
-  let results = await context.qdrantClient.searchByTimeRange(weekAgo, now, 500)
-
-  // Filter by application name (case-insensitive partial match)
-  const appNameLower = appName.toLowerCase()
-  results = results.filter((r) => {
-    const app = (r.activeApplication || '').toLowerCase()
-    return app.includes(appNameLower)
-  })
+  const filter = parseFrameFilter(input)
+  if ('error' in filter) return { found: false, error: filter.error }
 
-  // If query provided, do semantic search on filtered results
-  if (query && results.length > 0) {
-    const embedding = await context.generateEmbedding(query)
-    const semanticResults = await context.qdrantClient.search(embedding, limit * 2)
-
-    // Keep only results that match both app filter and semantic search
-    const filteredIds = new Set(results.map((r) => r.id))
-    results = semanticResults.filter((r) => filteredIds.has(r.id))
-  }
-
-  // Limit results
-  results = results.slice(0, limit)
+  // Filter by app server-side; rank by query if given, otherwise most recent first
+  const results = query
+    ? await searchFrames(query, 'hybrid', limit, context, filter)
+    : await context.vectorStore.scrollFrames(filter, limit, 'desc')
 
   if (results.length === 0) {
     return {
       found: false,
       message: `No screen captures found for application "${appName}"${query ? ` matching "${query}"` : ''}.`,
-      suggestion: `Try a partial app name or check if "${appName}" was used in the last week.`
+      suggestion: `Try a partial app name, a broader time range, or a different query.`
     }
   }
 
@@ -206,6 +309,7 @@ async function appSearch(input: AppSearchInput, context: ToolContext): Promise<u
     count: results.length,
     application: appName,
     results: results.map((r) => ({
+      frameId: r.id,
       timestamp: new Date(r.timestamp * 1000).toISOString(),
       timeAgo: getTimeAgo(r.timestamp),
       application: r.activeApplication || 'Unknown',
@@ -217,7 +321,7 @@ async function appSearch(input: AppSearchInput, context: ToolContext): Promise<u
 
 async function getRecent(input: GetRecentInput, context: ToolContext): Promise<unknown> {
   const { limit = 10 } = input
-  const results = await context.qdrantClient.getRecentFrames(limit)
+  const results = await context.vectorStore.getRecentFrames(limit)
 
   if (results.length === 0) {
     return {
@@ -249,6 +353,7 @@ async function getRecent(input: GetRecentInput, context: ToolContext): Promise<u
       .slice(0, 5)
       .map(([app, count]) => ({ application: app, captures: count })),
     results: results.map((r) => ({
+      frameId: r.id,
       timestamp: new Date(r.timestamp * 1000).toISOString(),
       timeAgo: getTimeAgo(r.timestamp),
       application: r.activeApplication || 'Unknown',
@@ -261,9 +366,34 @@ async function getRecent(input: GetRecentInput, context: ToolContext): Promise<u
 async function getStats(input: GetStatsInput, context: ToolContext): Promise<unknown> {
   const { period } = input
   const { start, end } = getTimeRange(period)
-  const results = await context.qdrantClient.searchByTimeRange(start, end, 1000)
 
-  if (results.length === 0) {
+  // Scan the whole period page by page, counting as we go so long periods are
+  // neither truncated nor held in memory.
+  // Unchanged screens are folded into one frame, so weight each frame by the
+  // captures it stands for when estimating time
+  const appUsage: Record<string, { count: number; captures: number; firstSeen: number; lastSeen: number }> = {}
+  const hourCounts: Record<number, number> = {}
+  let frameCount = 0
+  let totalCaptures = 0
+
+  for await (const r of context.vectorStore.iterateFrames({ startTime: start, endTime: end })) {
+    const app = r.activeApplication || 'Unknown'
+    const captures = 1 + (r.duplicateCount || 0)
+    if (!appUsage[app]) {
+      appUsage[app] = { count: 0, captures: 0, firstSeen: r.timestamp, lastSeen: r.timestamp }
+    }
+    appUsage[app].count++
+    appUsage[app].captures += captures
+    appUsage[app].firstSeen = Math.min(appUsage[app].firstSeen, r.timestamp)
+    appUsage[app].lastSeen = Math.max(appUsage[app].lastSeen, r.lastSeenAt || r.timestamp)
+    totalCaptures += captures
+
+    const hour = new Date(r.timestamp * 1000).getHours()
+    hourCounts[hour] = (hourCounts[hour] || 0) + 1
+    frameCount++
+  }
+
+  if (frameCount === 0) {
     return {
       found: false,
       message: `No screen captures found for ${period}.`,
@@ -275,26 +405,13 @@ async function getStats(input: GetStatsInput, context: ToolContext): Promise<unk
     }
   }
 
-  // Calculate app usage
-  const appUsage: Record<string, { count: number; firstSeen: number; lastSeen: number }> = {}
-
-  results.forEach((r) => {
-    const app = r.activeApplication || 'Unknown'
-    if (!appUsage[app]) {
-      appUsage[app] = { count: 0, firstSeen: r.timestamp, lastSeen: r.timestamp }
-    }
-    appUsage[app].count++
-    appUsage[app].firstSeen = Math.min(appUsage[app].firstSeen, r.timestamp)
-    appUsage[app].lastSeen = Math.max(appUsage[app].lastSeen, r.timestamp)
-  })
-
   // Sort by usage
   const sortedApps = Object.entries(appUsage)
-    .sort((a, b) => b[1].count - a[1].count)
+    .sort((a, b) => b[1].captures - a[1].captures)
     .map(([app, data]) => ({
       application: app,
       captures: data.count,
-      estimatedMinutes: Math.round((data.count * 5) / 60),
+      estimatedMinutes: Math.round((data.captures * 5) / 60),
       firstSeen: new Date(data.firstSeen * 1000).toLocaleTimeString(),
       lastSeen: new Date(data.lastSeen * 1000).toLocaleTimeString()
     }))
@@ -302,11 +419,6 @@ async function getStats(input: GetStatsInput, context: ToolContext): Promise<unk
   // Calculate time distribution by hour (for today/yesterday)
   let hourlyDistribution: { hour: number; captures: number }[] | undefined
   if (period === 'today' || period === 'yesterday') {
-    const hourCounts: Record<number, number> = {}
-    results.forEach((r) => {
-      const hour = new Date(r.timestamp * 1000).getHours()
-      hourCounts[hour] = (hourCounts[hour] || 0) + 1
-    })
     hourlyDistribution = Object.entries(hourCounts)
       .map(([hour, count]) => ({ hour: parseInt(hour), captures: count }))
       .sort((a, b) => a.hour - b.hour)
@@ -325,9 +437,9 @@ async function getStats(input: GetStatsInput, context: ToolContext): Promise<unk
       end: end.toLocaleString()
     },
     summary: {
-      totalCaptures: results.length,
+      totalCaptures: frameCount,
       uniqueApplications: Object.keys(appUsage).length,
-      estimatedActiveMinutes: Math.round((results.length * 5) / 60),
+      estimatedActiveMinutes: Math.round((totalCaptures * 5) / 60),
       mostUsedApp: sortedApps[0]?.application || 'Unknown',
       peakActivityHour: peakHour ? `${peakHour.hour}:00` : undefined
     },
@@ -336,6 +448,66 @@ async function getStats(input: GetStatsInput, context: ToolContext): Promise<unk
   }
 }
 
+// The stored screenshot of a frame with everything read from it
+async function viewFrame(
+  input: ViewFrameInput,
+  context: ToolContext
+): Promise<{ details: unknown; images?: ToolImage[] }> {
+  const { frameId } = input
+  if (typeof frameId !== 'string' || !FRAME_ID_PATTERN.test(frameId)) {
+    return { details: { found: false, error: 'Invalid frameId. Use a frameId from earlier search results.' } }
+  }
+
+  const frame = await context.vectorStore.getFrame(frameId)
+  if (!frame) {
+    return { details: { found: false, error: `No screen capture with frameId ${frameId}.` } }
+  }
+
+  // Local-only frames never leave the machine: a cloud model gets the app and
+  // the locally made summary, but not the image, screen text or window titles
+  // (which frame processing also keeps from cloud embedders)
+  const withheld = frame.privacyAction === 'local-only' && !context.runsLocally
+  const image = !withheld && context.supportsImages && context.loadFrameImage
+    ? await context.loadFrameImage(frame.id)
+    : null
+
+  let imageNote: string | undefined
+  if (withheld) {
+    imageNote = 'This capture is marked local-only; its image and text are not shared with cloud models.'
+  } else if (!context.supportsImages) {
+    imageNote = 'The current chat model cannot view images.'
+  } else if (!image) {
+    imageNote = 'The screenshot is no longer stored.'
+  }
+
+  const details = {
+    found: true,
+    frameId: frame.id,
+    timestamp: new Date(frame.timestamp * 1000).toISOString(),
+    timeAgo: getTimeAgo(frame.timestamp),
+    lastSeen: frame.lastSeenAt > frame.timestamp ? new Date(frame.lastSeenAt * 1000).toISOString() : undefined,
+    application: frame.activeApplication || frame.appName || 'Unknown',
+    appName: frame.appName,
+    appBundleId: frame.appBundleId,
+    windowTitle: withheld ? undefined : frame.windowTitle,
+    focusedApp: frame.focusedApp,
+    focusedWindow: withheld ? undefined : frame.focusedWindow,
+    windowBounds: frame.windowBounds,
+    captureTrigger: frame.captureTrigger,
+    blurred: frame.privacyAction === 'blur' || undefined,
+    summary: frame.summary,
+    activity: frame.userActivity,
+    visibleText: withheld ? undefined : frame.visibleText,
+    ocrText: withheld ? undefined : frame.ocrLines.map((line) => line.text),
+    image: image ? 'attached' : imageNote
+  }
+
+  return {
+    details,
+    images: image ? [{ mediaType: 'image/jpeg', data: image.toString('base64') }] : undefined
+  }
+}
+
 // Helper functions
 function getTimeAgo(timestamp: number): string {
   const seconds = Math.floor(Date.now() / 1000 - timestamp)
@@ -386,7 +558,7 @@ async function searchMeetings(input: SearchMeetingsInput): Promise<unknown> {
 
   try {
     // Get all meetings
-    const meetings = await nativeBridge.getMeetings()
+    const meetings = await meetingStore.list()
 
     if (meetings.length === 0) {
       return {
@@ -401,7 +573,7 @@ async function searchMeetings(input: SearchMeetingsInput): Promise<unknown> {
 
     for (const meeting of meetings) {
       // Get full meeting to search transcript
-      const fullMeeting = await nativeBridge.getMeeting(meeting.id)
+      const fullMeeting = await meetingStore.get(meeting.id)
       if (!fullMeeting) continue
 
       let matchScore = 0
@@ -444,7 +616,7 @@ async function searchMeetings(input: SearchMeetingsInput): Promise<unknown> {
       query,
       results: await Promise.all(
         results.map(async (meeting) => {
-          const fullMeeting = await nativeBridge.getMeeting(meeting.id)
+          const fullMeeting = await meetingStore.get(meeting.id)
           const transcript = fullMeeting?.transcript || ''
 
           // Extract relevant snippet around the query
@@ -482,7 +654,7 @@ async function listMeetings(input: ListMeetingsInput): Promise<unknown> {
   const { limit = 10 } = input
 
   try {
-    const meetings = await nativeBridge.getMeetings()
+    const meetings = await meetingStore.list()
 
     if (meetings.length === 0) {
       return {
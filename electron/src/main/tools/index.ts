@@ -1,3 +1,4 @@
-// Anthropic SDK native tools
-export { toolDefinitions } from './definitions'
-export { executeTool, type ToolContext } from './executor'
+// Anthropic SDK native tools, and their OpenAI and Gemini translations
+export { toolDefinitions, toOpenAITools, toGeminiTools } from './definitions'
+export type { OpenAITool, GeminiFunctionDeclaration } from './definitions'
+export { executeTool, searchFrames, parseFrameFilter, type ToolContext, type ToolImage, type ToolOutput } from './executor'
@@ -0,0 +1,375 @@
+import { app } from 'electron'
+import fs from 'fs/promises'
+import path from 'path'
+import type { LLMProviderType } from './llm/types'
+
+// vision: frame analysis, embedding: frame indexing and search queries,
+// chat: LLMService.chat, agent: the chat assistant's tool-use loop
+export type UsagePurpose = 'vision' | 'embedding' | 'chat' | 'agent'
+
+export interface TokenUsage {
+  provider: LLMProviderType
+  model: string
+  purpose: UsagePurpose
+  inputTokens: number
+  outputTokens: number
+  images?: number
+}
+
+// One provider request, as stored in the ledger
+export interface UsageRecord extends Required<TokenUsage> {
+  // Epoch milliseconds
+  at: number
+  // Estimated USD; null when the model's price is unknown
+  cost: number | null
+}
+
+export interface UsageTotals {
+  requests: number
+  inputTokens: number
+  outputTokens: number
+  images: number
+  cost: number
+  // Requests to models without a known price, not included in cost
+  unpricedRequests: number
+}
+
+export interface UsageBudgetStatus {
+  // 0 means no cap
+  dailyLimitUSD: number
+  spentTodayUSD: number
+  exceeded: boolean
+  // Local midnight, when today's spending starts over
+  resetsAt: number
+}
+
+export interface UsageSummary {
+  days: Array<{ date: string } & UsageTotals>
+  byProvider: Array<{ provider: LLMProviderType } & UsageTotals>
+  byPurpose: Array<{ purpose: UsagePurpose } & UsageTotals>
+  byModel: Array<{ provider: LLMProviderType; model: string } & UsageTotals>
+  total: UsageTotals
+  budget: UsageBudgetStatus
+}
+
+// USD per million tokens, matched by model name prefix (longest first).
+// Estimates from published list prices; long-context tiers and caching
+// discounts are ignored.
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-embedding-001': { input: 0.15, output: 0 },
+  'text-embedding-004': { input: 0, output: 0 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+  'claude-opus-4-5': { input: 5, output: 25 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 }
+}
+
+const PRICE_PREFIXES = Object.keys(MODEL_PRICES).sort((a, b) => b.length - a.length)
+
+// Daily ledger files older than this are deleted
+const LEDGER_RETENTION_DAYS = 400
+
+const LEDGER_FILE_PATTERN = /^(\d{4}-\d{2}-\d{2})\.jsonl$/
+
+export function estimateCost(provider: LLMProviderType, model: string, inputTokens: number, outputTokens: number): number | null {
+  // Models on the user's own server cost nothing per token
+  if (provider === 'local') return 0
+  const prefix = PRICE_PREFIXES.find((p) => model.startsWith(p))
+  if (!prefix) return null
+  const price = MODEL_PRICES[prefix]
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000
+}
+
+// Rough token count for requests whose response doesn't report usage
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+// Local calendar day, e.g. '2026-10-19'
+function dayKey(time: number): string {
+  const date = new Date(time)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+function nextMidnight(time: number): number {
+  const date = new Date(time)
+  date.setHours(24, 0, 0, 0)
+  return date.getTime()
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, inputTokens: 0, outputTokens: 0, images: 0, cost: 0, unpricedRequests: 0 }
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): void {
+  totals.requests++
+  totals.inputTokens += record.inputTokens
+  totals.outputTokens += record.outputTokens
+  totals.images += record.images
+  if (record.cost === null) {
+    totals.unpricedRequests++
+  } else {
+    totals.cost += record.cost
+  }
+}
+
+function addTotals(totals: UsageTotals, other: UsageTotals): void {
+  totals.requests += other.requests
+  totals.inputTokens += other.inputTokens
+  totals.outputTokens += other.outputTokens
+  totals.images += other.images
+  totals.cost += other.cost
+  totals.unpricedRequests += other.unpricedRequests
+}
+
+// Totals for one day, per provider, model and purpose
+type DayUsage = Map<string, { provider: LLMProviderType; model: string; purpose: UsagePurpose; totals: UsageTotals }>
+
+function addToDay(dayUsage: DayUsage, record: UsageRecord): void {
+  const key = `${record.provider}|${record.model}|${record.purpose}`
+  let entry = dayUsage.get(key)
+  if (!entry) {
+    entry = { provider: record.provider, model: record.model, purpose: record.purpose, totals: emptyTotals() }
+    dayUsage.set(key, entry)
+  }
+  addRecord(entry.totals, record)
+}
+
+function sortByCost<T extends UsageTotals>(rows: T[]): T[] {
+  return rows.sort((a, b) => b.cost - a.cost || b.requests - a.requests)
+}
+
+/**
+ * Ledger of tokens, images and estimated cost of every provider request, in
+ * one JSON-lines file per day. Enforces the optional daily budget that
+ * pauses frame analysis.
+ */
+export class UsageLedger {
+  private ledgerDir: string | null = null
+  // Records made before initialize(), written once the directory is known
+  private pending: UsageRecord[] = []
+  private writeChain: Promise<void> = Promise.resolve()
+  // Aggregates of past days, which no longer change
+  private dayCache: Map<string, DayUsage> = new Map()
+  private today = dayKey(Date.now())
+  private todayUsage: DayUsage = new Map()
+  private todayCost = 0
+  private dailyLimitUSD = 0
+  private budgetExceeded = false
+  private budgetListener: ((status: UsageBudgetStatus) => void) | null = null
+
+  async initialize(): Promise<void> {
+    if (this.ledgerDir) return
+
+    const ledgerDir = path.join(app.getPath('userData'), 'usage')
+    await fs.mkdir(ledgerDir, { recursive: true })
+    await this.pruneOldFiles(ledgerDir)
+
+    // Today's requests so far count toward the budget; pending ones are added on top
+    const pending = this.pending
+    this.pending = []
+    this.today = dayKey(Date.now())
+    this.todayUsage = await this.readDay(ledgerDir, this.today)
+    this.todayCost = [...this.todayUsage.values()].reduce((sum, entry) => sum + entry.totals.cost, 0)
+    this.ledgerDir = ledgerDir
+
+    for (const record of pending) {
+      this.append(record)
+      if (dayKey(record.at) === this.today) this.todayCost += record.cost ?? 0
+    }
+    this.checkBudget()
+    console.log(`[Usage] Ledger ready, $${this.todayCost.toFixed(4)} spent today`)
+  }
+
+  configure(options: { dailyBudgetUSD?: number }): void {
+    this.dailyLimitUSD = Math.max(0, Number(options.dailyBudgetUSD) || 0)
+    this.checkBudget()
+  }
+
+  setBudgetListener(listener: (status: UsageBudgetStatus) => void): void {
+    this.budgetListener = listener
+  }
+
+  record(usage: TokenUsage): void {
+    const record: UsageRecord = {
+      at: Date.now(),
+      provider: usage.provider,
+      model: usage.model,
+      purpose: usage.purpose,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      images: usage.images ?? 0,
+      cost: estimateCost(usage.provider, usage.model, usage.inputTokens, usage.outputTokens)
+    }
+
+    if (!this.ledgerDir) {
+      this.pending.push(record)
+      return
+    }
+
+    this.rollOver(record.at)
+    this.append(record)
+    this.todayCost += record.cost ?? 0
+    this.checkBudget()
+  }
+
+  getBudgetStatus(): UsageBudgetStatus {
+    const now = Date.now()
+    this.rollOver(now)
+    return {
+      dailyLimitUSD: this.dailyLimitUSD,
+      spentTodayUSD: this.todayCost,
+      exceeded: this.dailyLimitUSD > 0 && this.todayCost >= this.dailyLimitUSD,
+      resetsAt: nextMidnight(now)
+    }
+  }
+
+  // Until when paid analysis should wait for the budget to reset, or null to carry on
+  getBudgetPausedUntil(): number | null {
+    const status = this.getBudgetStatus()
+    return status.exceeded ? status.resetsAt : null
+  }
+
+  // Aggregates over the last `days` days, including today
+  async getSummary(days: number = 30): Promise<UsageSummary> {
+    const summary: UsageSummary = {
+      days: [],
+      byProvider: [],
+      byPurpose: [],
+      byModel: [],
+      total: emptyTotals(),
+      budget: this.getBudgetStatus()
+    }
+    const byProvider = new Map<LLMProviderType, UsageTotals>()
+    const byPurpose = new Map<UsagePurpose, UsageTotals>()
+    const byModel = new Map<string, { provider: LLMProviderType; model: string; totals: UsageTotals }>()
+
+    const start = new Date()
+    start.setHours(12, 0, 0, 0)
+    for (let offset = Math.max(1, Math.floor(days)) - 1; offset >= 0; offset--) {
+      const date = dayKey(start.getTime() - offset * 24 * 60 * 60 * 1000)
+      const dayTotals = emptyTotals()
+
+      for (const entry of (await this.getDay(date)).values()) {
+        addTotals(dayTotals, entry.totals)
+
+        if (!byProvider.has(entry.provider)) byProvider.set(entry.provider, emptyTotals())
+        addTotals(byProvider.get(entry.provider)!, entry.totals)
+
+        if (!byPurpose.has(entry.purpose)) byPurpose.set(entry.purpose, emptyTotals())
+        addTotals(byPurpose.get(entry.purpose)!, entry.totals)
+
+        const modelKey = `${entry.provider}/${entry.model}`
+        if (!byModel.has(modelKey)) {
+          byModel.set(modelKey, { provider: entry.provider, model: entry.model, totals: emptyTotals() })
+        }
+        addTotals(byModel.get(modelKey)!.totals, entry.totals)
+      }
+
+      summary.days.push({ date, ...dayTotals })
+      addTotals(summary.total, dayTotals)
+    }
+
+    summary.byProvider = sortByCost([...byProvider].map(([provider, totals]) => ({ provider, ...totals })))
+    summary.byPurpose = sortByCost([...byPurpose].map(([purpose, totals]) => ({ purpose, ...totals })))
+    summary.byModel = sortByCost([...byModel.values()].map(({ provider, model, totals }) => ({ provider, model, ...totals })))
+    return summary
+  }
+
+  private async getDay(date: string): Promise<DayUsage> {
+    this.rollOver(Date.now())
+    if (date === this.today) return this.todayUsage
+
+    let dayUsage = this.dayCache.get(date)
+    if (!dayUsage) {
+      dayUsage = this.ledgerDir ? await this.readDay(this.ledgerDir, date) : new Map()
+      this.dayCache.set(date, dayUsage)
+    }
+    return dayUsage
+  }
+
+  private async readDay(ledgerDir: string, date: string): Promise<DayUsage> {
+    const dayUsage: DayUsage = new Map()
+    let content: string
+    try {
+      content = await fs.readFile(path.join(ledgerDir, `${date}.jsonl`), 'utf-8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return dayUsage
+      throw error
+    }
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue
+      try {
+        addToDay(dayUsage, JSON.parse(line) as UsageRecord)
+      } catch {
+        // A line cut short by a crash; skip it
+      }
+    }
+    return dayUsage
+  }
+
+  // Start a new day's totals once the date changes
+  private rollOver(now: number): void {
+    const date = dayKey(now)
+    if (date === this.today) return
+
+    this.dayCache.set(this.today, this.todayUsage)
+    this.today = date
+    this.todayUsage = new Map()
+    this.todayCost = 0
+    this.checkBudget()
+  }
+
+  private append(record: UsageRecord): void {
+    const date = dayKey(record.at)
+    if (date === this.today) {
+      addToDay(this.todayUsage, record)
+    } else {
+      this.dayCache.delete(date)
+    }
+
+    const filePath = path.join(this.ledgerDir!, `${date}.jsonl`)
+    this.writeChain = this.writeChain
+      .then(() => fs.appendFile(filePath, JSON.stringify(record) + '\n'))
+      .catch((error) => console.error('[Usage] Failed to write ledger:', error))
+  }
+
+  private checkBudget(): void {
+    const exceeded = this.dailyLimitUSD > 0 && this.todayCost >= this.dailyLimitUSD
+    if (exceeded === this.budgetExceeded) return
+
+    this.budgetExceeded = exceeded
+    if (exceeded) {
+      console.warn(`[Usage] Daily budget of $${this.dailyLimitUSD} reached, pausing analysis until midnight`)
+    }
+    this.budgetListener?.(this.getBudgetStatus())
+  }
+
+  private async pruneOldFiles(ledgerDir: string): Promise<void> {
+    const oldest = dayKey(Date.now() - LEDGER_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+    for (const file of await fs.readdir(ledgerDir)) {
+      const match = LEDGER_FILE_PATTERN.exec(file)
+      if (match && match[1] < oldest) {
+        await fs.unlink(path.join(ledgerDir, file)).catch(() => {})
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const usageLedger = new UsageLedger()
@@ -0,0 +1,431 @@
+import Store from 'electron-store'
+import { qdrantClient, QdrantClient } from './qdrant'
+import { localVectorStore, LocalVectorStore } from './local-vector-store'
+import type { OcrLine } from './ocr'
+import type { RedactionCounts } from './redaction'
+import type { PrivacyAction } from './privacy-rules'
+
+const store = new Store()
+
+export type SearchMode = 'semantic' | 'keyword' | 'hybrid'
+
+export interface SearchResult {
+  id: string
+  score: number
+  timestamp: number
+  summary: string
+  activeApplication: string | null
+  userActivity: string | null
+  captureTrigger?: string | null
+  appBundleId?: string | null
+  appName?: string | null
+  windowTitle?: string | null
+  lastSeenAt?: number | null
+  duplicateCount?: number
+}
+
+// Structured constraints applied server-side alongside a search or scan
+export interface FrameFilter {
+  // Word-prefix match (see text-filter.ts) against the native app name or the detected application
+  appName?: string
+  appBundleId?: string
+  // Word-prefix match against the window title
+  windowTitle?: string
+  captureTrigger?: string | string[]
+  startTime?: Date
+  endTime?: Date
+}
+
+export interface FramePage {
+  frames: SearchResult[]
+  // Opaque cursor for the next page, or null when the scan is complete
+  nextCursor: string | null
+}
+
+export interface ScrollPageOptions {
+  limit?: number
+  cursor?: string | null
+  order?: 'asc' | 'desc'
+}
+
+export interface CollectionInfo {
+  name: string
+  pointsCount: number
+  vectorsCount: number
+}
+
+export interface ProcessedFrame {
+  id: string
+  timestamp: number
+  embedding: number[]
+  summary: string
+  activeApplication: string | null
+  userActivity: string | null
+  visibleText: string[]
+  focusedApp: string | null
+  focusedWindow: string | null
+  captureTrigger: string
+  appBundleId: string | null
+  appName: string | null
+  windowTitle: string | null
+  windowBounds: { x: number; y: number; width: number; height: number } | null
+  perceptualHash: string | null
+  // Text read by local OCR, with line positions in image pixels
+  ocrLines: OcrLine[]
+  // Sensitive text removed before storage, by detector
+  redactions: RedactionCounts
+  // Privacy rule that applied at capture; null when none did or the frame
+  // was stored before this was recorded
+  privacyAction: PrivacyAction | null
+  // Model that produced `embedding`, stored on the point as its collection tag
+  embeddingModel: string
+  // Carried over when a frame is copied between collections
+  lastSeenAt?: number
+  duplicateCount?: number
+}
+
+// A frame as stored, without its vector. Points written before model tagging
+// have no embeddingModel.
+export type StoredFrame = Omit<ProcessedFrame, 'embedding' | 'embeddingModel' | 'lastSeenAt' | 'duplicateCount'> & {
+  embeddingModel: string | null
+  lastSeenAt: number
+  duplicateCount: number
+}
+
+// The embedding model and vector size a collection holds
+export interface EmbeddingSpace {
+  // Provider-qualified model id; null when no stored point carries a tag
+  model: string | null
+  dimension: number
+}
+
+// Collections created before model tagging were always embedded with this model
+export const LEGACY_EMBEDDING_MODEL = 'gemini/text-embedding-004'
+const LEGACY_DIMENSION = 768
+
+// Whether vectors stored in `stored` can be compared with ones made in `desired`
+export function isCompatible(stored: EmbeddingSpace, desired: EmbeddingSpace, isEmpty: boolean): boolean {
+  if (stored.dimension !== desired.dimension) return false
+  if (stored.model !== null) return stored.model === desired.model
+  // Untagged: either nothing stored yet, or legacy points from the original model
+  return isEmpty || (desired.model === LEGACY_EMBEDDING_MODEL && stored.dimension === LEGACY_DIMENSION)
+}
+
+/**
+ * Storage and retrieval of processed frames. Implemented by the Qdrant client
+ * and by an in-process store for machines where Qdrant can't run.
+ */
+export interface VectorStore {
+  healthCheck(): Promise<boolean>
+  // Create the collection for the given embedding space if it doesn't exist
+  ensureCollection(space: EmbeddingSpace): Promise<void>
+  // Embedding space of the existing collection, or null if there is none
+  getEmbeddingSpace(): Promise<EmbeddingSpace | null>
+  deleteCollection(): Promise<void>
+  supportsKeywordSearch(): boolean
+  // Whether query embeddings from the current embedding model can be searched
+  supportsSemanticSearch(): Promise<boolean>
+  upsertFrame(frame: ProcessedFrame): Promise<void>
+  extendFrame(id: string, lastSeenAt: number, duplicateCount: number): Promise<void>
+  // Remove frames by id; ids that aren't stored are ignored
+  deleteFrames(ids: string[]): Promise<void>
+  search(embedding: number[], limit?: number, scoreThreshold?: number, filter?: FrameFilter): Promise<SearchResult[]>
+  hybridSearch(
+    queryText: string,
+    embedding: number[] | null,
+    limit?: number,
+    filter?: FrameFilter
+  ): Promise<SearchResult[]>
+  searchByTimeRange(start: Date, end: Date, limit?: number, filter?: FrameFilter): Promise<SearchResult[]>
+  scrollFrames(filter: FrameFilter, limit?: number, order?: 'asc' | 'desc'): Promise<SearchResult[]>
+  scrollPage(filter: FrameFilter, options?: ScrollPageOptions): Promise<FramePage>
+  iterateFrames(filter: FrameFilter, options?: { order?: 'asc' | 'desc'; pageSize?: number }): AsyncGenerator<SearchResult>
+  getCollectionInfo(): Promise<CollectionInfo | null>
+  getRecentFrames(limit?: number): Promise<SearchResult[]>
+  hasFrame(id: string): Promise<boolean>
+  // A frame with its full payload, or null if it isn't stored
+  getFrame(id: string): Promise<StoredFrame | null>
+  // Every stored frame with its full payload, in no particular order. With
+  // `withEmbeddings`, frames also carry their stored vector.
+  iterateStoredFrames(options?: { withEmbeddings?: boolean }): AsyncGenerator<StoredFrame & { embedding?: number[] }>
+}
+
+// 'auto' uses Qdrant when it is reachable and the built-in store otherwise
+export type VectorStorePreference = 'auto' | 'qdrant' | 'local'
+export type VectorStoreKind = 'qdrant' | 'local'
+
+export interface VectorStoreStatus {
+  preference: VectorStorePreference
+  active: VectorStoreKind
+  healthy: boolean
+}
+
+const DEFAULT_COLLECTION = 'localbird_frames'
+
+// Collections a backend reads from and writes to. While a migration is in
+// progress new frames go to `target` and searches still read `active`; on
+// completion `target` becomes active and the `sources` are deleted.
+interface CollectionState {
+  active: string
+  // space: what the target is embedded in; missing in states saved by older versions
+  migration: { target: string; sources: string[]; space?: EmbeddingSpace } | null
+}
+
+export interface VectorStoreMigration {
+  target: VectorStore
+  sources: VectorStore[]
+}
+
+/**
+ * The vector store the app is currently using. Consumers hold this singleton
+ * and calls are forwarded to whichever backend was last selected, so switching
+ * in Settings takes effect without re-wiring the frame processor or tools.
+ */
+class SelectedVectorStore implements VectorStore {
+  private preference: VectorStorePreference = 'auto'
+  private kind: VectorStoreKind = 'qdrant'
+  private reader: VectorStore = qdrantClient
+  private writer: VectorStore = qdrantClient
+  private backends: Map<string, VectorStore> = new Map()
+  // Whether the reader's vectors are in the migration target's embedding space
+  private readerComparable: Promise<boolean> | null = null
+
+  async select(preference: VectorStorePreference): Promise<VectorStoreKind> {
+    this.preference = preference
+    const kind: VectorStoreKind =
+      preference === 'auto' ? ((await qdrantClient.healthCheck()) ? 'qdrant' : 'local') : preference
+
+    if (kind !== this.kind) {
+      console.log(`[VectorStore] Switching from ${this.kind} to ${kind}`)
+    }
+    this.kind = kind
+    this.applyCollectionState()
+    return kind
+  }
+
+  async getStatus(): Promise<VectorStoreStatus> {
+    return {
+      preference: this.preference,
+      active: this.kind,
+      healthy: await this.reader.healthCheck()
+    }
+  }
+
+  isMigrating(): boolean {
+    return this.reader !== this.writer
+  }
+
+  getMigration(): VectorStoreMigration | null {
+    const { migration } = this.getCollectionState()
+    if (!migration) return null
+    return {
+      target: this.getBackend(migration.target),
+      sources: migration.sources.map((name) => this.getBackend(name))
+    }
+  }
+
+  // Start writing new frames to a fresh collection for `space`, or resume an
+  // unfinished migration that already targets it
+  async beginMigration(space: EmbeddingSpace): Promise<VectorStoreMigration> {
+    const state = this.getCollectionState()
+    let sources = [state.active]
+
+    if (state.migration) {
+      const targetSpace = await this.getBackend(state.migration.target).getEmbeddingSpace()
+      if (targetSpace?.dimension === space.dimension && (targetSpace.model ?? space.model) === space.model) {
+        return this.getMigration()!
+      }
+      // The unfinished target was built for another model; re-embed it as well
+      sources = [...state.migration.sources, state.migration.target]
+    }
+
+    const target = `${DEFAULT_COLLECTION}_${Date.now().toString(36)}`
+    await this.getBackend(target).ensureCollection(space)
+    this.setCollectionState({ active: state.active, migration: { target, sources, space } })
+    return this.getMigration()!
+  }
+
+  // Make the migration target the active collection and delete the sources
+  async completeMigration(): Promise<void> {
+    const { migration } = this.getCollectionState()
+    if (!migration) return
+
+    this.setCollectionState({ active: migration.target, migration: null })
+    for (const source of migration.sources) {
+      try {
+        await this.getBackend(source).deleteCollection()
+      } catch (error) {
+        console.error(`[VectorStore] Failed to delete migrated collection '${source}':`, error)
+      }
+      this.backends.delete(`${this.kind}:${source}`)
+    }
+  }
+
+  healthCheck(): Promise<boolean> {
+    return this.reader.healthCheck()
+  }
+
+  ensureCollection(space: EmbeddingSpace): Promise<void> {
+    return this.writer.ensureCollection(space)
+  }
+
+  // Space new frames must be embedded in (the migration target while migrating)
+  getEmbeddingSpace(): Promise<EmbeddingSpace | null> {
+    return this.writer.getEmbeddingSpace()
+  }
+
+  deleteCollection(): Promise<void> {
+    return this.writer.deleteCollection()
+  }
+
+  supportsKeywordSearch(): boolean {
+    return this.reader.supportsKeywordSearch()
+  }
+
+  // Not while migrating to another model, whose query embeddings can't be
+  // compared with the reader's vectors
+  supportsSemanticSearch(): Promise<boolean> {
+    if (!this.isMigrating()) return this.reader.supportsSemanticSearch()
+    if (!this.readerComparable) {
+      const targetSpace = this.getCollectionState().migration?.space
+      this.readerComparable = Promise.all([this.reader.getEmbeddingSpace(), targetSpace ?? this.writer.getEmbeddingSpace()])
+        .then(([stored, desired]) => stored !== null && desired !== null && isCompatible(stored, desired, false))
+        .catch((error) => {
+          // Check again on the next search
+          this.readerComparable = null
+          console.error('[VectorStore] Failed to compare embedding spaces:', error)
+          return false
+        })
+    }
+    return this.readerComparable
+  }
+
+  upsertFrame(frame: ProcessedFrame): Promise<void> {
+    return this.writer.upsertFrame(frame)
+  }
+
+  async extendFrame(id: string, lastSeenAt: number, duplicateCount: number): Promise<void> {
+    if (!this.isMigrating()) {
+      return this.writer.extendFrame(id, lastSeenAt, duplicateCount)
+    }
+    // The frame may live in the collection being migrated, the target, or both
+    const results = await Promise.allSettled([
+      this.reader.extendFrame(id, lastSeenAt, duplicateCount),
+      this.writer.extendFrame(id, lastSeenAt, duplicateCount)
+    ])
+    if (results.every((r) => r.status === 'rejected')) {
+      throw (results[0] as PromiseRejectedResult).reason
+    }
+  }
+
+  async deleteFrames(ids: string[]): Promise<void> {
+    const migration = this.getMigration()
+    if (!migration) {
+      return this.writer.deleteFrames(ids)
+    }
+    // Remove the frames from every collection so the migration can't copy them back
+    const results = await Promise.allSettled(
+      [migration.target, ...migration.sources].map((backend) => backend.deleteFrames(ids))
+    )
+    const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected')
+    if (failed) throw failed.reason
+  }
+
+  // Query embeddings come from the migration target's model. While migrating
+  // to another model they can't be compared against the collection still
+  // being read, so searches fall back to keywords; a reindex for the same
+  // model keeps semantic search.
+  async search(
+    embedding: number[],
+    limit?: number,
+    scoreThreshold?: number,
+    filter?: FrameFilter
+  ): Promise<SearchResult[]> {
+    if (!(await this.supportsSemanticSearch())) return []
+    return this.reader.search(embedding, limit, scoreThreshold, filter)
+  }
+
+  async hybridSearch(
+    queryText: string,
+    embedding: number[] | null,
+    limit?: number,
+    filter?: FrameFilter
+  ): Promise<SearchResult[]> {
+    const comparable = embedding !== null && (await this.supportsSemanticSearch())
+    return this.reader.hybridSearch(queryText, comparable ? embedding : null, limit, filter)
+  }
+
+  searchByTimeRange(start: Date, end: Date, limit?: number, filter?: FrameFilter): Promise<SearchResult[]> {
+    return this.reader.searchByTimeRange(start, end, limit, filter)
+  }
+
+  scrollFrames(filter: FrameFilter, limit?: number, order?: 'asc' | 'desc'): Promise<SearchResult[]> {
+    return this.reader.scrollFrames(filter, limit, order)
+  }
+
+  scrollPage(filter: FrameFilter, options?: ScrollPageOptions): Promise<FramePage> {
+    return this.reader.scrollPage(filter, options)
+  }
+
+  iterateFrames(
+    filter: FrameFilter,
+    options?: { order?: 'asc' | 'desc'; pageSize?: number }
+  ): AsyncGenerator<SearchResult> {
+    return this.reader.iterateFrames(filter, options)
+  }
+
+  getCollectionInfo(): Promise<CollectionInfo | null> {
+    return this.reader.getCollectionInfo()
+  }
+
+  getRecentFrames(limit?: number): Promise<SearchResult[]> {
+    return this.reader.getRecentFrames(limit)
+  }
+
+  hasFrame(id: string): Promise<boolean> {
+    return this.reader.hasFrame(id)
+  }
+
+  getFrame(id: string): Promise<StoredFrame | null> {
+    return this.reader.getFrame(id)
+  }
+
+  iterateStoredFrames(options?: { withEmbeddings?: boolean }): AsyncGenerator<StoredFrame & { embedding?: number[] }> {
+    return this.reader.iterateStoredFrames(options)
+  }
+
+  private getCollectionState(): CollectionState {
+    return (store.get(`vectorCollections.${this.kind}`) as CollectionState) || {
+      active: DEFAULT_COLLECTION,
+      migration: null
+    }
+  }
+
+  private setCollectionState(state: CollectionState): void {
+    store.set(`vectorCollections.${this.kind}`, state)
+    this.applyCollectionState()
+  }
+
+  private applyCollectionState(): void {
+    const state = this.getCollectionState()
+    this.reader = this.getBackend(state.active)
+    this.writer = state.migration ? this.getBackend(state.migration.target) : this.reader
+    this.readerComparable = null
+  }
+
+  private getBackend(collection: string): VectorStore {
+    const key = `${this.kind}:${collection}`
+    let backend = this.backends.get(key)
+    if (!backend) {
+      if (this.kind === 'qdrant') {
+        backend = collection === DEFAULT_COLLECTION ? qdrantClient : new QdrantClient('localhost', 6333, collection)
+      } else {
+        backend = collection === DEFAULT_COLLECTION ? localVectorStore : new LocalVectorStore(collection)
+      }
+      this.backends.set(key, backend)
+    }
+    return backend
+  }
+}
+
+export const vectorStore = new SelectedVectorStore()
@@ -11,16 +11,153 @@ export interface Settings {
   geminiAPIKey: string
   claudeAPIKey: string
   openaiAPIKey: string
+  localAPIKey: string
+  localLLM: LocalLLMSettings
   captureInterval: number
   activeVisionProvider: string
+  activeEmbeddingProvider: string
   chatProvider: string
   autoStartCapture: boolean
+  vectorStore: 'auto' | 'qdrant' | 'local'
+  enableLocalOcr: boolean
+  ocrBeforeVision: boolean
+  retention: RetentionPolicy
+  privacyRules: PrivacyRule[]
+  redaction: RedactionSettings
+  // 0 means no daily cap
+  dailyBudgetUSD: number
 }
 
+export interface ProviderRequestStatus {
+  provider: string
+  name: string
+  state: 'closed' | 'open' | 'half-open'
+  reason: 'rate-limited' | 'outage' | null
+  resumeAt: number | null
+  consecutiveFailures: number
+  lastError: string | null
+}
+
+export interface LLMStatus {
+  // Set while frame analysis waits for a rate limited or unavailable provider,
+  // or for the daily budget to reset
+  analysisPausedUntil: number | null
+  providers: ProviderRequestStatus[]
+  budget: UsageBudgetStatus
+}
+
+export type UsagePurpose = 'vision' | 'embedding' | 'chat' | 'agent'
+
+export interface UsageTotals {
+  requests: number
+  inputTokens: number
+  outputTokens: number
+  images: number
+  // Estimated USD
+  cost: number
+  unpricedRequests: number
+}
+
+export interface UsageBudgetStatus {
+  dailyLimitUSD: number
+  spentTodayUSD: number
+  exceeded: boolean
+  resetsAt: number
+}
+
+export interface UsageSummary {
+  days: Array<{ date: string } & UsageTotals>
+  byProvider: Array<{ provider: string } & UsageTotals>
+  byPurpose: Array<{ purpose: UsagePurpose } & UsageTotals>
+  byModel: Array<{ provider: string; model: string } & UsageTotals>
+  total: UsageTotals
+  budget: UsageBudgetStatus
+}
+
+// OpenAI-compatible server (Ollama, llama.cpp server, vLLM)
+export interface LocalLLMSettings {
+  baseURL: string
+  visionModel: string
+  embeddingModel: string
+  chatModel: string
+}
+
+export interface RedactionSettings {
+  disabledDetectors: string[]
+  customPatterns: string[]
+}
+
+export interface PrivacyRule {
+  field: 'appBundleId' | 'appName' | 'windowTitle' | 'url'
+  pattern: string
+  action: 'drop' | 'local-only' | 'blur'
+}
+
+export interface RetentionPolicy {
+  maxAgeDays: number
+  maxDiskMB: number
+  appOverrides: Array<{ app: string; maxAgeDays: number }>
+}
+
+export interface CleanupSummary {
+  frameCount: number
+  imageBytes: number
+  newestTimestamp: number | null
+}
+
+export interface RetentionStatus {
+  policy: RetentionPolicy
+  usage: { frameCount: number; imageCount: number; imageBytes: number }
+  pending: CleanupSummary
+  nextRunAt: number | null
+  lastRun: (CleanupSummary & { at: number }) | null
+}
+
+export interface VectorStoreStatus {
+  preference: 'auto' | 'qdrant' | 'local'
+  active: 'qdrant' | 'local'
+  healthy: boolean
+}
+
+export interface EmbeddingMigrationProgress {
+  state: 'idle' | 'running' | 'completed' | 'failed'
+  fromModel: string | null
+  toModel: string | null
+  processed: number
+  total: number
+  error: string | null
+  pausedUntil: number | null
+}
+
+// ready: data can be read and written
+// locked: the passphrase must be entered
+// setup-required: no system keychain; a passphrase must be chosen
+// unavailable: the data key exists but couldn't be loaded; see error
+export interface EncryptionStatus {
+  state: 'ready' | 'locked' | 'setup-required' | 'unavailable'
+  method: 'safeStorage' | 'passphrase' | null
+  error: string | null
+}
+
+export interface FrameQueueStats {
+  pending: number
+  retrying: number
+  deadLettered: number
+}
+
+export type ChatMessagePart =
+  | { type: 'text'; text: string }
+  | { type: 'thinking'; text: string }
+  | { type: 'tool_call'; toolCallId: string; toolName: string; input: unknown }
+  | { type: 'tool_result'; toolCallId: string; output: unknown; isError?: boolean }
+  | { type: 'citation'; frameId: string }
+  | { type: 'image'; url: string; mediaType: string }
+  | { type: 'step' }
+
 export interface ChatMessage {
   id: string
   role: 'user' | 'assistant'
-  content: string
+  parts: ChatMessagePart[]
   createdAt: number
 }
 
@@ -39,6 +176,10 @@ export interface ChatMetadata {
   updatedAt: number
 }
 
+export interface ChatSearchResult extends ChatMetadata {
+  snippet: string
+}
+
 // Meeting types
 export type MeetingRecordingState = 'idle' | 'recording' | 'processing' | 'error'
 
@@ -77,6 +218,10 @@ export interface MeetingListItem {
 }
 
 const api = {
+  // API server
+  apiBaseUrl: 'http://127.0.0.1:3001',
+  apiToken: ipcRenderer.sendSync('api:token') as string,
+
   // Capture control
   getStatus: (): Promise<ServiceStatus> => ipcRenderer.invoke('get-status'),
   startCapture: (): Promise<{ success: boolean }> => ipcRenderer.invoke('start-capture'),
@@ -87,8 +232,59 @@ const api = {
   saveSettings: (settings: Partial<Settings>): Promise<{ success: boolean }> =>
     ipcRenderer.invoke('save-settings', settings),
 
+  // Provider rate limits and outages
+  getLLMStatus: (): Promise<LLMStatus> => ipcRenderer.invoke('llm:status'),
+  onLLMStatusChanged: (callback: (status: LLMStatus) => void) => {
+    ipcRenderer.on('llm:status-changed', (_event, status) => callback(status))
+    return () => {
+      ipcRenderer.removeAllListeners('llm:status-changed')
+    }
+  },
+
+  // Token usage and estimated cost over the last `days` days
+  getUsageSummary: (days?: number): Promise<UsageSummary> => ipcRenderer.invoke('usage:summary', days),
+
+  // Local model server
+  listLocalModels: (baseURL: string, apiKey?: string): Promise<{ success: boolean; models?: string[]; error?: string }> =>
+    ipcRenderer.invoke('llm:list-local-models', baseURL, apiKey),
+
   // Health checks
   checkQdrant: (): Promise<boolean> => ipcRenderer.invoke('check-qdrant'),
+  getVectorStoreStatus: (): Promise<VectorStoreStatus> => ipcRenderer.invoke('vector-store:status'),
+
+  // Embedding model migration
+  getEmbeddingMigrationStatus: (): Promise<EmbeddingMigrationProgress> =>
+    ipcRenderer.invoke('embeddings:migration-status'),
+  onEmbeddingMigrationProgress: (callback: (progress: EmbeddingMigrationProgress) => void) => {
+    ipcRenderer.on('embeddings:migration-progress', (_event, progress) => callback(progress))
+    return () => {
+      ipcRenderer.removeAllListeners('embeddings:migration-progress')
+    }
+  },
+
+  // Frame processing queue
+  getFrameQueueStats: (): Promise<FrameQueueStats> => ipcRenderer.invoke('frames:queue-stats'),
+  retryFailedFrames: (): Promise<{ success: boolean; requeued: number }> =>
+    ipcRenderer.invoke('frames:retry-failed'),
+
+  // Retention
+  getRetentionStatus: (): Promise<RetentionStatus> => ipcRenderer.invoke('retention:status'),
+  runRetentionCleanup: (): Promise<{ success: boolean; removed?: CleanupSummary; error?: string }> =>
+    ipcRenderer.invoke('retention:run'),
+
+  // Encryption at rest
+  getEncryptionStatus: (): Promise<EncryptionStatus> => ipcRenderer.invoke('encryption:status'),
+  retryEncryption: (): Promise<EncryptionStatus> => ipcRenderer.invoke('encryption:retry'),
+  unlockEncryption: (passphrase: string): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke('encryption:unlock', passphrase),
+  setEncryptionPassphrase: (passphrase: string): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke('encryption:set-passphrase', passphrase),
+  onEncryptionStatus: (callback: (status: EncryptionStatus) => void) => {
+    ipcRenderer.on('encryption:status', (_event, status) => callback(status))
+    return () => {
+      ipcRenderer.removeAllListeners('encryption:status')
+    }
+  },
 
   // Navigation events from main process
   onNavigate: (callback: (path: string) => void) => {
@@ -111,6 +307,7 @@ const api = {
   getChat: (id: string): Promise<Chat | null> => ipcRenderer.invoke('chats:get', id),
   saveChat: (chat: Chat): Promise<{ success: boolean }> => ipcRenderer.invoke('chats:save', chat),
   deleteChat: (id: string): Promise<{ success: boolean }> => ipcRenderer.invoke('chats:delete', id),
+  searchChats: (query: string): Promise<ChatSearchResult[]> => ipcRenderer.invoke('chats:search', query),
 
   // Meeting recording
   startMeeting: (title?: string): Promise<{ success: boolean; meetingId?: string; title?: string; startTime?: number; error?: string }> =>
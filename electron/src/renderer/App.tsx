@@ -5,17 +5,21 @@ import { Chat } from '@/components/Chat'
 import { Timeline } from '@/components/Timeline'
 import { Settings } from '@/components/Settings'
 import { MeetingNotes } from '@/components/MeetingNotes'
+import { EncryptionLock } from '@/components/EncryptionLock'
 import { TooltipProvider } from '@/components/ui/tooltip'
 import { AssistantRuntimeProvider } from '@assistant-ui/react'
 import { useChatRuntime } from '@assistant-ui/react-ai-sdk'
-import { TextStreamChatTransport } from 'ai'
+import { DefaultChatTransport } from 'ai'
 import { useChatPersistence } from '@/hooks/useChatPersistence'
+import { API_BASE_URL, apiHeaders } from '@/lib/api'
+import { describeAnalysisPause, LLMStatus } from '@/lib/llm-status'
 
 type View = 'chat' | 'timeline' | 'meetings' | 'settings'
 
 // Create transport once at module level so it persists
-const chatTransport = new TextStreamChatTransport({
-  api: 'http://localhost:3001/api/chat'
+const chatTransport = new DefaultChatTransport({
+  api: `${API_BASE_URL}/api/chat`,
+  headers: apiHeaders
 })
 
 export default function App() {
@@ -38,6 +42,7 @@ function AppContent() {
     isRunning: boolean
     frameCount: number
   }>({ isRunning: false, frameCount: 0 })
+  const [llmStatus, setLLMStatus] = useState<LLMStatus | null>(null)
 
   // Use the chat persistence hook for auto-saving and chat management
   const { currentChatId, loadChat, newChat, deleteChat } = useChatPersistence()
@@ -64,6 +69,7 @@ function AppContent() {
       try {
         const s = await window.api.getStatus()
         setStatus({ isRunning: s.isRunning, frameCount: s.frameCount })
+        setLLMStatus(await window.api.getLLMStatus())
       } catch (error) {
         console.error('Failed to get status:', error)
       }
@@ -72,6 +78,8 @@ function AppContent() {
     fetchStatus()
     const interval = setInterval(fetchStatus, 5000)
 
+    const unsubLLMStatus = window.api.onLLMStatusChanged(setLLMStatus)
+
     // Listen for navigation from main process (Cmd+1/2/3)
     const unsubNavigate = window.api.onNavigate((path) => {
       if (path === '/settings') setCurrentView('settings')
@@ -92,6 +100,7 @@ function AppContent() {
     return () => {
       clearInterval(interval)
       unsubNavigate()
+      unsubLLMStatus()
       unsubNewChat()
     }
   }, [newChat])
@@ -128,6 +137,8 @@ function AppContent() {
     setCurrentView('chat')
   }, [newChat])
 
+  const analysisPause = describeAnalysisPause(llmStatus)
+
   const handleDeleteChat = useCallback(async (id: string) => {
     await deleteChat(id)
   }, [deleteChat])
@@ -170,9 +181,13 @@ function AppContent() {
           <div
             className={cn(
               'w-3 h-3 rounded-full',
-              status.isRunning ? 'bg-green-500' : 'bg-muted-foreground/30'
+              status.isRunning ? (analysisPause ? 'bg-yellow-500' : 'bg-green-500') : 'bg-muted-foreground/30'
             )}
-            title={status.isRunning ? `Capturing (${status.frameCount} frames)` : 'Stopped'}
+            title={
+              status.isRunning
+                ? `Capturing (${status.frameCount} frames)${analysisPause ? `\n${analysisPause}` : ''}`
+                : 'Stopped'
+            }
           />
         </div>
       </div>
@@ -191,6 +206,8 @@ function AppContent() {
         {currentView === 'meetings' && <MeetingNotes />}
         {currentView === 'settings' && <Settings />}
       </main>
+
+      <EncryptionLock />
     </div>
   )
 }
@@ -1,15 +1,20 @@
 import { FC, useEffect, useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { cn } from '@/lib/utils'
-import { PlusIcon, TrashIcon, MessageSquareIcon } from 'lucide-react'
+import { PlusIcon, TrashIcon, MessageSquareIcon, SearchIcon, XIcon } from 'lucide-react'
 
 interface ChatMetadata {
   id: string
   title: string
   createdAt: number
   updatedAt: number
+  // Text around the match, for search results
+  snippet?: string
 }
 
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 200
+
 interface ChatListProps {
   currentChatId: string | null
   onSelectChat: (id: string) => void
@@ -24,6 +29,8 @@ export const ChatList: FC<ChatListProps> = ({
   onDeleteChat
 }) => {
   const [chats, setChats] = useState<ChatMetadata[]>([])
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<ChatMetadata[] | null>(null)
 
   useEffect(() => {
     loadChats()
@@ -40,6 +47,27 @@ export const ChatList: FC<ChatListProps> = ({
     loadChats()
   }, [currentChatId])
 
+  useEffect(() => {
+    if (!window.api || !query.trim()) {
+      setResults(null)
+      return
+    }
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const found = await window.api.searchChats(query)
+        if (!cancelled) setResults(found)
+      } catch (error) {
+        console.error('Failed to search chats:', error)
+        if (!cancelled) setResults([])
+      }
+    }, SEARCH_DELAY_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query])
+
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp)
     const now = new Date()
@@ -60,8 +88,12 @@ export const ChatList: FC<ChatListProps> = ({
     e.stopPropagation()
     onDeleteChat(id)
     loadChats()
+    setResults((current) => current?.filter((chat) => chat.id !== id) ?? null)
   }
 
+  const searching = query.trim() !== ''
+  const visibleChats = searching ? results ?? [] : chats
+
   return (
     <div className="flex flex-col h-full border-r border-border/50 bg-card/50">
       <div className="p-3">
@@ -73,16 +105,36 @@ export const ChatList: FC<ChatListProps> = ({
           <PlusIcon className="w-4 h-4" />
           New Chat
         </Button>
+        <div className="relative mt-2">
+          <SearchIcon className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground/50" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && setQuery('')}
+            placeholder="Search chats"
+            className="w-full h-8 pl-8 pr-7 rounded-md bg-muted/40 border border-border/50 text-sm placeholder:text-muted-foreground/50 focus:outline-none focus:ring-1 focus:ring-ring"
+          />
+          {searching && (
+            <button
+              onClick={() => setQuery('')}
+              className="absolute right-1.5 top-1/2 -translate-y-1/2 p-1 rounded text-muted-foreground/60 hover:text-foreground"
+              title="Clear search"
+            >
+              <XIcon className="w-3 h-3" />
+            </button>
+          )}
+        </div>
       </div>
 
       <div className="flex-1 overflow-y-auto px-2">
-        {chats.length === 0 ? (
+        {visibleChats.length === 0 ? (
           <div className="p-4 text-center text-sm text-muted-foreground/60">
-            No conversations yet
+            {searching ? (results ? 'No matching conversations' : 'Searching…') : 'No conversations yet'}
           </div>
         ) : (
           <div className="space-y-0.5">
-            {chats.map((chat) => (
+            {visibleChats.map((chat) => (
               <button
                 key={chat.id}
                 onClick={() => onSelectChat(chat.id)}
@@ -98,6 +150,11 @@ export const ChatList: FC<ChatListProps> = ({
                   <div className="text-sm truncate">
                     {chat.title || 'New Chat'}
                   </div>
+                  {chat.snippet && (
+                    <div className="text-xs text-muted-foreground/80 mt-0.5 line-clamp-2">
+                      {chat.snippet}
+                    </div>
+                  )}
                   <div className="text-xs text-muted-foreground/60 mt-0.5">
                     {formatDate(chat.updatedAt)}
                   </div>
@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react'
+import { Lock, AlertCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+
+type EncryptionState = 'ready' | 'locked' | 'setup-required' | 'unavailable'
+
+interface EncryptionStatus {
+  state: EncryptionState
+  error: string | null
+}
+
+const MIN_PASSPHRASE_LENGTH = 8
+
+// Covers the app until the data key is available: asks for the passphrase,
+// or for a new one on systems without a keychain, or shows why an existing
+// key couldn't be loaded
+export function EncryptionLock() {
+  const [state, setState] = useState<EncryptionState>('ready')
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (!window.api) return
+
+    const apply = (status: EncryptionStatus) => {
+      setState(status.state)
+      setLoadError(status.error)
+    }
+    window.api.getEncryptionStatus().then(apply).catch(console.error)
+    return window.api.onEncryptionStatus(apply)
+  }, [])
+
+  if (state === 'ready') return null
+
+  if (state === 'unavailable') {
+    const retry = async () => {
+      setIsSubmitting(true)
+      try {
+        const status: EncryptionStatus = await window.api.retryEncryption()
+        setState(status.state)
+        setLoadError(status.error)
+      } catch (err) {
+        setLoadError(err instanceof Error ? err.message : 'Failed to load the encryption key')
+      } finally {
+        setIsSubmitting(false)
+      }
+    }
+
+    return (
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/95 backdrop-blur-sm">
+        <div className="w-full max-w-sm space-y-4 p-6 rounded-xl border bg-card shadow-lg">
+          <div className="flex items-center gap-2">
+            <AlertCircle className="w-5 h-5 text-destructive" />
+            <h2 className="text-lg font-semibold">Can't load your encryption key</h2>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Your screenshots, chats and API keys are still encrypted and nothing has been changed. Make sure the
+            system keychain is unlocked and available, then try again.
+          </p>
+          {loadError && <p className="text-xs font-mono text-destructive break-words">{loadError}</p>}
+          <Button onClick={retry} className="w-full" disabled={isSubmitting}>
+            {isSubmitting ? 'Working...' : 'Try again'}
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  const isSetup = state === 'setup-required'
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (isSetup && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`)
+      return
+    }
+    if (isSetup && passphrase !== confirmation) {
+      setError('Passphrases do not match')
+      return
+    }
+
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const result = isSetup
+        ? await window.api.setEncryptionPassphrase(passphrase)
+        : await window.api.unlockEncryption(passphrase)
+      if (result.success) {
+        setPassphrase('')
+        setConfirmation('')
+        setState('ready')
+      } else {
+        setError(result.error || 'Failed to unlock')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/95 backdrop-blur-sm">
+      <form onSubmit={submit} className="w-full max-w-sm space-y-4 p-6 rounded-xl border bg-card shadow-lg">
+        <div className="flex items-center gap-2">
+          <Lock className="w-5 h-5 text-muted-foreground" />
+          <h2 className="text-lg font-semibold">{isSetup ? 'Set a passphrase' : 'Unlock Localbird'}</h2>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {isSetup
+            ? 'No system keychain is available. Your screenshots, chats and API keys will be encrypted with this passphrase. It cannot be recovered if you forget it.'
+            : 'Enter your passphrase to decrypt your screenshots, chats and API keys.'}
+        </p>
+
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          autoFocus
+          className="w-full px-3 py-2 rounded-lg border bg-background text-sm outline-none focus:ring-2 focus:ring-ring"
+        />
+        {isSetup && (
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder="Confirm passphrase"
+            className="w-full px-3 py-2 rounded-lg border bg-background text-sm outline-none focus:ring-2 focus:ring-ring"
+          />
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </div>
+        )}
+
+        <Button type="submit" className="w-full" disabled={isSubmitting || !passphrase}>
+          {isSubmitting ? 'Working...' : isSetup ? 'Encrypt my data' : 'Unlock'}
+        </Button>
+      </form>
+    </div>
+  )
+}
@@ -1,18 +1,122 @@
 import { useState, useEffect } from 'react'
-import { Save, Check, AlertCircle, Play, Square } from 'lucide-react'
+import { Save, Check, AlertCircle, Play, Square, Plus, Trash2 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { cn } from '@/lib/utils'
+import { describeAnalysisPause, LLMStatus } from '@/lib/llm-status'
+import { UsageDashboard } from '@/components/UsageDashboard'
 
 interface SettingsData {
   geminiAPIKey: string
   claudeAPIKey: string
   openaiAPIKey: string
+  localAPIKey: string
+  localLLM: LocalLLMSettings
   captureInterval: number
   enableFullScreenCaptures: boolean
   fullScreenCaptureInterval: number
   activeVisionProvider: string
+  activeEmbeddingProvider: string
   chatProvider: string
   autoStartCapture: boolean
+  vectorStore: 'auto' | 'qdrant' | 'local'
+  enableLocalOcr: boolean
+  ocrBeforeVision: boolean
+  retention: RetentionPolicy
+  privacyRules: PrivacyRule[]
+  redaction: RedactionSettings
+  dailyBudgetUSD: number
+}
+
+interface LocalLLMSettings {
+  baseURL: string
+  visionModel: string
+  embeddingModel: string
+  chatModel: string
+}
+
+const LOCAL_MODEL_FIELDS: Array<{ key: keyof Omit<LocalLLMSettings, 'baseURL'>; label: string; placeholder: string }> = [
+  { key: 'visionModel', label: 'Vision Model', placeholder: 'llava' },
+  { key: 'embeddingModel', label: 'Embedding Model', placeholder: 'nomic-embed-text' },
+  { key: 'chatModel', label: 'Chat Model', placeholder: 'llama3.1' }
+]
+
+interface RedactionSettings {
+  disabledDetectors: string[]
+  customPatterns: string[]
+}
+
+const REDACTION_DETECTORS: Array<{ name: string; label: string }> = [
+  { name: 'secret', label: 'API keys, passwords and private keys' },
+  { name: 'card', label: 'Credit card numbers' },
+  { name: 'ssn', label: 'Social Security numbers' },
+  { name: 'email', label: 'Email addresses' },
+  { name: 'token', label: 'Random-looking tokens' }
+]
+
+interface PrivacyRule {
+  field: 'appBundleId' | 'appName' | 'windowTitle' | 'url'
+  pattern: string
+  action: 'drop' | 'local-only' | 'blur'
+}
+
+const PRIVACY_RULE_PLACEHOLDERS: Record<PrivacyRule['field'], string> = {
+  appBundleId: 'com.agilebits.onepassword7',
+  appName: '1Password',
+  windowTitle: 'Private|Incognito',
+  url: 'mybank.com'
+}
+
+// Mirrors the checks the main process makes before using a window title pattern
+const MAX_TITLE_PATTERN_LENGTH = 200
+const NESTED_QUANTIFIER = /\((?:[^()\\]|\\.)*[*+}](?:[^()\\]|\\.)*\)[*+{]/
+
+function privacyRuleError(rule: PrivacyRule): string | null {
+  if (rule.field !== 'windowTitle' || !rule.pattern.trim()) return null
+  const pattern = rule.pattern.trim()
+  if (pattern.length > MAX_TITLE_PATTERN_LENGTH) return `Longer than ${MAX_TITLE_PATTERN_LENGTH} characters`
+  try {
+    new RegExp(pattern, 'i')
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression'
+  }
+  if (NESTED_QUANTIFIER.test(pattern)) return 'Nested repetition like (a+)+ can make matching hang'
+  return null
+}
+
+interface RetentionPolicy {
+  maxAgeDays: number
+  maxDiskMB: number
+  appOverrides: Array<{ app: string; maxAgeDays: number }>
+}
+
+interface CleanupSummary {
+  frameCount: number
+  imageBytes: number
+  newestTimestamp: number | null
+}
+
+interface RetentionStatus {
+  policy: RetentionPolicy
+  usage: { frameCount: number; imageCount: number; imageBytes: number }
+  pending: CleanupSummary
+  nextRunAt: number | null
+  lastRun: (CleanupSummary & { at: number }) | null
+}
+
+interface VectorStoreStatus {
+  preference: 'auto' | 'qdrant' | 'local'
+  active: 'qdrant' | 'local'
+  healthy: boolean
+}
+
+interface EmbeddingMigrationProgress {
+  state: 'idle' | 'running' | 'completed' | 'failed'
+  fromModel: string | null
+  toModel: string | null
+  processed: number
+  total: number
+  error: string | null
+  pausedUntil: number | null
 }
 
 export function Settings() {
@@ -20,16 +124,34 @@ export function Settings() {
     geminiAPIKey: '',
     claudeAPIKey: '',
     openaiAPIKey: '',
+    localAPIKey: '',
+    localLLM: { baseURL: '', visionModel: '', embeddingModel: '', chatModel: '' },
     captureInterval: 5,
     enableFullScreenCaptures: true,
     fullScreenCaptureInterval: 1,
-    activeVisionProvider: 'gemini',
+    activeVisionProvider: 'auto',
+    activeEmbeddingProvider: 'auto',
     chatProvider: 'anthropic',
-    autoStartCapture: true
+    autoStartCapture: true,
+    vectorStore: 'auto',
+    enableLocalOcr: true,
+    ocrBeforeVision: false,
+    retention: { maxAgeDays: 0, maxDiskMB: 0, appOverrides: [] },
+    privacyRules: [],
+    redaction: { disabledDetectors: [], customPatterns: [] },
+    dailyBudgetUSD: 0
   })
   const [isSaving, setIsSaving] = useState(false)
   const [saveStatus, setSaveStatus] = useState<'idle' | 'success' | 'error'>('idle')
   const [qdrantStatus, setQdrantStatus] = useState<'checking' | 'connected' | 'disconnected'>('checking')
+  const [vectorStoreStatus, setVectorStoreStatus] = useState<VectorStoreStatus | null>(null)
+  const [migration, setMigration] = useState<EmbeddingMigrationProgress | null>(null)
+  const [retentionStatus, setRetentionStatus] = useState<RetentionStatus | null>(null)
+  const [isCleaning, setIsCleaning] = useState(false)
+  const [llmStatus, setLLMStatus] = useState<LLMStatus | null>(null)
+  const [localModels, setLocalModels] = useState<string[]>([])
+  const [localModelsError, setLocalModelsError] = useState<string | null>(null)
+  const [isDiscovering, setIsDiscovering] = useState(false)
   const [captureStatus, setCaptureStatus] = useState<{ isRunning: boolean; frameCount: number }>({
     isRunning: false,
     frameCount: 0
@@ -39,12 +161,17 @@ export function Settings() {
     loadSettings()
     checkQdrant()
     loadCaptureStatus()
+    loadRetentionStatus()
+
+    window.api.getEmbeddingMigrationStatus().then(setMigration).catch(() => {})
+    const unsubscribeMigration = window.api.onEmbeddingMigrationProgress(setMigration)
 
     const captureInterval = setInterval(loadCaptureStatus, 5000)
     const qdrantInterval = setInterval(checkQdrant, 3000)
     return () => {
       clearInterval(captureInterval)
       clearInterval(qdrantInterval)
+      unsubscribeMigration()
     }
   }, [])
 
@@ -61,17 +188,53 @@ export function Settings() {
     try {
       const status = await window.api.getStatus()
       setCaptureStatus({ isRunning: status.isRunning, frameCount: status.frameCount })
+      setLLMStatus(await window.api.getLLMStatus())
     } catch (error) {
       console.error('Failed to get capture status:', error)
     }
   }
 
+  const loadRetentionStatus = async () => {
+    try {
+      setRetentionStatus(await window.api.getRetentionStatus())
+    } catch (error) {
+      console.error('Failed to get retention status:', error)
+    }
+  }
+
+  const runCleanup = async () => {
+    setIsCleaning(true)
+    try {
+      await window.api.runRetentionCleanup()
+      await loadRetentionStatus()
+    } finally {
+      setIsCleaning(false)
+    }
+  }
+
+  const discoverLocalModels = async () => {
+    setIsDiscovering(true)
+    setLocalModelsError(null)
+    try {
+      const result = await window.api.listLocalModels(settings.localLLM.baseURL, settings.localAPIKey)
+      if (result.success) {
+        setLocalModels(result.models ?? [])
+      } else {
+        setLocalModels([])
+        setLocalModelsError(result.error || 'Failed to list models')
+      }
+    } finally {
+      setIsDiscovering(false)
+    }
+  }
+
   const checkQdrant = async () => {
     setQdrantStatus('checking')
     try {
       const isConnected = await window.api.checkQdrant()
       console.log('[Settings] checkQdrant result:', isConnected)
       setQdrantStatus(isConnected ? 'connected' : 'disconnected')
+      setVectorStoreStatus(await window.api.getVectorStoreStatus())
     } catch (error) {
       console.error('[Settings] checkQdrant error:', error)
       setQdrantStatus('disconnected')
@@ -83,6 +246,8 @@ export function Settings() {
     setSaveStatus('idle')
     try {
       await window.api.saveSettings(settings)
+      setVectorStoreStatus(await window.api.getVectorStoreStatus())
+      loadRetentionStatus()
       setSaveStatus('success')
       setTimeout(() => setSaveStatus('idle'), 2000)
     } catch (error) {
@@ -110,6 +275,35 @@ export function Settings() {
     setSettings((prev) => ({ ...prev, [key]: value }))
   }
 
+  const updateLocalLLM = (changes: Partial<LocalLLMSettings>) => {
+    setSettings((prev) => ({ ...prev, localLLM: { ...prev.localLLM, ...changes } }))
+  }
+
+  const updatePrivacyRule = (index: number, changes: Partial<PrivacyRule>) => {
+    updateSetting(
+      'privacyRules',
+      settings.privacyRules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule))
+    )
+  }
+
+  const toggleRedactionDetector = (name: string, enabled: boolean) => {
+    const others = settings.redaction.disabledDetectors.filter((n) => n !== name)
+    updateSetting('redaction', {
+      ...settings.redaction,
+      disabledDetectors: enabled ? others : [...others, name]
+    })
+  }
+
+  const updateRetention = (changes: Partial<RetentionPolicy>) => {
+    setSettings((prev) => ({ ...prev, retention: { ...prev.retention, ...changes } }))
+  }
+
+  const updateOverride = (index: number, changes: Partial<RetentionPolicy['appOverrides'][number]>) => {
+    updateRetention({
+      appOverrides: settings.retention.appOverrides.map((o, i) => (i === index ? { ...o, ...changes } : o))
+    })
+  }
+
   return (
     <div className="h-full overflow-y-auto">
       <div className="max-w-2xl mx-auto p-6 space-y-8">
@@ -224,18 +418,68 @@ export function Settings() {
 
         {/* Providers */}
         <Section title="AI Providers">
-          <Field label="Vision Provider" hint="Used for analyzing screenshots">
+          {describeAnalysisPause(llmStatus) && (
+            <div className="flex items-center gap-2 p-3 rounded-lg border border-yellow-500/50 bg-yellow-500/10 text-sm">
+              <AlertCircle className="w-4 h-4 text-yellow-500" />
+              {describeAnalysisPause(llmStatus)}
+            </div>
+          )}
+
+          <Field
+            label="Vision Provider"
+            hint="Used for analyzing screenshots. Automatic picks Gemini, OpenAI or the local model server, never Claude."
+          >
             <select
               value={settings.activeVisionProvider}
               onChange={(e) => updateSetting('activeVisionProvider', e.target.value)}
               className="px-3 py-2 rounded-lg border bg-background text-sm outline-none focus:ring-2 focus:ring-ring"
             >
+              <option value="auto">Automatic</option>
               <option value="gemini">Google Gemini</option>
               <option value="claude">Anthropic Claude</option>
               <option value="openai">OpenAI</option>
+              <option value="local">Local model server</option>
+            </select>
+          </Field>
+
+          <Field
+            label="Embedding Provider"
+            hint="Used for search. Changing it re-embeds your existing frames."
+          >
+            <select
+              value={settings.activeEmbeddingProvider}
+              onChange={(e) => updateSetting('activeEmbeddingProvider', e.target.value)}
+              className="px-3 py-2 rounded-lg border bg-background text-sm outline-none focus:ring-2 focus:ring-ring"
+            >
+              <option value="auto">Automatic</option>
+              <option value="gemini">Google Gemini</option>
+              <option value="openai">OpenAI</option>
+              <option value="local">Local model server</option>
             </select>
           </Field>
 
+          <Field
+            label="Local OCR"
+            hint="Read on-screen text on this device for captures that aren't sent to a vision provider."
+          >
+            <Toggle
+              checked={settings.enableLocalOcr}
+              onChange={(checked) => updateSetting('enableLocalOcr', checked)}
+            />
+          </Field>
+
+          {settings.enableLocalOcr && (
+            <Field
+              label="OCR Before Vision Analysis"
+              hint="Also read text before vision analysis, to mask sensitive text and send smaller images. Uses more CPU; skipped while captures are backed up."
+            >
+              <Toggle
+                checked={settings.ocrBeforeVision}
+                onChange={(checked) => updateSetting('ocrBeforeVision', checked)}
+              />
+            </Field>
+          )}
+
           <Field label="Chat Provider" hint="Used for conversation">
             <select
               value={settings.chatProvider}
@@ -244,12 +488,93 @@ export function Settings() {
             >
               <option value="anthropic">Anthropic Claude</option>
               <option value="gemini">Google Gemini</option>
+              <option value="openai">OpenAI</option>
+              <option value="local">Local model server</option>
             </select>
           </Field>
         </Section>
 
+        {/* Local models */}
+        <Section title="Local Model Server">
+          <Field
+            label="Server URL"
+            hint="OpenAI-compatible API of Ollama, llama.cpp server or vLLM, e.g. http://localhost:11434/v1"
+          >
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={settings.localLLM.baseURL}
+                onChange={(e) => updateLocalLLM({ baseURL: e.target.value })}
+                placeholder="http://localhost:11434/v1"
+                className="flex-1 px-3 py-2 rounded-lg border bg-background text-sm outline-none focus:ring-2 focus:ring-ring"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={discoverLocalModels}
+                disabled={!settings.localLLM.baseURL || isDiscovering}
+              >
+                {isDiscovering ? 'Loading...' : 'Find models'}
+              </Button>
+            </div>
+            {localModelsError && <p className="mt-2 text-xs text-destructive">{localModelsError}</p>}
+            {!localModelsError && localModels.length > 0 && (
+              <p className="mt-2 text-xs text-muted-foreground">{localModels.length} models available</p>
+            )}
+          </Field>
+
+          <Field label="API Key" hint="Only if your server requires one">
+            <input
+              type="password"
+              value={settings.localAPIKey}
+              onChange={(e) => updateSetting('localAPIKey', e.target.value)}
+              placeholder="Optional"
+              className="w-full px-3 py-2 rounded-lg border bg-background text-sm outline-none focus:ring-2 focus:ring-ring"
+            />
+          </Field>
+
+          {LOCAL_MODEL_FIELDS.map(({ key, label, placeholder }) => (
+            <Field key={key} label={label}>
+              <input
+                type="text"
+                list="local-models"
+                value={settings.localLLM[key]}
+                onChange={(e) => updateLocalLLM({ [key]: e.target.value })}
+                placeholder={placeholder}
+                className="w-full px-3 py-2 rounded-lg border bg-background text-sm outline-none focus:ring-2 focus:ring-ring"
+              />
+            </Field>
+          ))}
+          <datalist id="local-models">
+            {localModels.map((model) => (
+              <option key={model} value={model} />
+            ))}
+          </datalist>
+        </Section>
+
         {/* Vector Database */}
         <Section title="Vector Database">
+          <Field
+            label="Vector Store"
+            hint="Where frame embeddings are stored. The built-in store works without Qdrant."
+          >
+            <select
+              value={settings.vectorStore}
+              onChange={(e) => updateSetting('vectorStore', e.target.value as SettingsData['vectorStore'])}
+              className="px-3 py-2 rounded-lg border bg-background text-sm outline-none focus:ring-2 focus:ring-ring"
+            >
+              <option value="auto">Automatic (Qdrant if available)</option>
+              <option value="qdrant">Qdrant</option>
+              <option value="local">Built-in</option>
+            </select>
+            {vectorStoreStatus && (
+              <p className="mt-2 text-xs text-muted-foreground">
+                Currently using {vectorStoreStatus.active === 'qdrant' ? 'Qdrant' : 'the built-in store'}
+                {!vectorStoreStatus.healthy && ' (unavailable)'}
+              </p>
+            )}
+          </Field>
+
           <div className="flex items-center justify-between p-4 rounded-lg border bg-card">
             <div className="flex items-center gap-3">
               <div
@@ -274,7 +599,42 @@ export function Settings() {
             </Button>
           </div>
 
-          {qdrantStatus === 'disconnected' && (
+          {migration?.state === 'running' && (
+            <div className="p-4 rounded-lg border bg-card space-y-2">
+              <p className="text-sm font-medium">Re-embedding frames for {migration.toModel}</p>
+              <div className="h-2 rounded-full bg-muted overflow-hidden">
+                <div
+                  className="h-full bg-primary transition-all"
+                  style={{ width: `${migration.total ? (migration.processed / migration.total) * 100 : 0}%` }}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {migration.processed} of {migration.total} frames. Search uses keywords only until this finishes.
+              </p>
+              {migration.pausedUntil !== null && (
+                <p className="text-xs text-muted-foreground">
+                  Paused until {new Date(migration.pausedUntil).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })} for the daily budget or the
+                  embedding provider.
+                </p>
+              )}
+            </div>
+          )}
+
+          {migration?.state === 'failed' && (
+            <div className="p-4 rounded-lg border border-destructive/50 bg-destructive/10">
+              <div className="flex gap-2 text-destructive">
+                <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                <div className="text-sm">
+                  <p className="font-medium">Re-embedding paused</p>
+                  <p className="mt-1 text-destructive/80">
+                    {migration.error} It will resume when you save settings or restart Localbird.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {qdrantStatus === 'disconnected' && vectorStoreStatus?.active !== 'local' && (
             <div className="p-4 rounded-lg border border-destructive/50 bg-destructive/10">
               <div className="flex gap-2 text-destructive">
                 <AlertCircle className="w-5 h-5 flex-shrink-0" />
@@ -292,6 +652,213 @@ export function Settings() {
           )}
         </Section>
 
+        {/* Privacy */}
+        <Section title="Privacy">
+          <Field
+            label="Exclusion rules"
+            hint="Checked before a frame is analyzed. Drop discards it, Local only skips cloud analysis, Blur hides the image."
+          >
+            <div className="space-y-2">
+              {settings.privacyRules.map((rule, index) => (
+                <div key={index} className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={rule.field}
+                      onChange={(e) => updatePrivacyRule(index, { field: e.target.value as PrivacyRule['field'] })}
+                      className="px-3 py-2 rounded-lg border bg-background text-sm outline-none focus:ring-2 focus:ring-ring"
+                    >
+                      <option value="appName">App name</option>
+                      <option value="appBundleId">Bundle id</option>
+                      <option value="windowTitle">Window title (regex)</option>
+                      <option value="url">URL</option>
+                    </select>
+                    <input
+                      value={rule.pattern}
+                      onChange={(e) => updatePrivacyRule(index, { pattern: e.target.value })}
+                      placeholder={PRIVACY_RULE_PLACEHOLDERS[rule.field]}
+                      className="flex-1 min-w-0 px-3 py-2 rounded-lg border bg-background text-sm outline-none focus:ring-2 focus:ring-ring"
+                    />
+                    <select
+                      value={rule.action}
+                      onChange={(e) => updatePrivacyRule(index, { action: e.target.value as PrivacyRule['action'] })}
+                      className="px-3 py-2 rounded-lg border bg-background text-sm outline-none focus:ring-2 focus:ring-ring"
+                    >
+                      <option value="drop">Drop</option>
+                      <option value="local-only">Local only</option>
+                      <option value="blur">Blur</option>
+                    </select>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateSetting('privacyRules', settings.privacyRules.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  {privacyRuleError(rule) && (
+                    <p className="text-xs text-destructive">This rule is ignored: {privacyRuleError(rule)}</p>
+                  )}
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  updateSetting('privacyRules', [
+                    ...settings.privacyRules,
+                    { field: 'appName', pattern: '', action: 'drop' }
+                  ])
+                }
+              >
+                <Plus className="w-4 h-4 mr-2" /> Add rule
+              </Button>
+            </div>
+          </Field>
+
+          <Field
+            label="Redaction"
+            hint="Sensitive text is replaced before it is sent to an AI provider, embedded or stored"
+          >
+            <div className="space-y-2">
+              {REDACTION_DETECTORS.map(({ name, label }) => (
+                <div key={name} className="flex items-center justify-between">
+                  <span className="text-sm">{label}</span>
+                  <Toggle
+                    checked={!settings.redaction.disabledDetectors.includes(name)}
+                    onChange={(checked) => toggleRedactionDetector(name, checked)}
+                  />
+                </div>
+              ))}
+            </div>
+          </Field>
+
+          <Field label="Custom redaction patterns" hint="One regular expression per line">
+            <textarea
+              value={settings.redaction.customPatterns.join('\n')}
+              onChange={(e) =>
+                updateSetting('redaction', { ...settings.redaction, customPatterns: e.target.value.split('\n') })
+              }
+              rows={3}
+              placeholder="ACME-\d{6}"
+              className="w-full px-3 py-2 rounded-lg border bg-background text-sm font-mono outline-none focus:ring-2 focus:ring-ring"
+            />
+          </Field>
+        </Section>
+
+        {/* Usage */}
+        <Section title="Usage">
+          <Field
+            label="Daily budget (USD)"
+            hint="Frame analysis with cloud providers pauses until midnight once today's estimated cost reaches this. 0 means no limit."
+          >
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={settings.dailyBudgetUSD}
+              onChange={(e) => updateSetting('dailyBudgetUSD', Number(e.target.value))}
+              className="w-24 px-3 py-2 rounded-lg border bg-background text-sm outline-none focus:ring-2 focus:ring-ring"
+            />
+          </Field>
+
+          <UsageDashboard />
+        </Section>
+
+        {/* Storage */}
+        <Section title="Storage">
+          <Field label="Keep frames for (days)" hint="Older frames are deleted. 0 keeps them forever.">
+            <input
+              type="number"
+              min="0"
+              value={settings.retention.maxAgeDays}
+              onChange={(e) => updateRetention({ maxAgeDays: Number(e.target.value) })}
+              className="w-24 px-3 py-2 rounded-lg border bg-background text-sm outline-none focus:ring-2 focus:ring-ring"
+            />
+          </Field>
+
+          <Field label="Maximum disk usage (MB)" hint="The oldest frames are deleted beyond this. 0 means no limit.">
+            <input
+              type="number"
+              min="0"
+              step="100"
+              value={settings.retention.maxDiskMB}
+              onChange={(e) => updateRetention({ maxDiskMB: Number(e.target.value) })}
+              className="w-32 px-3 py-2 rounded-lg border bg-background text-sm outline-none focus:ring-2 focus:ring-ring"
+            />
+          </Field>
+
+          <Field label="Per-app retention" hint="Bundle id or app name, with its own age limit in days">
+            <div className="space-y-2">
+              {settings.retention.appOverrides.map((override, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    value={override.app}
+                    onChange={(e) => updateOverride(index, { app: e.target.value })}
+                    placeholder="com.apple.Safari"
+                    className="flex-1 px-3 py-2 rounded-lg border bg-background text-sm outline-none focus:ring-2 focus:ring-ring"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    value={override.maxAgeDays}
+                    onChange={(e) => updateOverride(index, { maxAgeDays: Number(e.target.value) })}
+                    className="w-24 px-3 py-2 rounded-lg border bg-background text-sm outline-none focus:ring-2 focus:ring-ring"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      updateRetention({
+                        appOverrides: settings.retention.appOverrides.filter((_, i) => i !== index)
+                      })
+                    }
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  updateRetention({
+                    appOverrides: [...settings.retention.appOverrides, { app: '', maxAgeDays: 1 }]
+                  })
+                }
+              >
+                <Plus className="w-4 h-4 mr-2" /> Add app
+              </Button>
+            </div>
+          </Field>
+
+          {retentionStatus && (
+            <div className="flex items-center justify-between p-4 rounded-lg border bg-card">
+              <div>
+                <p className="font-medium">
+                  {formatBytes(retentionStatus.usage.imageBytes)} used by{' '}
+                  {retentionStatus.usage.frameCount.toLocaleString()} frames
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {retentionStatus.pending.frameCount > 0
+                    ? `Next cleanup removes ${retentionStatus.pending.frameCount.toLocaleString()} frames ` +
+                      `(${formatBytes(retentionStatus.pending.imageBytes)}) last seen up to ` +
+                      new Date(retentionStatus.pending.newestTimestamp! * 1000).toLocaleString()
+                    : 'Nothing to clean up under the saved policy'}
+                  {retentionStatus.nextRunAt && ` · next run ${new Date(retentionStatus.nextRunAt).toLocaleTimeString()}`}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={runCleanup}
+                disabled={isCleaning || retentionStatus.pending.frameCount === 0}
+              >
+                {isCleaning ? 'Cleaning...' : 'Clean up now'}
+              </Button>
+            </div>
+          )}
+        </Section>
+
         {/* Save Button */}
         <div className="flex justify-end pt-4 border-t">
           <Button onClick={saveSettings} disabled={isSaving}>
@@ -311,6 +878,12 @@ export function Settings() {
   )
 }
 
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+}
+
 function Section({ title, children }: { title: string; children: React.ReactNode }) {
   return (
     <section className="space-y-4">
@@ -1,14 +1,18 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
 import { Image as ImageIcon, Grid3X3, Clock, X } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { apiFetch, frameImageUrl } from '@/lib/api'
 
-interface Frame {
+export interface Frame {
   id: string
-  score: number
+  // Search relevance; frames not from a search have none
+  score?: number
   timestamp: number
   summary: string
   activeApplication: string | null
   userActivity: string | null
+  lastSeenAt?: number | null
+  duplicateCount?: number
 }
 
 interface TimelineData {
@@ -17,29 +21,68 @@ interface TimelineData {
   end: number
 }
 
+interface TimelinePage extends TimelineData {
+  nextCursor: string | null
+}
+
+const TIMELINE_PATH = '/api/frames/timeline'
+const TIMELINE_PAGE_SIZE = 500
+
 type ViewMode = 'grid' | 'timeline'
 
+async function fetchTimelinePage(params: URLSearchParams): Promise<TimelinePage> {
+  const response = await apiFetch(`${TIMELINE_PATH}?${params}`)
+  const body = await response.json().catch(() => null)
+  if (!response.ok) {
+    throw new Error(body?.error || `Failed to load timeline (${response.status})`)
+  }
+  return body as TimelinePage
+}
+
 export function Timeline() {
   const [viewMode, setViewMode] = useState<ViewMode>('grid')
   const [timelineData, setTimelineData] = useState<TimelineData | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [selectedFrame, setSelectedFrame] = useState<Frame | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
 
-  const loadTimeline = useCallback(async () => {
+  // Show the first page as soon as it arrives, then keep appending pages
+  // until the range is exhausted (or the component unmounts)
+  const loadTimeline = useCallback(async (isCancelled: () => boolean) => {
     setIsLoading(true)
+    setLoadError(null)
     try {
-      const response = await fetch('http://localhost:3001/api/frames/timeline?hours=24')
-      const data = await response.json()
-      setTimelineData(data)
+      let page = await fetchTimelinePage(new URLSearchParams({ hours: '24', limit: String(TIMELINE_PAGE_SIZE) }))
+      if (isCancelled()) return
+      setTimelineData({ frames: page.frames, start: page.start, end: page.end })
+      setIsLoading(false)
+
+      while (page.nextCursor) {
+        const params = new URLSearchParams({
+          start: String(page.start),
+          end: String(page.end),
+          limit: String(TIMELINE_PAGE_SIZE),
+          cursor: page.nextCursor
+        })
+        page = await fetchTimelinePage(params)
+        if (isCancelled()) return
+        const frames = page.frames
+        setTimelineData(prev => prev && { ...prev, frames: [...prev.frames, ...frames] })
+      }
     } catch (error) {
       console.error('Failed to load timeline:', error)
+      if (!isCancelled()) setLoadError(error instanceof Error ? error.message : 'Unknown error')
     } finally {
-      setIsLoading(false)
+      if (!isCancelled()) setIsLoading(false)
     }
   }, [])
 
   useEffect(() => {
-    loadTimeline()
+    let cancelled = false
+    loadTimeline(() => cancelled)
+    return () => {
+      cancelled = true
+    }
   }, [loadTimeline])
 
   if (isLoading) {
@@ -50,6 +93,17 @@ export function Timeline() {
     )
   }
 
+  // Frames already shown stay visible if a later page fails
+  if (loadError && !timelineData?.frames.length) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full bg-background text-muted-foreground gap-3">
+        <ImageIcon className="w-16 h-16 opacity-50" />
+        <p className="text-lg">Couldn't load screen history</p>
+        <p className="text-sm opacity-70">{loadError}</p>
+      </div>
+    )
+  }
+
   if (!timelineData?.frames.length) {
     return (
       <div className="flex flex-col items-center justify-center h-full bg-background text-muted-foreground gap-3">
@@ -172,7 +226,7 @@ function FrameCard({ frame, onClick }: { frame: Frame; onClick: () => void }) {
       className="group relative aspect-video rounded-lg overflow-hidden bg-muted hover:ring-2 hover:ring-primary transition-all"
     >
       <img
-        src={`http://localhost:3001/api/frames/${frame.id}/image`}
+        src={frameImageUrl(frame.id)}
         alt=""
         className="w-full h-full object-cover"
         loading="lazy"
@@ -188,7 +242,7 @@ function FrameCard({ frame, onClick }: { frame: Frame; onClick: () => void }) {
 }
 
 // Frame modal component
-function FrameModal({ frame, onClose }: { frame: Frame; onClose: () => void }) {
+export function FrameModal({ frame, onClose }: { frame: Frame; onClose: () => void }) {
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Escape') onClose()
@@ -222,7 +276,7 @@ function FrameModal({ frame, onClose }: { frame: Frame; onClose: () => void }) {
         onClick={(e) => e.stopPropagation()}
       >
         <img
-          src={`http://localhost:3001/api/frames/${frame.id}/image`}
+          src={frameImageUrl(frame.id)}
           alt=""
           className="max-w-full max-h-[80vh] object-contain rounded-xl shadow-2xl"
         />
@@ -231,6 +285,16 @@ function FrameModal({ frame, onClose }: { frame: Frame; onClose: () => void }) {
             <span className="font-semibold">{frame.activeApplication}</span>
           )}
           <span className="text-white/60">{time}</span>
+          {frame.lastSeenAt && frame.lastSeenAt > frame.timestamp && (
+            <span className="text-white/40">
+              on screen until{' '}
+              {new Date(frame.lastSeenAt * 1000).toLocaleTimeString([], {
+                hour: 'numeric',
+                minute: '2-digit',
+                second: '2-digit'
+              })}
+            </span>
+          )}
           {frame.summary && (
             <>
               <span className="text-white/30">|</span>
@@ -250,6 +314,14 @@ function TimelineScrubber({ timelineData }: { timelineData: TimelineData }) {
   const [dragStartX, setDragStartX] = useState(0)
   const [dragStartIndex, setDragStartIndex] = useState(0)
   const containerRef = useRef<HTMLDivElement>(null)
+  const frameCountRef = useRef(timelineData.frames.length)
+
+  // Stay pinned to the newest capture while later pages stream in
+  useEffect(() => {
+    const previousCount = frameCountRef.current
+    frameCountRef.current = timelineData.frames.length
+    setCurrentIndex(i => (i === previousCount - 1 ? timelineData.frames.length - 1 : i))
+  }, [timelineData.frames.length])
 
   // Keyboard navigation
   useEffect(() => {
@@ -356,7 +428,7 @@ function TimelineScrubber({ timelineData }: { timelineData: TimelineData }) {
         {currentFrame && (
           <>
             <img
-              src={`http://localhost:3001/api/frames/${currentFrame.id}/image`}
+              src={frameImageUrl(currentFrame.id)}
               alt=""
               className="max-w-full max-h-full object-contain rounded-xl shadow-2xl pointer-events-none"
               draggable={false}
@@ -0,0 +1,174 @@
+import { useState, useEffect } from 'react'
+import { AlertCircle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+type UsagePurpose = 'vision' | 'embedding' | 'chat' | 'agent'
+
+interface UsageTotals {
+  requests: number
+  inputTokens: number
+  outputTokens: number
+  images: number
+  cost: number
+  unpricedRequests: number
+}
+
+interface UsageSummary {
+  days: Array<{ date: string } & UsageTotals>
+  byProvider: Array<{ provider: string } & UsageTotals>
+  byPurpose: Array<{ purpose: UsagePurpose } & UsageTotals>
+  byModel: Array<{ provider: string; model: string } & UsageTotals>
+  total: UsageTotals
+  budget: {
+    dailyLimitUSD: number
+    spentTodayUSD: number
+    exceeded: boolean
+    resetsAt: number
+  }
+}
+
+const PURPOSE_LABELS: Record<UsagePurpose, string> = {
+  vision: 'Frame analysis',
+  embedding: 'Embeddings',
+  chat: 'Chat',
+  agent: 'Assistant'
+}
+
+const SUMMARY_DAYS = 30
+
+function formatCost(usd: number): string {
+  if (usd === 0) return '$0.00'
+  if (usd < 0.01) return `$${usd.toFixed(4)}`
+  return `$${usd.toFixed(2)}`
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens < 1000) return String(tokens)
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1)}K`
+  return `${(tokens / 1_000_000).toFixed(2)}M`
+}
+
+// Spending over the last 30 days, from the main process usage ledger
+export function UsageDashboard() {
+  const [summary, setSummary] = useState<UsageSummary | null>(null)
+
+  useEffect(() => {
+    const loadSummary = () => {
+      window.api.getUsageSummary(SUMMARY_DAYS).then(setSummary).catch((error: unknown) => {
+        console.error('Failed to get usage summary:', error)
+      })
+    }
+
+    loadSummary()
+    const interval = setInterval(loadSummary, 30000)
+    return () => clearInterval(interval)
+  }, [])
+
+  if (!summary) return null
+
+  const today = summary.days[summary.days.length - 1]
+  const maxDailyCost = Math.max(...summary.days.map((day) => day.cost), summary.budget.dailyLimitUSD)
+  const { budget } = summary
+
+  return (
+    <div className="space-y-4">
+      {budget.exceeded && (
+        <div className="flex items-center gap-2 p-3 rounded-lg border border-yellow-500/50 bg-yellow-500/10 text-sm">
+          <AlertCircle className="w-4 h-4 text-yellow-500" />
+          Daily budget reached. Frame analysis resumes at {new Date(budget.resetsAt).toLocaleTimeString()}.
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-3">
+        <Stat
+          label="Today"
+          value={formatCost(today.cost)}
+          detail={budget.dailyLimitUSD > 0 ? `of ${formatCost(budget.dailyLimitUSD)} budget` : `${today.requests} requests`}
+        />
+        <Stat label={`Last ${SUMMARY_DAYS} days`} value={formatCost(summary.total.cost)} detail={`${summary.total.requests} requests`} />
+        <Stat
+          label="Tokens"
+          value={formatTokens(summary.total.inputTokens + summary.total.outputTokens)}
+          detail={`${formatTokens(summary.total.inputTokens)} in · ${formatTokens(summary.total.outputTokens)} out`}
+        />
+      </div>
+
+      <div className="p-4 rounded-lg border bg-card">
+        <div className="flex items-end gap-[2px] h-20">
+          {summary.days.map((day) => (
+            <div
+              key={day.date}
+              title={`${day.date}: ${formatCost(day.cost)}, ${day.requests} requests`}
+              className="flex-1 rounded-sm bg-primary/70"
+              style={{ height: maxDailyCost > 0 ? `${Math.max((day.cost / maxDailyCost) * 100, day.requests ? 2 : 0)}%` : 0 }}
+            />
+          ))}
+        </div>
+        <div className="flex justify-between mt-1 text-xs text-muted-foreground">
+          <span>{summary.days[0].date}</span>
+          <span>Today</span>
+        </div>
+      </div>
+
+      <UsageTable
+        title="By purpose"
+        rows={summary.byPurpose.map((row) => ({ key: row.purpose, label: PURPOSE_LABELS[row.purpose], ...row }))}
+      />
+      <UsageTable
+        title="By model"
+        rows={summary.byModel.map((row) => ({ key: `${row.provider}/${row.model}`, label: `${row.provider}/${row.model}`, ...row }))}
+      />
+
+      {summary.total.unpricedRequests > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {summary.total.unpricedRequests} requests used models without a known price and are not included in the cost.
+        </p>
+      )}
+      <p className="text-xs text-muted-foreground">Costs are estimates from list prices.</p>
+    </div>
+  )
+}
+
+function Stat({ label, value, detail }: { label: string; value: string; detail: string }) {
+  return (
+    <div className="p-3 rounded-lg border bg-card">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-lg font-medium">{value}</p>
+      <p className="text-xs text-muted-foreground">{detail}</p>
+    </div>
+  )
+}
+
+function UsageTable({ title, rows }: { title: string; rows: Array<{ key: string; label: string } & UsageTotals> }) {
+  if (rows.length === 0) return null
+
+  return (
+    <div className="space-y-1">
+      <p className="text-sm font-medium">{title}</p>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-muted-foreground text-left">
+            <th className="font-normal py-1"></th>
+            <th className="font-normal py-1 text-right">Requests</th>
+            <th className="font-normal py-1 text-right">Tokens in</th>
+            <th className="font-normal py-1 text-right">Tokens out</th>
+            <th className="font-normal py-1 text-right">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.key} className="border-t">
+              <td className="py-1 truncate max-w-[12rem]">{row.label}</td>
+              <td className="py-1 text-right">{row.requests.toLocaleString()}</td>
+              <td className="py-1 text-right">{formatTokens(row.inputTokens)}</td>
+              <td className="py-1 text-right">{formatTokens(row.outputTokens)}</td>
+              <td className={cn('py-1 text-right', row.unpricedRequests > 0 && 'text-muted-foreground')}>
+                {formatCost(row.cost)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
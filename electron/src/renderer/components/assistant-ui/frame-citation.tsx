@@ -0,0 +1,87 @@
+import { FC, useEffect, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { ImageIcon } from 'lucide-react'
+import { apiFetch, frameImageUrl } from '@/lib/api'
+import { Frame, FrameModal } from '@/components/Timeline'
+
+// Cited frames are fetched once per session; answers often cite the same frame repeatedly
+const frameCache = new Map<string, Promise<Frame | null>>()
+
+// Delay before fetching a citation again after a network or server error
+const RETRY_DELAY_MS = 5000
+
+// Null when the frame was deleted; rejects if it couldn't be fetched
+function loadFrame(id: string): Promise<Frame | null> {
+  let frame = frameCache.get(id)
+  if (!frame) {
+    frame = apiFetch(`/api/frames/${encodeURIComponent(id)}`).then(async (response) => {
+      if (response.status === 404) return null
+      if (!response.ok) throw new Error(`Failed to load frame: ${response.status}`)
+      return ((await response.json()) as { frame: Frame }).frame
+    })
+    // Only a missing frame is final; fetch again next time after other errors
+    frame.catch(() => frameCache.delete(id))
+    frameCache.set(id, frame)
+  }
+  return frame
+}
+
+// Clickable chip for a [frame:ID] citation in an assistant answer
+export const FrameCitation: FC<{ frameId: string }> = ({ frameId }) => {
+  const [frame, setFrame] = useState<Frame | null | undefined>(undefined)
+  const [open, setOpen] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    let retryTimer: ReturnType<typeof setTimeout> | undefined
+    const load = (): void => {
+      loadFrame(frameId)
+        .then((loaded) => {
+          if (!cancelled) setFrame(loaded)
+        })
+        .catch(() => {
+          // Keep showing the citation as loading and try again
+          if (!cancelled) retryTimer = setTimeout(load, RETRY_DELAY_MS)
+        })
+    }
+    load()
+    return () => {
+      cancelled = true
+      clearTimeout(retryTimer)
+    }
+  }, [frameId])
+
+  if (frame === null) {
+    return (
+      <span className="inline-flex items-center gap-1 px-1.5 rounded text-xs text-muted-foreground/60 bg-muted/40 align-middle" title="This capture is no longer available">
+        <ImageIcon className="w-3 h-3" />
+        deleted
+      </span>
+    )
+  }
+
+  const time = frame
+    ? new Date(frame.timestamp * 1000).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+    : '…'
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => frame && setOpen(true)}
+        disabled={!frame}
+        title={frame?.summary || undefined}
+        className="not-prose inline-flex items-center gap-1.5 h-6 pl-0.5 pr-2 mx-0.5 rounded-md border border-border/50 bg-muted/40 text-xs text-muted-foreground align-middle hover:bg-muted hover:text-foreground transition-colors"
+      >
+        {frame ? (
+          <img src={frameImageUrl(frame.id)} alt="" className="h-5 w-8 rounded-sm object-cover" loading="lazy" />
+        ) : (
+          <span className="h-5 w-8 rounded-sm bg-muted animate-pulse" />
+        )}
+        <span>{time}</span>
+        {frame?.activeApplication && <span className="max-w-[8rem] truncate opacity-70">{frame.activeApplication}</span>}
+      </button>
+      {open && frame && createPortal(<FrameModal frame={frame} onClose={() => setOpen(false)} />, document.body)}
+    </>
+  )
+}
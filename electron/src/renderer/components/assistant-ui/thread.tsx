@@ -5,14 +5,18 @@ import {
   ActionBarPrimitive,
   BranchPickerPrimitive,
   ComposerPrimitive,
+  ErrorPrimitive,
   MessagePrimitive,
-  ThreadPrimitive
+  ThreadPrimitive,
+  ToolCallMessagePartProps
 } from '@assistant-ui/react'
-import { ArrowDownIcon, ArrowUpIcon, CheckIcon, ChevronLeftIcon, ChevronRightIcon, CopyIcon, RefreshCwIcon, SquareIcon, BrainIcon, ChevronDownIcon, SearchIcon, ClockIcon, AppWindowIcon, BarChart3Icon, ListIcon } from 'lucide-react'
+import { ArrowDownIcon, ArrowUpIcon, CheckIcon, ChevronLeftIcon, ChevronRightIcon, CopyIcon, RefreshCwIcon, SquareIcon, BrainIcon, ChevronDownIcon, SearchIcon, ClockIcon, AppWindowIcon, BarChart3Icon, ListIcon, ImageIcon, LoaderIcon, WrenchIcon } from 'lucide-react'
 import { FC, useState } from 'react'
-import ReactMarkdown from 'react-markdown'
+import ReactMarkdown, { Components } from 'react-markdown'
 import remarkGfm from 'remark-gfm'
 import remarkBreaks from 'remark-breaks'
+import { FrameCitation } from './frame-citation'
+import { citedFrameId, linkCitations } from '@/lib/citations'
 
 export const Thread: FC = () => {
   return (
@@ -132,19 +136,7 @@ const toolIcons: Record<string, FC<{ className?: string }>> = {
   app_search: AppWindowIcon,
   get_stats: BarChart3Icon,
   get_recent: ListIcon,
-}
-
-// Component to render tool usage - subtle inline indicator
-const ToolBadge: FC<{ toolName: string }> = ({ toolName }) => {
-  const Icon = toolIcons[toolName] || SearchIcon
-  const displayName = toolName.replace(/_/g, ' ')
-
-  return (
-    <span className="inline-flex items-center gap-1.5 text-xs text-muted-foreground/70 italic">
-      <Icon className="w-3 h-3" />
-      <span>{displayName}</span>
-    </span>
-  )
+  view_frame: ImageIcon,
 }
 
 // Component to render thinking blocks - warm, subtle styling
@@ -185,126 +177,79 @@ const ThinkingBlock: FC<{ content: string }> = ({ content }) => {
   )
 }
 
-// Parse text to separate thinking blocks, tool usage, and regular content
-type ContentPart =
-  | { type: 'thinking'; content: string }
-  | { type: 'tool'; content: string }
-  | { type: 'text'; content: string }
-
-const parseContent = (text: string): ContentPart[] => {
-  const parts: ContentPart[] = []
-
-  // Handle both complete and incomplete thinking blocks
-  // Check for unclosed thinking tag first
-  const openTagIndex = text.indexOf('<thinking>')
-  const closeTagIndex = text.indexOf('</thinking>')
-
-  if (openTagIndex !== -1) {
-    // Add text before thinking
-    if (openTagIndex > 0) {
-      const before = text.slice(0, openTagIndex)
-      if (before.trim()) {
-        parts.push(...parseToolsAndText(before))
-      }
-    }
-
-    if (closeTagIndex !== -1 && closeTagIndex > openTagIndex) {
-      // Complete thinking block
-      const thinkingContent = text.slice(openTagIndex + 10, closeTagIndex)
-      parts.push({ type: 'thinking', content: thinkingContent })
-
-      // Parse remaining text after </thinking>
-      const after = text.slice(closeTagIndex + 11)
-      if (after.trim()) {
-        parts.push(...parseToolsAndText(after))
-      }
-    } else {
-      // Unclosed thinking block - everything after <thinking> is thinking content
-      const thinkingContent = text.slice(openTagIndex + 10)
-      parts.push({ type: 'thinking', content: thinkingContent })
-    }
-  } else {
-    // No thinking tags, just parse tools and text
-    parts.push(...parseToolsAndText(text))
-  }
-
-  return parts
+// One-line summary of a tool call's input, e.g. "standup notes · Slack"
+function describeToolInput(args: Record<string, unknown>): string {
+  return Object.values(args)
+    .filter((value) => typeof value === 'string' || typeof value === 'number')
+    .join(' · ')
 }
 
-// Helper to parse tool usage and regular text
-const parseToolsAndText = (text: string): ContentPart[] => {
-  const parts: ContentPart[] = []
-  const toolRegex = /\[Using (\w+)\.{3}\]/g
-  let lastIndex = 0
-  let match
-
-  while ((match = toolRegex.exec(text)) !== null) {
-    if (match.index > lastIndex) {
-      const textContent = text.slice(lastIndex, match.index)
-      if (textContent.trim()) {
-        parts.push({ type: 'text', content: textContent })
-      }
-    }
-    parts.push({ type: 'tool', content: match[1] })
-    lastIndex = toolRegex.lastIndex
-  }
-
-  if (lastIndex < text.length) {
-    const textContent = text.slice(lastIndex)
-    if (textContent.trim()) {
-      parts.push({ type: 'text', content: textContent })
-    }
-  }
-
-  return parts
+function describeToolResult(result: unknown): string | null {
+  if (!result || typeof result !== 'object') return null
+  const { count, error } = result as { count?: unknown; error?: unknown }
+  if (typeof error === 'string') return error
+  if (typeof count === 'number') return count === 1 ? '1 result' : `${count} results`
+  return null
 }
 
-// Custom text renderer that handles thinking blocks and tool badges
-const TextWithThinking: FC<{ text: string }> = ({ text }) => {
-  const parts = parseContent(text)
+// Tool call card - collapsed to the tool and its input, expands to the raw result
+const ToolCallCard: FC<ToolCallMessagePartProps> = ({ toolName, args, result, status }) => {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const Icon = toolIcons[toolName] || WrenchIcon
+  const running = status.type === 'running'
+  const input = describeToolInput(args ?? {})
+  const resultSummary = describeToolResult(result)
 
-  // Group consecutive tool badges together
-  const groupedParts: Array<ContentPart | { type: 'tools'; tools: string[] }> = []
-  let currentTools: string[] = []
+  return (
+    <div className="mb-2 rounded-lg border border-border/50 bg-muted/20 overflow-hidden not-prose">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        disabled={running}
+        className="flex w-full items-center gap-2.5 px-3 py-2 text-sm hover:bg-muted/50 transition-colors"
+      >
+        {running ? (
+          <LoaderIcon className="w-3.5 h-3.5 text-muted-foreground/60 animate-spin" />
+        ) : (
+          <Icon className="w-3.5 h-3.5 text-muted-foreground/60" />
+        )}
+        <span className="text-muted-foreground/80 text-xs font-medium">{toolName.replace(/_/g, ' ')}</span>
+        <span className="text-xs text-muted-foreground/50 truncate flex-1 text-left">{input}</span>
+        {resultSummary && <span className="text-xs text-muted-foreground/60">{resultSummary}</span>}
+        {!running && (
+          <ChevronDownIcon className={cn(
+            "w-3.5 h-3.5 text-muted-foreground/50 transition-transform duration-200",
+            isExpanded && "rotate-180"
+          )} />
+        )}
+      </button>
+      {isExpanded && (
+        <pre className="px-3 pb-3 pt-3 m-0 text-xs text-muted-foreground/70 whitespace-pre-wrap border-t border-border/30 max-h-[400px] overflow-y-auto bg-transparent">
+          {typeof result === 'string' ? result : JSON.stringify(result, null, 2)}
+        </pre>
+      )}
+    </div>
+  )
+}
 
-  for (const part of parts) {
-    if (part.type === 'tool') {
-      currentTools.push(part.content)
-    } else {
-      if (currentTools.length > 0) {
-        groupedParts.push({ type: 'tools', tools: currentTools })
-        currentTools = []
-      }
-      groupedParts.push(part)
-    }
-  }
-  if (currentTools.length > 0) {
-    groupedParts.push({ type: 'tools', tools: currentTools })
+// Frame citations arrive as links (see linkCitations) and render as chips
+const markdownComponents: Components = {
+  a: ({ href, children, node: _node, ...props }) => {
+    const frameId = citedFrameId(href)
+    if (frameId) return <FrameCitation frameId={frameId} />
+    return (
+      <a href={href} {...props}>
+        {children}
+      </a>
+    )
   }
+}
 
+// Answer text as markdown, with frame citations as chips
+const MarkdownText: FC<{ text: string; streaming: boolean }> = ({ text, streaming }) => {
   return (
-    <>
-      {groupedParts.map((part, i) => {
-        if (part.type === 'thinking') {
-          return <ThinkingBlock key={i} content={part.content} />
-        } else if (part.type === 'tools') {
-          return (
-            <div key={i} className="flex items-center gap-3 py-2 mb-2 text-muted-foreground/60">
-              <span className="text-xs">Searching:</span>
-              {part.tools.map((tool, j) => (
-                <ToolBadge key={j} toolName={tool} />
-              ))}
-            </div>
-          )
-        } else {
-          return (
-            <ReactMarkdown key={i} remarkPlugins={[remarkGfm, remarkBreaks]}>
-              {part.content}
-            </ReactMarkdown>
-          )
-        }
-      })}
-    </>
+    <ReactMarkdown remarkPlugins={[remarkGfm, remarkBreaks]} components={markdownComponents}>
+      {linkCitations(text, streaming)}
+    </ReactMarkdown>
   )
 }
 
@@ -315,9 +260,16 @@ const AssistantMessage: FC = () => {
         <div className="prose prose-sm dark:prose-invert max-w-none prose-p:text-foreground/85 prose-p:leading-relaxed prose-headings:text-foreground/90 prose-strong:text-foreground/90 prose-li:text-foreground/85">
           <MessagePrimitive.Content
             components={{
-              Text: ({ text }) => <TextWithThinking text={text} />
+              Text: ({ text, status }) => <MarkdownText text={text} streaming={status.type === 'running'} />,
+              Reasoning: ({ text }) => <ThinkingBlock content={text} />,
+              tools: { Fallback: ToolCallCard }
             }}
           />
+          <MessagePrimitive.Error>
+            <ErrorPrimitive.Root className="not-prose mt-2 rounded-lg border border-destructive/40 bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              <ErrorPrimitive.Message />
+            </ErrorPrimitive.Root>
+          </MessagePrimitive.Error>
         </div>
         <div className="mt-3 flex items-center gap-1 opacity-0 hover:opacity-100 transition-opacity">
           <BranchPicker />
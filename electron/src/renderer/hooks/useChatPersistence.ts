@@ -1,12 +1,7 @@
 import { useCallback, useEffect, useRef, useState } from 'react'
-import { useThreadRuntime, useAssistantRuntime } from '@assistant-ui/react'
-
-interface ChatMessage {
-  id: string
-  role: 'user' | 'assistant'
-  content: string
-  createdAt: number
-}
+import { useThreadRuntime, useAssistantRuntime, getExternalStoreMessages } from '@assistant-ui/react'
+import type { UIMessage } from 'ai'
+import { ChatMessage, toChatMessage, toMessageRepository } from '@/lib/chat-messages'
 
 interface Chat {
   id: string
@@ -30,24 +25,18 @@ export function useChatPersistence() {
   const extractTitle = (messages: ChatMessage[]): string => {
     const firstUserMessage = messages.find(m => m.role === 'user')
     if (!firstUserMessage) return 'New Chat'
-    const content = firstUserMessage.content
+    const content = firstUserMessage.parts.map((p) => (p.type === 'text' ? p.text : '')).join('')
     // Truncate to first 50 chars or first line
     const firstLine = content.split('\n')[0]
     return firstLine.length > 50 ? firstLine.slice(0, 47) + '...' : firstLine
   }
 
-  // Convert thread messages to our format
+  // Convert thread messages to our format, from the AI SDK messages behind them
   const convertMessages = (): ChatMessage[] => {
     const state = threadRuntime.getState()
-    return state.messages.map(m => ({
-      id: m.id,
-      role: m.role as 'user' | 'assistant',
-      content: m.content
-        .filter(p => p.type === 'text')
-        .map(p => (p as { type: 'text'; text: string }).text)
-        .join(''),
-      createdAt: m.createdAt?.getTime() || Date.now()
-    }))
+    return state.messages.flatMap(m =>
+      getExternalStoreMessages<UIMessage>(m).map(message => toChatMessage(message, m.createdAt?.getTime() || Date.now()))
+    )
   }
 
   // Save current chat
@@ -122,20 +111,13 @@ export function useChatPersistence() {
     const chat = await window.api.getChat(chatId)
     if (!chat) return
 
-    // Convert our messages back to ThreadMessageLike format
-    const threadMessages = chat.messages.map(m => ({
-      role: m.role as 'user' | 'assistant',
-      content: [{ type: 'text' as const, text: m.content }]
-    }))
-
     // Update state first
     setCurrentChatId(chatId)
     lastMessageCountRef.current = chat.messages.length
 
-    // Reset with the loaded messages
-    // Note: AI SDK transport may not fully support this - messages display but can't continue
+    // Import the loaded messages; the chat continues from them, tool calls included
     try {
-      threadRuntime.reset(threadMessages)
+      threadRuntime.import(toMessageRepository(chat.messages))
     } catch (e) {
       console.error('Failed to reset thread:', e)
       threadRuntime.reset()
@@ -0,0 +1,20 @@
+// Local API server. Every request needs the per-launch token, which the
+// preload script fetches from the main process.
+export const API_BASE_URL: string = window.api?.apiBaseUrl ?? 'http://127.0.0.1:3001'
+
+export function apiHeaders(): Record<string, string> {
+  return window.api?.apiToken ? { Authorization: `Bearer ${window.api.apiToken}` } : {}
+}
+
+export function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  return fetch(`${API_BASE_URL}${path}`, {
+    ...init,
+    headers: { ...apiHeaders(), ...(init.headers as Record<string, string> | undefined) }
+  })
+}
+
+// <img> requests can't send headers, so the token goes in the query string
+export function frameImageUrl(frameId: string): string {
+  const url = `${API_BASE_URL}/api/frames/${encodeURIComponent(frameId)}/image`
+  return window.api?.apiToken ? `${url}?token=${window.api.apiToken}` : url
+}
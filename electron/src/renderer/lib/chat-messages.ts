@@ -0,0 +1,120 @@
+import { unstable_createMessageConverter, ExportedMessageRepository, ThreadMessageLike } from '@assistant-ui/react'
+import type { UIMessage } from 'ai'
+
+// Saved chat messages, as stored by the main process
+export type ChatMessagePart =
+  | { type: 'text'; text: string }
+  | { type: 'thinking'; text: string }
+  | { type: 'tool_call'; toolCallId: string; toolName: string; input: unknown }
+  | { type: 'tool_result'; toolCallId: string; output: unknown; isError?: boolean }
+  | { type: 'citation'; frameId: string }
+  | { type: 'image'; url: string; mediaType: string }
+  // Start of a model turn within a reply
+  | { type: 'step' }
+
+export interface ChatMessage {
+  id: string
+  role: 'user' | 'assistant'
+  parts: ChatMessagePart[]
+  createdAt: number
+}
+
+// Chat thread messages (AI SDK UI messages) in the saved format
+export function toChatMessage(message: UIMessage, createdAt: number): ChatMessage {
+  const parts: ChatMessagePart[] = []
+  for (const part of message.parts) {
+    if (part.type === 'step-start') {
+      parts.push({ type: 'step' })
+    } else if (part.type === 'text') {
+      if (part.text) parts.push({ type: 'text', text: part.text })
+    } else if (part.type === 'reasoning') {
+      if (part.text) parts.push({ type: 'thinking', text: part.text })
+    } else if (part.type === 'dynamic-tool') {
+      parts.push({ type: 'tool_call', toolCallId: part.toolCallId, toolName: part.toolName, input: part.input ?? {} })
+      if (part.state === 'output-available') {
+        parts.push({ type: 'tool_result', toolCallId: part.toolCallId, output: part.output })
+      } else if (part.state === 'output-error') {
+        parts.push({ type: 'tool_result', toolCallId: part.toolCallId, output: part.errorText, isError: true })
+      }
+    } else if (part.type === 'data-citation') {
+      parts.push({ type: 'citation', frameId: (part.data as { frameId: string }).frameId })
+    } else if (part.type === 'file' && part.mediaType.startsWith('image/')) {
+      parts.push({ type: 'image', url: part.url, mediaType: part.mediaType })
+    }
+  }
+  return { id: message.id, role: message.role as ChatMessage['role'], parts, createdAt }
+}
+
+// A saved message back in the AI SDK format, so the agent sees its earlier tool calls
+export function toUIMessage(message: ChatMessage): UIMessage {
+  const results = new Map<string, Extract<ChatMessagePart, { type: 'tool_result' }>>()
+  for (const part of message.parts) {
+    if (part.type === 'tool_result') results.set(part.toolCallId, part)
+  }
+
+  const parts: UIMessage['parts'] = []
+  for (const part of message.parts) {
+    switch (part.type) {
+      case 'text':
+        parts.push({ type: 'text', text: part.text, state: 'done' })
+        break
+      case 'thinking':
+        parts.push({ type: 'reasoning', text: part.text, state: 'done' })
+        break
+      case 'tool_call': {
+        const result = results.get(part.toolCallId)
+        const call = { type: 'dynamic-tool' as const, toolCallId: part.toolCallId, toolName: part.toolName, input: part.input }
+        if (result && !result.isError) {
+          parts.push({ ...call, state: 'output-available', output: result.output })
+        } else {
+          // Calls stopped before they finished are saved without a result
+          parts.push({ ...call, state: 'output-error', errorText: result ? String(result.output) : 'No result' })
+        }
+        break
+      }
+      case 'citation':
+        parts.push({ type: 'data-citation', id: `citation-${part.frameId}`, data: { frameId: part.frameId } })
+        break
+      case 'image':
+        parts.push({ type: 'file', url: part.url, mediaType: part.mediaType })
+        break
+      case 'step':
+        parts.push({ type: 'step-start' })
+        break
+    }
+  }
+  return { id: message.id, role: message.role, parts }
+}
+
+type ThreadMessagePart = Exclude<ThreadMessageLike['content'], string>[number]
+type ToolCallArgs = Extract<ThreadMessagePart, { type: 'tool-call' }>['args']
+
+// Thread messages that carry their AI SDK message, which ThreadRuntime.import
+// passes on to the chat
+const uiMessageConverter = unstable_createMessageConverter<UIMessage>((message): ThreadMessageLike => ({
+  id: message.id,
+  role: message.role,
+  content: message.parts.flatMap((part): ThreadMessagePart[] => {
+    if (part.type === 'text') return [{ type: 'text', text: part.text }]
+    if (part.type === 'reasoning') return [{ type: 'reasoning', text: part.text }]
+    if (part.type === 'dynamic-tool') {
+      return [{
+        type: 'tool-call',
+        toolCallId: part.toolCallId,
+        toolName: part.toolName,
+        args: (part.input ?? {}) as ToolCallArgs,
+        result: part.state === 'output-available' ? part.output : { error: part.errorText },
+        isError: part.state === 'output-error'
+      }]
+    }
+    return []
+  })
+}))
+
+export function toMessageRepository(messages: ChatMessage[]): ExportedMessageRepository {
+  const threadMessages = uiMessageConverter.toThreadMessages(messages.map(toUIMessage))
+  return {
+    headId: threadMessages.at(-1)?.id ?? null,
+    messages: threadMessages.map((message, i) => ({ message, parentId: i > 0 ? threadMessages[i - 1].id : null }))
+  }
+}
@@ -0,0 +1,18 @@
+// The chat agent cites screen captures inline as [frame:FRAME_ID]
+export const CITATION_PATTERN = /\[frame:([\w-]+)\]/g
+
+const CITATION_HREF_PREFIX = '#frame-'
+
+// A marker cut off mid-stream, e.g. "[fra" or "[frame:3f2a"
+const PARTIAL_CITATION = /\[(?:f(?:r(?:a(?:m(?:e(?::[\w-]*)?)?)?)?)?)?$/
+
+// Rewrite citation markers as markdown links so they can be rendered as chips.
+// While streaming, a marker still being written is hidden.
+export function linkCitations(text: string, streaming = false): string {
+  return (streaming ? text.replace(PARTIAL_CITATION, '') : text)
+    .replace(CITATION_PATTERN, (_match, id: string) => `[frame](${CITATION_HREF_PREFIX}${id})`)
+}
+
+export function citedFrameId(href: string | undefined): string | null {
+  return href?.startsWith(CITATION_HREF_PREFIX) ? href.slice(CITATION_HREF_PREFIX.length) : null
+}
@@ -0,0 +1,28 @@
+export interface LLMStatus {
+  analysisPausedUntil: number | null
+  providers: Array<{
+    name: string
+    state: 'closed' | 'open' | 'half-open'
+    reason: 'rate-limited' | 'outage' | null
+    resumeAt: number | null
+  }>
+  budget: {
+    dailyLimitUSD: number
+    spentTodayUSD: number
+    exceeded: boolean
+  }
+}
+
+// e.g. "Analysis paused: Gemini rate limited until 14:05:00", or null when not paused
+export function describeAnalysisPause(status: LLMStatus | null): string | null {
+  if (!status?.analysisPausedUntil) return null
+
+  const reasons = status.providers
+    .filter((p) => p.state === 'open')
+    .map((p) => `${p.name} ${p.reason === 'rate-limited' ? 'rate limited' : 'unavailable'}`)
+  if (status.budget?.exceeded) {
+    reasons.push(`daily budget of $${status.budget.dailyLimitUSD.toFixed(2)} reached`)
+  }
+  const until = new Date(status.analysisPausedUntil).toLocaleTimeString()
+  return `Analysis paused: ${reasons.join(', ') || 'provider unavailable'} until ${until}`
+}
@@ -290,7 +290,12 @@ class MeetingCoordinator: ObservableObject {
             recordings.remove(at: index)
             saveMeetings()
 
-            // TODO: Remove from Qdrant
+            // Remove the plaintext search entry too
+            if let qdrantClient = qdrantClient {
+                Task {
+                    try? await qdrantClient.deletePoint(id: id)
+                }
+            }
 
             NSLog("[MeetingCoordinator] Deleted meeting: %@", id.uuidString)
         }